@@ -0,0 +1,92 @@
+/**
+ * Download service worker.
+ *
+ * Lets the page stream a received file to the browser's download manager
+ * without building a Blob first. The page registers a download together with a
+ * MessagePort, then requests /__download__/<id>; this worker answers that
+ * request with a ReadableStream fed from the port. Each chunk is acknowledged
+ * once the stream has room for more, which keeps the page from sending faster
+ * than the download manager writes.
+ */
+
+const DOWNLOAD_PATH_PREFIX = '/__download__/';
+const STREAM_BUFFER_BYTES = 8 * 1024 * 1024;
+const downloads = new Map();
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('message', (event) => {
+  const message = event.data;
+  if (!message || message.type !== 'register-download') return;
+
+  const port = event.ports[0];
+  // Set when a chunk filled the buffer; acknowledged once the reader makes room
+  let ackPending = false;
+  const stream = new ReadableStream({
+    start(controller) {
+      port.onmessage = ({ data }) => {
+        if (data.type === 'chunk') {
+          controller.enqueue(new Uint8Array(data.data));
+          if (controller.desiredSize > 0) {
+            port.postMessage({ type: 'ack' });
+          } else {
+            ackPending = true;
+          }
+        } else if (data.type === 'end') {
+          controller.close();
+          port.close();
+        } else if (data.type === 'abort') {
+          controller.error(new Error(data.reason));
+          port.close();
+        }
+      };
+    },
+    pull() {
+      if (ackPending) {
+        ackPending = false;
+        port.postMessage({ type: 'ack' });
+      }
+    },
+    cancel() {
+      port.postMessage({ type: 'cancelled' });
+      port.close();
+    }
+  }, new ByteLengthQueuingStrategy({ highWaterMark: STREAM_BUFFER_BYTES }));
+
+  downloads.set(message.downloadId, {
+    stream,
+    fileName: message.fileName,
+    fileSize: message.fileSize,
+    mimeType: message.mimeType
+  });
+  port.postMessage({ type: 'registered' });
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (!url.pathname.startsWith(DOWNLOAD_PATH_PREFIX)) return;
+
+  const downloadId = url.pathname.slice(DOWNLOAD_PATH_PREFIX.length);
+  const download = downloads.get(downloadId);
+  if (!download) {
+    event.respondWith(new Response('Download not found', { status: 404 }));
+    return;
+  }
+  downloads.delete(downloadId);
+
+  const headers = new Headers({
+    'Content-Type': download.mimeType,
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(download.fileName)}`
+  });
+  if (typeof download.fileSize === 'number') {
+    headers.set('Content-Length', String(download.fileSize));
+  }
+
+  event.respondWith(new Response(download.stream, { headers }));
+});
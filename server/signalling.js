@@ -0,0 +1,35 @@
+/**
+ * Minimal PeerJS signalling server, so peers can find each other without the
+ * public PeerJS cloud, e.g. inside a LAN. It only relays connection offers and
+ * ICE candidates; files never pass through it.
+ *
+ * Configured through environment variables:
+ *   PORT        port to listen on (9000)
+ *   PEER_PATH   path the app's "Path" setting must match (/)
+ *   PEER_KEY    API key the app's "Key" setting must match (peerjs)
+ *   SSL_KEY     private key file, to serve over TLS (wss://); needed when the app is served over https
+ *   SSL_CERT    certificate file to go with SSL_KEY
+ */
+import { readFileSync } from 'node:fs';
+import { PeerServer } from 'peer';
+
+const port = Number(process.env.PORT) || 9000;
+const path = process.env.PEER_PATH || '/';
+const key = process.env.PEER_KEY || 'peerjs';
+const ssl = process.env.SSL_KEY && process.env.SSL_CERT
+  ? { key: readFileSync(process.env.SSL_KEY, 'utf8'), cert: readFileSync(process.env.SSL_CERT, 'utf8') }
+  : undefined;
+
+const server = PeerServer({
+  port,
+  path,
+  key,
+  ssl,
+  // Do not let anyone list the IDs of connected peers
+  allow_discovery: false
+}, () => {
+  console.log(`Signalling server listening on ${ssl ? 'https' : 'http'}://0.0.0.0:${port}${path} with key "${key}"`);
+});
+
+server.on('connection', client => console.log(`Peer ${client.getId()} connected`));
+server.on('disconnect', client => console.log(`Peer ${client.getId()} disconnected`));
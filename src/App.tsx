@@ -1,1015 +1,556 @@
 import React, { useEffect, useRef, useState } from 'react';
-import Peer from 'peerjs';
-import { Share2, Upload, Download, Copy, CheckCircle, X, FileText, Image, Film, Music, Archive, File, QrCode, Camera, Lock } from 'lucide-react';
-import { FileTransfer, PeerConnection, FilePreview } from './types';
+import Peer, { DataConnection } from 'peerjs';
+import { Share2, Upload, Download, Copy, CheckCircle, X, FileText, Image, Film, Music, Archive, File, QrCode, Camera, Lock, KeyRound, Folder, FolderUp, FileArchive, ShieldAlert, ShieldX, Server, Hash } from 'lucide-react';
+import { Contact, EncryptionMode, FileTransfer, HistoryEntry, PeerConnection, FilePreview, PendingTransfer, TransferBatch, TransferGroup, TransferTime } from './types';
 import { FileTransferItem } from './components/FileTransferItem';
+import { FolderTransferItem } from './components/FolderTransferItem';
+import { PeerList } from './components/PeerList';
+import { ContactsPanel } from './components/ContactsPanel';
+import { EncryptionIcon } from './components/EncryptionIcon';
 import { ThemeToggle } from './components/ui/theme-toggle';
 import { QRCodeModal } from './components/QRCodeModal';
 import { QRScanner } from './components/QRScanner';
-import { encryptFile, secureEncryptFile } from './lib/encryption';
+import { SafetyNumberModal } from './components/SafetyNumberModal';
+import { SendQueuePanel } from './components/SendQueuePanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ConnectionSettingsModal } from './components/ConnectionSettingsModal';
+import { DropBoxPanel } from './components/DropBoxPanel';
+import { TransferEngine, transferKey } from './lib/transferEngine';
+import { createPeerChannel, getIceRoute } from './lib/transferChannel';
+import { createDiskSink, createMemorySink, supportsDiskSink } from './lib/chunkSink';
+import { createResumeStore } from './lib/resumeStore';
+import { ConnectionRegistry, createConnectionRegistry } from './lib/connectionRegistry';
+import { MAX_LANES } from './lib/protocol';
+import { createSendQueue, MAX_CONCURRENT_SENDS, SendQueueItem } from './lib/sendQueue';
+import { createContactStore } from './lib/contacts';
+import { createHistoryStore, HISTORY_BLOB_QUOTAS } from './lib/history';
+import { createDropBox, loadDropBoxRules, saveDropBoxRules } from './lib/dropBox';
+import { ConnectionSettings, loadConnectionSettings, saveConnectionSettings, toPeerOptions } from './lib/connectionSettings';
+import { formatFingerprint, getDeviceIdentity } from './lib/identity';
+import { createInvite, Invite, parseInvite, takeInviteFromLocation } from './lib/invite';
 import {
-  generateKeyPair,
-  exportPublicKey,
-  importPublicKey,
-  deriveSharedSecret,
-  generateSessionId,
-  storeSessionKey,
-  getSessionKey,
-  listSessionKeys
-} from './lib/keyExchange';
-
-// Optimized chunk size and concurrency for maximum performance
-const CHUNK_SIZE = 2097152; // 2MB chunks (increased from 1MB)
-const MAX_CHUNKS_IN_FLIGHT = 30; // Increased number of chunks to send simultaneously
+  customIdCandidate,
+  MAX_CUSTOM_ID_ATTEMPTS,
+  normalizePairingCode,
+  openPairingCode,
+  PairingCode,
+  resolvePairingCode
+} from './lib/peerIds';
+import {
+  collectDroppedFiles,
+  collectSelectedFiles,
+  createDirectorySink,
+  FolderFile,
+  getRootFolder,
+  pickDirectory,
+  supportsDirectoryPicker
+} from './lib/folders';
+import { getZipSize, writeZip, ZipEntry } from './lib/zip';
+
+// Wait before reconnecting to the signalling server after losing it
+const SIGNALLING_RECONNECT_DELAY_MS = 3000;
+
+// What the user agreed to when accepting files as a whole, and how much of it has been accepted since
+interface Allowance {
+  fileCount: number;
+  totalSize: number;
+  files: number;
+  bytes: number;
+}
+
+// Count a file against an allowance; false if it goes beyond what the user agreed to
+function takeAllowance(allowance: Allowance, fileSize: number): boolean {
+  if (allowance.files >= allowance.fileCount || allowance.bytes + fileSize > allowance.totalSize) return false;
+  allowance.files++;
+  allowance.bytes += fileSize;
+  return true;
+}
+
+// How to handle the remaining files of a folder once the user has decided on the first
+interface FolderDecision {
+  accept: boolean;
+  directory?: FileSystemDirectoryHandle; // Save the tree here instead of keeping files in memory
+  allowance?: Allowance; // Accepted folders: the file count and total size the folder claimed
+}
+
+// Accept one file of an accepted folder, writing it into the chosen directory if there is one
+async function acceptFolderFile(engine: TransferEngine, request: PendingTransfer, directory?: FileSystemDirectoryHandle) {
+  // Resumed files reopen their existing file on disk
+  if (!directory || request.resume) {
+    engine.acceptTransfer(request.fileId);
+    return;
+  }
+  const sink = await createDirectorySink(directory, request.relativePath ?? request.fileName);
+  engine.acceptTransfer(request.fileId, sink);
+}
+
+// Open the main data channel to a peer
+function openConnection(peer: Peer, id: string): DataConnection {
+  return peer.connect(id, {
+    reliable: true,
+    serialization: 'binary',
+    // Optimize data channel for high throughput
+    metadata: {
+      optimizedForHighThroughput: true
+    }
+  });
+}
+
+// Hand a data channel to the registry once it opens
+function setupConnection(registry: ConnectionRegistry, conn: DataConnection) {
+  conn.on('open', () => {
+    registry.attach(createPeerChannel(conn));
+  });
+  // Errors before the connection opens never reach the registry's channel
+  conn.on('error', () => registry.setDisconnected(conn.peer));
+  // Once a connection closed, it has nothing more to say about the peer
+  let closed = false;
+  conn.on('close', () => {
+    closed = true;
+  });
+  conn.on('iceStateChanged', (state) => {
+    if (closed) return;
+    if (state === 'connected' || state === 'completed') {
+      getIceRoute(conn.peerConnection).then(route => {
+        if (!closed) registry.setIceState(conn.peer, state, route);
+      });
+      return;
+    }
+    registry.setIceState(conn.peer, state);
+  });
+}
+
+// Hand a blob to the browser as a download
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+function toPreviews(files: FolderFile[]): FilePreview[] {
+  return files.map(({ file, relativePath }) => ({
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    file,
+    relativePath
+  }));
+}
+
+// Gather items of the same folder into one entry, in the order their first item appeared
+// Rows and requests are keyed by peer and file ID, see transferKey
+const keyOfTransfer = (transfer: FileTransfer) => transferKey(transfer.peerId, transfer.id);
+const keyOfRequest = (request: PendingTransfer) => transferKey(request.peerId, request.fileId);
+// Folder IDs are picked by the sender as well
+const folderKey = (peerId: string | undefined, group: TransferGroup) => transferKey(peerId, group.id);
+
+// Whether a file claims the same folder as the one accepted, and still fits in it
+const fitsFolder = (allowance: Allowance, group: TransferGroup, fileSize: number) =>
+  group.fileCount === allowance.fileCount && group.totalSize === allowance.totalSize &&
+  takeAllowance(allowance, fileSize);
+
+function groupByFolder<T extends { peerId?: string }>(items: T[], getGroup: (item: T) => TransferGroup | undefined) {
+  const entries: { group?: TransferGroup; items: T[] }[] = [];
+  const byGroup = new Map<string, { group?: TransferGroup; items: T[] }>();
+  items.forEach(item => {
+    const group = getGroup(item);
+    const key = group && folderKey(item.peerId, group);
+    const existing = key && byGroup.get(key);
+    if (existing) {
+      existing.items.push(item);
+      return;
+    }
+    const entry = { group, items: [item] };
+    if (key) byGroup.set(key, entry);
+    entries.push(entry);
+  });
+  return entries;
+}
 
 function App() {
   const [peerId, setPeerId] = useState<string>('');
   const [targetPeerId, setTargetPeerId] = useState<string>('');
-  const [connection, setConnection] = useState<PeerConnection | null>(null);
+  // Why the peer ID or invite link entered could not be used
+  const [connectError, setConnectError] = useState<string | null>(null);
+  // Invite link the app was opened with, followed once we have a peer ID
+  const openingInviteRef = useRef<Invite>();
+  const [peers, setPeers] = useState<PeerConnection[]>([]);
+  // Connected peers not ticked as recipients in the "Selected Files" preview
+  const [excludedRecipients, setExcludedRecipients] = useState<Set<string>>(new Set());
   const [transfers, setTransfers] = useState<FileTransfer[]>([]);
   const [copied, setCopied] = useState(false);
   const [dragOver, setDragOver] = useState(false);
   const [previewFiles, setPreviewFiles] = useState<FilePreview[]>([]);
   const [showPreview, setShowPreview] = useState(false);
-  // Define interface for pending transfers
-  interface PendingTransfer {
-    fileId: string;
-    fileName: string;
-    fileSize: number;
-    fileType: string;
-    secure?: boolean;
-    key?: string;
-    iv?: number[];
-    sessionId?: string;
-  }
-
   const [pendingTransfers, setPendingTransfers] = useState<PendingTransfer[]>([]);
-  const [processingFiles, setProcessingFiles] = useState<Set<string>>(new Set());
-  const [connectionQuality, setConnectionQuality] = useState<'good' | 'fair' | 'poor'>('good');
+  const [queueItems, setQueueItems] = useState<SendQueueItem[]>([]);
+  // Files sent to each peer at once, from being offered until they are done
+  const [sendConcurrency, setSendConcurrency] = useState(() =>
+    Math.min(MAX_CONCURRENT_SENDS, Math.max(1, Number(localStorage.getItem('sendConcurrency')) || 1)));
   const [showQRModal, setShowQRModal] = useState(false);
+  // Invite shown in the QR code, created when it is opened so its expiry is fresh
+  const [shareInvite, setShareInvite] = useState<Invite | null>(null);
   const [showScanner, setShowScanner] = useState(false);
-  const [transferSpeed, setTransferSpeed] = useState<number>(0); // in bytes per second
-  const [transferTimes, setTransferTimes] = useState<{ [key: string]: { start: number, end?: number } }>({});
-  const [secureMode, setSecureMode] = useState<boolean>(true); // Default to secure mode
-  const transferSpeedRef = useRef<{ [key: string]: number }>({});
+  const [showSettings, setShowSettings] = useState(false);
+  // Signalling and STUN/TURN servers; changing them reconnects to the signalling server
+  const [connectionSettings, setConnectionSettings] = useState(loadConnectionSettings);
+  // Numbered variants of a custom peer ID tried so far because it was taken
+  const [customIdAttempt, setCustomIdAttempt] = useState(0);
+  // Short code that stands in for our peer ID for a few minutes
+  const [pairingCode, setPairingCode] = useState<PairingCode | null>(null);
+  const [pairingError, setPairingError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [verifyingPeerId, setVerifyingPeerId] = useState<string | null>(null);
+  const [transferTimes, setTransferTimes] = useState<{ [key: string]: TransferTime }>({});
+  const [encryptionMode, setEncryptionMode] = useState<EncryptionMode>('ecdh'); // Default to key exchange
+  const [sendPassphrase, setSendPassphrase] = useState('');
+  // Passphrases typed into pending requests, keyed by transfer key or folder key
+  const [passphraseInputs, setPassphraseInputs] = useState<{ [id: string]: string }>({});
+  const [passphraseErrors, setPassphraseErrors] = useState<Set<string>>(new Set());
+  // Receive policy: refuse anything that was not end-to-end encrypted with a key exchange
+  const [requireKeyExchange, setRequireKeyExchange] = useState(() => localStorage.getItem('requireKeyExchange') === 'true');
+  const requireKeyExchangeRef = useRef(requireKeyExchange);
+  // Data channels per peer to stripe chunks across; applies to new connections
+  const [parallelChannels, setParallelChannels] = useState(() =>
+    Math.min(MAX_LANES, Math.max(1, Number(localStorage.getItem('parallelChannels')) || 1)));
+  const parallelChannelsRef = useRef(parallelChannels);
+  // Completed transfers ticked for a zip download
+  const [selectedTransfers, setSelectedTransfers] = useState<Set<string>>(new Set());
+  const [zipping, setZipping] = useState(false);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  // Fingerprint of this browser's identity key, for peers to compare
+  const [identityFingerprint, setIdentityFingerprint] = useState<string>('');
+  const [contactStore] = useState(() => createContactStore());
   const peerRef = useRef<Peer>();
-  const connRef = useRef<any>(null);
+  // One engine per connected peer; the resume store is shared so interrupted
+  // transfers resume when a peer reconnects
+  const [registry] = useState(() => createConnectionRegistry({
+    resumeStore: createResumeStore(),
+    contacts: contactStore,
+    identity: getDeviceIdentity(),
+    acceptsEncryption: (mode) => mode === 'ecdh' || !requireKeyExchangeRef.current,
+    lanes: () => parallelChannelsRef.current,
+    openLane: (id, lane) => {
+      const conn = peerRef.current?.connect(id, {
+        reliable: true,
+        serialization: 'binary',
+        metadata: { lane }
+      });
+      conn?.on('open', () => registry.attachLane(createPeerChannel(conn), lane));
+    },
+    reconnect: (id) => connectToPeer(id)
+  }));
+  // Files waiting to be sent, offered a few at a time per peer
+  const [sendQueue] = useState(() => createSendQueue(registry, { concurrency: sendConcurrency }));
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  // Total size of received files kept in the history; 0 keeps none
+  const [historyBlobQuota, setHistoryBlobQuota] = useState(() => {
+    const stored = Number(localStorage.getItem('historyBlobQuota'));
+    return HISTORY_BLOB_QUOTAS.includes(stored) ? stored : 0;
+  });
+  // Finished transfers, kept across reloads
+  const [history] = useState(() => createHistoryStore(registry, { blobQuota: historyBlobQuota }));
+  // Rules that accept or reject incoming files without asking, when turned on
+  const [dropBoxRules, setDropBoxRules] = useState(loadDropBoxRules);
+  const [dropBox] = useState(() => createDropBox(registry, dropBoxRules));
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const fileChunksRef = useRef<{ [key: string]: ArrayBuffer[] }>({});
-  const chunksInFlightRef = useRef<{ [key: string]: number }>({}); // Track chunks being sent
-  const lastChunkTimeRef = useRef<number>(0);
-  const downloadBytesRef = useRef<number>(0);
-  const keyPairRef = useRef<CryptoKeyPair | null>(null);
-  const pendingKeyExchangeRef = useRef<{ [sessionId: string]: { resolve: (value: boolean) => void } }>({});
-  const cancelledTransfersRef = useRef<Set<string>>(new Set()); // Track cancelled transfers
-
-  // Log when processingFiles changes
-  useEffect(() => {
-    console.log('processingFiles changed:', [...processingFiles]);
-  }, [processingFiles]);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // Decisions for folders the user already accepted or rejected, keyed by peer and group ID
+  const folderDecisionsRef = useRef(new Map<string, FolderDecision>());
+  // Batches the user accepted as a whole, keyed by peer and batch ID
+  const acceptedBatchesRef = useRef(new Map<string, Allowance>());
+
+  // Peers running an incompatible app version cannot be sent to
+  const connectedPeers = peers.filter(p => p.status === 'connected' && !p.incompatible);
+  const recipients = connectedPeers.filter(p => !excludedRecipients.has(p.id));
+  const totalSpeed = connectedPeers.reduce((sum, p) => sum + p.speed, 0);
+  const pendingItems = groupByFolder(pendingTransfers, p => p.group);
+  const transferItems = groupByFolder(transfers, t => t.group);
+  const waitingItems = queueItems.filter(item => item.state !== 'sending');
+  // Files offered to a peer that has not answered yet
+  const processingFiles = new Set(queueItems.filter(item => item.state === 'offering').map(item => item.id));
+  const downloadableTransfers = transfers.filter(t => t.status === 'completed' && t.blob);
+  const selectedDownloads = downloadableTransfers.filter(t => selectedTransfers.has(keyOfTransfer(t)));
 
-  // Clean up references when component unmounts
   useEffect(() => {
-    return () => {
-      // Clean up any active transfers
-      Object.keys(chunksInFlightRef.current).forEach(fileId => {
-        if (connRef.current) {
-          connRef.current.send({
-            type: 'file-cancel',
-            fileId
-          });
-        }
-      });
-
-      // Clear references
-      chunksInFlightRef.current = {};
-      fileChunksRef.current = {};
-      cancelledTransfersRef.current.clear();
-    };
-  }, []);
+    requireKeyExchangeRef.current = requireKeyExchange;
+    localStorage.setItem('requireKeyExchange', String(requireKeyExchange));
+  }, [requireKeyExchange]);
 
   useEffect(() => {
-    const peer = new Peer({
-      config: {
-        iceServers: [
-          { urls: 'stun:stun.l.google.com:19302' },
-          { urls: 'stun:stun1.l.google.com:19302' },
-          { urls: 'stun:stun2.l.google.com:19302' },
-          { urls: 'stun:stun3.l.google.com:19302' },
-          { urls: 'stun:stun4.l.google.com:19302' },
-          // Add public TURN servers for better connectivity
-          {
-            urls: 'turn:openrelay.metered.ca:80',
-            username: 'openrelayproject',
-            credential: 'openrelayproject'
-          },
-          {
-            urls: 'turn:openrelay.metered.ca:443',
-            username: 'openrelayproject',
-            credential: 'openrelayproject'
-          }
-        ],
-        // Optimize WebRTC configuration for better performance
-        iceTransportPolicy: 'all',
-        bundlePolicy: 'max-bundle',
-        rtcpMuxPolicy: 'require',
-        sdpSemantics: 'unified-plan'
-      }
-    });
+    parallelChannelsRef.current = parallelChannels;
+    localStorage.setItem('parallelChannels', String(parallelChannels));
+  }, [parallelChannels]);
 
-    peer.on('open', (id) => {
-      setPeerId(id);
-      peerRef.current = peer;
-    });
+  useEffect(() => {
+    sendQueue.setConcurrency(sendConcurrency);
+    localStorage.setItem('sendConcurrency', String(sendConcurrency));
+  }, [sendQueue, sendConcurrency]);
 
-    peer.on('connection', (conn) => {
-      // serialization is read-only, must be set during connection creation
-      // conn.serialization = 'binary';
-      connRef.current = conn;
-      setupConnection(conn);
-    });
+  useEffect(() => sendQueue.on('change', setQueueItems), [sendQueue]);
 
-    return () => {
-      peer.destroy();
-    };
-  }, []);
+  useEffect(() => {
+    history.setBlobQuota(historyBlobQuota);
+    localStorage.setItem('historyBlobQuota', String(historyBlobQuota));
+  }, [history, historyBlobQuota]);
 
-  // Generate a key pair for ECDH key exchange
-  const generateAndStoreKeyPair = async () => {
-    try {
-      const keyPair = await generateKeyPair();
-      keyPairRef.current = keyPair;
-      return keyPair;
-    } catch (error) {
-      console.error('Error generating key pair:', error);
-      throw error;
-    }
-  };
+  useEffect(() => {
+    dropBox.setRules(dropBoxRules);
+    saveDropBoxRules(dropBoxRules);
+  }, [dropBox, dropBoxRules]);
 
-  // Initiate key exchange with peer
-  const initiateKeyExchange = async (sessionId: string) => {
-    if (!connRef.current || !connRef.current.open) {
-      throw new Error('No active connection');
-    }
+  useEffect(() => {
+    setHistoryEntries(history.list());
+    return history.on('change', setHistoryEntries);
+  }, [history]);
 
-    try {
-      console.log('Initiating key exchange with sessionId:', sessionId);
-      // Generate a key pair if we don't have one
-      if (!keyPairRef.current) {
-        console.log('Generating new key pair');
-        await generateAndStoreKeyPair();
-      }
+  useEffect(() => {
+    getDeviceIdentity()
+      .then(identity => setIdentityFingerprint(identity.fingerprint))
+      .catch(error => console.error('Error loading device identity:', error));
 
-      // Export our public key
-      const publicKeyStr = await exportPublicKey(keyPairRef.current!.publicKey);
-      console.log('Exported public key for sessionId:', sessionId);
+    setContacts(contactStore.list());
+    return contactStore.on('change', () => setContacts(contactStore.list()));
+  }, [contactStore]);
 
-      // Send our public key to the peer
-      connRef.current.send({
-        type: 'key-exchange-init',
-        publicKey: publicKeyStr,
-        sessionId
+  // Wire the registry and every peer's transfer engine into React state
+  useEffect(() => {
+    // Wire a transfer engine's events into React state
+    const subscribeToEngine = (engine: TransferEngine) => {
+      engine.on('transfer', (transfer) => {
+        // Another peer may send a file under the same ID
+        const key = transferKey(engine.peerId, transfer.id);
+        setTransfers(prev => prev.some(t => keyOfTransfer(t) === key)
+          ? prev.map(t => keyOfTransfer(t) === key ? transfer : t)
+          : [...prev, transfer]);
       });
-      console.log('Sent key-exchange-init for sessionId:', sessionId);
-
-      // Return a promise that will be resolved when key exchange is complete
-      return new Promise<boolean>((resolve) => {
-        console.log('Creating pending key exchange for sessionId:', sessionId);
-        pendingKeyExchangeRef.current[sessionId] = { resolve };
+      engine.on('transfer-time', ({ fileId, time }) => {
+        setTransferTimes(prev => ({ ...prev, [transferKey(engine.peerId, fileId)]: time }));
       });
-    } catch (error) {
-      console.error('Error initiating key exchange:', error);
-      throw error;
-    }
-  };
-
-  const setupConnection = (conn: any) => {
-    conn.on('open', () => {
-      setConnection({ id: conn.peer, connected: true });
-
-      // Generate a key pair when connection is established
-      generateAndStoreKeyPair();
-    });
-
-    conn.on('data', handleIncomingData);
-
-    conn.on('close', () => {
-      setConnection(null);
-      connRef.current = null;
-      // Clear key pair when connection is closed
-      keyPairRef.current = null;
-    });
-
-    conn.on('error', (err: any) => {
-      console.error('Connection error:', err);
-      setConnection(null);
-      connRef.current = null;
-      // Clear key pair on error
-      keyPairRef.current = null;
-    });
-  };
-
-  const handleIncomingData = async (data: any) => {
-    // Handle key exchange messages
-    if (data.type === 'key-exchange-init') {
-      try {
-        console.log('Received key-exchange-init with sessionId:', data.sessionId);
-        // Generate a key pair if we don't have one
-        if (!keyPairRef.current) {
-          await generateAndStoreKeyPair();
+      engine.on('request', (request) => {
+        if (dropBox.handle(engine, request)) return;
+        const { group } = request;
+        const decision = group && folderDecisionsRef.current.get(folderKey(request.peerId, group));
+        if (group && decision) {
+          // The rest of a folder follows the decision made for its first file
+          if (!decision.accept) {
+            engine.rejectTransfer(request.fileId);
+            return;
+          }
+          if (decision.allowance && fitsFolder(decision.allowance, group, request.fileSize)) {
+            acceptFolderFile(engine, request, decision.directory).catch(error => {
+              console.error(`Could not save ${request.relativePath ?? request.fileName} into the folder:`, error);
+              setPendingTransfers(prev => [...prev, request]);
+            });
+            return;
+          }
+          console.warn(`${request.fileName} from ${request.peerId} does not fit the folder that was accepted, asking again`);
         }
+        const { batch } = request;
+        const allowance = batch && acceptedBatchesRef.current.get(`${request.peerId}:${batch.id}`);
+        if (batch && allowance) {
+          // The user accepted everything sent along with an earlier file, but only as much as the batch said
+          if (batch.fileCount === allowance.fileCount && batch.totalSize === allowance.totalSize &&
+              takeAllowance(allowance, request.fileSize)) {
+            engine.acceptTransfer(request.fileId);
+            return;
+          }
+          console.warn(`${request.fileName} from ${request.peerId} does not fit the batch that was accepted, asking again`);
+        }
+        setPendingTransfers(prev => [...prev, request]);
+      });
+    };
 
-        // Import the peer's public key
-        const peerPublicKey = await importPublicKey(data.publicKey);
-
-        // Derive the shared secret
-        const sharedKey = await deriveSharedSecret(keyPairRef.current!.privateKey, peerPublicKey);
-
-        // Store the shared key with the session ID
-        storeSessionKey(data.sessionId, sharedKey);
-
-        // Export our public key
-        const publicKeyStr = await exportPublicKey(keyPairRef.current!.publicKey);
+    const subscriptions = [
+      registry.on('peer', (peer) => {
+        setPeers(prev => prev.some(p => p.id === peer.id)
+          ? prev.map(p => p.id === peer.id ? peer : p)
+          : [...prev, peer]);
+      }),
+      registry.on('peer-removed', (removedId) => {
+        setPeers(prev => prev.filter(p => p.id !== removedId));
+      }),
+      registry.on('engine', subscribeToEngine)
+    ];
+
+    // Only our own listeners: the registry lives as long as the app, and disposing it
+    // would also drop the send queue's, history's and drop box's (StrictMode runs this twice)
+    return () => subscriptions.forEach(unsubscribe => unsubscribe());
+  }, [registry, dropBox]);
 
-        // Send our public key to the peer
-        connRef.current.send({
-          type: 'key-exchange-reply',
-          publicKey: publicKeyStr,
-          sessionId: data.sessionId
-        });
-        console.log('Sent key-exchange-reply for sessionId:', data.sessionId);
-      } catch (error) {
-        console.error('Error handling key exchange init:', error);
-      }
-    } else if (data.type === 'key-exchange-reply') {
-      try {
-        console.log('Received key-exchange-reply for sessionId:', data.sessionId);
-        // Import the peer's public key
-        const peerPublicKey = await importPublicKey(data.publicKey);
+  useEffect(() => {
+    const link = takeInviteFromLocation();
+    if (!link) return;
+    try {
+      openingInviteRef.current = parseInvite(link);
+    } catch (error) {
+      setConnectError(error instanceof Error ? error.message : String(error));
+    }
+  }, []);
 
-        // Derive the shared secret
-        const sharedKey = await deriveSharedSecret(keyPairRef.current!.privateKey, peerPublicKey);
+  useEffect(() => {
+    // Fall back to numbered variants of a custom ID that is taken, then to a random one
+    const { customId } = connectionSettings;
+    const requestedId = customId && customIdAttempt < MAX_CUSTOM_ID_ATTEMPTS
+      ? customIdCandidate(customId, customIdAttempt)
+      : undefined;
+    const peer = requestedId
+      ? new Peer(requestedId, toPeerOptions(connectionSettings))
+      : new Peer(toPeerOptions(connectionSettings));
 
-        // Store the shared key with the session ID
-        storeSessionKey(data.sessionId, sharedKey);
+    peer.on('open', (id) => {
+      setPeerId(id);
+      peerRef.current = peer;
 
-        // Send confirmation that key exchange is complete
-        connRef.current.send({
-          type: 'key-exchange-complete',
-          sessionId: data.sessionId
-        });
-        console.log('Sent key-exchange-complete for sessionId:', data.sessionId);
-
-        // Resolve the promise for this key exchange
-        if (pendingKeyExchangeRef.current[data.sessionId]) {
-          console.log('Resolving pending key exchange for sessionId:', data.sessionId);
-          pendingKeyExchangeRef.current[data.sessionId].resolve(true);
-          delete pendingKeyExchangeRef.current[data.sessionId];
-        } else {
-          console.warn('No pending key exchange found for sessionId:', data.sessionId);
-        }
-      } catch (error) {
-        console.error('Error handling key exchange reply:', error);
-        // Resolve with failure
-        if (pendingKeyExchangeRef.current[data.sessionId]) {
-          pendingKeyExchangeRef.current[data.sessionId].resolve(false);
-          delete pendingKeyExchangeRef.current[data.sessionId];
+      const invite = openingInviteRef.current;
+      if (invite && invite.peerId !== id) {
+        openingInviteRef.current = undefined;
+        console.log(`Following invite to ${invite.peerId}`);
+        setTargetPeerId(invite.peerId);
+        if (invite.fingerprint) {
+          registry.pinFingerprint(invite.peerId, invite.fingerprint);
         }
+        registry.setConnecting(invite.peerId);
+        setupConnection(registry, openConnection(peer, invite.peerId));
       }
-    } else if (data.type === 'key-exchange-complete') {
-      // Key exchange is complete, nothing more to do
-      console.log('Received key-exchange-complete for sessionId:', data.sessionId);
-    }
-    // Handle file transfer messages
-    else if (data.type === 'file-request') {
-      console.log(`Received file-request for ${data.fileName} (${data.fileId}), secure: ${data.secure}`, {
-        hasKey: !!data.key,
-        hasIv: !!data.iv,
-        hasSessionId: !!data.sessionId
-      });
-
-      // Store the pending transfer with all encryption information
-      setPendingTransfers(prev => [...prev, {
-        fileId: data.fileId,
-        fileName: data.fileName,
-        fileSize: data.fileSize,
-        fileType: data.fileType,
-        secure: data.secure,
-        key: data.key,
-        iv: data.iv,
-        sessionId: data.sessionId
-      }]);
-    } else if (data.type === 'file-start') {
-      console.log(`Received file-start for ${data.fileName} (${data.fileId}), secure: ${data.secure}`,
-                  data.secure ? `sessionId: ${data.sessionId}` : `key: ${data.key ? 'present' : 'missing'}`);
-
-      fileChunksRef.current[data.fileId] = new Array(Math.ceil(data.fileSize / CHUNK_SIZE));
-
-      // Record start time for the receiving file
-      setTransferTimes(prev => ({
-        ...prev,
-        [data.fileId]: { start: Date.now() }
-      }));
-
-      // Initialize transfer speed for this file
-      transferSpeedRef.current[data.fileId] = 0;
-
-      // Create transfer object with appropriate encryption info based on secure mode
-      const transferObj: FileTransfer = {
-        id: data.fileId,
-        name: data.fileName,
-        size: data.fileSize,
-        type: data.fileType,
-        progress: 0,
-        status: 'pending',
-        iv: data.iv,
-        secure: data.secure
-      };
-
-      // Add the appropriate encryption information based on secure mode
-      if (data.secure && data.sessionId) {
-        transferObj.sessionId = data.sessionId;
-        console.log(`Added sessionId ${data.sessionId} to transfer ${data.fileId}`);
-      } else if (data.key) {
-        transferObj.key = data.key;
-        console.log(`Added key to transfer ${data.fileId}`);
-      } else {
-        console.warn(`Missing encryption information for file ${data.fileName} (${data.fileId})`);
-      }
+    });
 
-      setTransfers(prev => [...prev, transferObj]);
-    } else if (data.type === 'file-chunk') {
-      // Check if this transfer has been cancelled
-      if (cancelledTransfersRef.current.has(data.fileId)) {
-        console.log(`Ignoring chunk for cancelled transfer ${data.fileId}`);
+    peer.on('connection', (conn) => {
+      // Extra data channel of a peer that is already connected
+      const lane = conn.metadata?.lane;
+      if (typeof lane === 'number') {
+        conn.on('open', () => registry.attachLane(createPeerChannel(conn), lane));
         return;
       }
+      // serialization is read-only, must be set during connection creation
+      // conn.serialization = 'binary';
+      registry.setConnecting(conn.peer);
+      setupConnection(registry, conn);
+    });
 
-      if (!fileChunksRef.current[data.fileId]) {
-        fileChunksRef.current[data.fileId] = [];
-      }
-      fileChunksRef.current[data.fileId][data.chunk] = data.data;
-
-      // Calculate download speed
-      const now = performance.now();
-      downloadBytesRef.current += data.data.byteLength;
-
-      // Update speed calculation
-      const updateSpeed = () => {
-        const elapsedSeconds = (now - lastChunkTimeRef.current) / 1000;
-        if (elapsedSeconds > 0) {
-          const speed = downloadBytesRef.current / elapsedSeconds;
-          setTransferSpeed(speed);
-
-          // Store the speed for this specific file
-          transferSpeedRef.current[data.fileId] = speed;
+    // Connections carry on without the signalling server, but nobody new can reach us
+    peer.on('disconnected', () => {
+      setTimeout(() => {
+        if (!peer.destroyed && peer.disconnected) {
+          console.log('Reconnecting to the signalling server');
+          peer.reconnect();
         }
+      }, SIGNALLING_RECONNECT_DELAY_MS);
+    });
 
-        downloadBytesRef.current = 0;
-        lastChunkTimeRef.current = now;
-      };
-
-      // If this is one of the first few chunks, update speed more frequently
-      // to get an initial estimate quickly
-      if (data.chunk < 5 || now - lastChunkTimeRef.current > 1000) {
-        updateSpeed();
+    peer.on('error', (error) => {
+      console.error('Peer error:', error);
+      if (error.type === 'unavailable-id') {
+        console.warn(`Peer ID ${requestedId} is taken`);
+        setCustomIdAttempt(attempt => attempt + 1);
+        return;
       }
-
-      // Calculate progress and estimated time remaining
-      const progress = Math.round((data.chunk + 1) * 100 / data.total);
-      const transfer = transfers.find(t => t.id === data.fileId);
-
-      if (transfer) {
-        const estimatedTimeRemaining = calculateEstimatedTimeRemaining(
-          data.fileId,
-          progress,
-          transfer.size
-        );
-
-        setTransfers(prev => prev.map(t =>
-          t.id === data.fileId
-            ? {
-                ...t,
-                progress,
-                status: 'transferring',
-                estimatedTimeRemaining
-              }
-            : t
-        ));
-      } else {
-        setTransfers(prev => prev.map(t =>
-          t.id === data.fileId
-            ? { ...t, progress, status: 'transferring' }
-            : t
-        ));
+      // PeerJS reports unreachable peers on the peer itself as "Could not connect to peer <id>"
+      if (error.type === 'peer-unavailable') {
+        const unavailableId = error.message.split(' ').pop();
+        if (unavailableId) {
+          registry.setDisconnected(unavailableId);
+        }
       }
+    });
 
-      // Send acknowledgment for received chunk (unless cancelled)
-      if (!cancelledTransfersRef.current.has(data.fileId)) {
-        connRef.current?.send({
-          type: 'chunk-ack',
-          fileId: data.fileId,
-          chunk: data.chunk
-        });
-      }
+    return () => {
+      peer.destroy();
+      // A new peer gets its ID from the signalling server again
+      peerRef.current = undefined;
+      setPeerId('');
+      // The code would hand out an ID that is gone
+      setPairingCode(null);
+    };
+  }, [registry, connectionSettings, customIdAttempt]);
 
-      if (data.chunk === data.total - 1) {
-        const chunks = fileChunksRef.current[data.fileId].filter(chunk => chunk !== undefined);
-        const blob = new Blob(chunks, {
-          type: transfers.find(t => t.id === data.fileId)?.type || 'application/octet-stream'
-        });
+  // A pairing code stops working when it is replaced, cancelled or the app closes
+  useEffect(() => () => pairingCode?.close(), [pairingCode]);
 
-        // Record end time for completed transfer
-        setTransferTimes(prev => ({
-          ...prev,
-          [data.fileId]: { ...prev[data.fileId], end: Date.now() }
-        }));
+  // Tick the pairing code countdown
+  useEffect(() => {
+    if (!pairingCode) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [pairingCode]);
+
+  // Returns false if no connection could be started
+  const connectToPeer = (id: string) => {
+    if (!peerRef.current || peerRef.current.disconnected || !id || id === peerId) return false;
+
+    registry.setConnecting(id);
+    setupConnection(registry, openConnection(peerRef.current, id));
+    return true;
+  };
 
-        setTransfers(prev => prev.map(t =>
-          t.id === data.fileId
-            ? { ...t, blob, progress: 100, status: 'completed' }
-            : t
-        ));
+  const followInvite = (invite: Invite) => {
+    setConnectError(null);
+    setTargetPeerId(invite.peerId);
+    if (invite.fingerprint) {
+      registry.pinFingerprint(invite.peerId, invite.fingerprint);
+    }
+    connectToPeer(invite.peerId);
+  };
 
-        delete fileChunksRef.current[data.fileId];
-      }
-    } else if (data.type === 'chunk-ack') {
-      // Decrease the in-flight counter when chunk is acknowledged
-      if (chunksInFlightRef.current[data.fileId]) {
-        chunksInFlightRef.current[data.fileId]--;
+  // Connect to a peer ID, invite link or pairing code as typed, pasted or scanned
+  const connectToInvite = async (text: string) => {
+    const code = normalizePairingCode(text);
+    try {
+      if (code) {
+        if (!peerRef.current) return;
+        setConnectError(null);
+        followInvite(await resolvePairingCode(peerRef.current, code));
+        return;
       }
-    } else if (data.type === 'file-cancel') {
-      // Handle file cancellation request from peer
-      console.log(`Received cancellation request for file ${data.fileId}`);
-
-      // Mark the transfer as cancelled in our reference
-      cancelledTransfersRef.current.add(data.fileId);
-
-      // Update the transfer status to cancelled
-      setTransfers(prev => prev.map(t =>
-        t.id === data.fileId
-          ? { ...t, status: 'cancelled' }
-          : t
-      ));
-
-      // Record end time for cancelled transfer
-      setTransferTimes(prev => ({
-        ...prev,
-        [data.fileId]: { ...prev[data.fileId], end: Date.now() }
-      }));
-
-      // Clean up resources
-      delete fileChunksRef.current[data.fileId];
-      delete chunksInFlightRef.current[data.fileId];
-
-      // Send acknowledgment
-      connRef.current?.send({
-        type: 'file-cancel-ack',
-        fileId: data.fileId
-      });
-    } else if (data.type === 'file-cancel-ack') {
-      // Handle cancellation acknowledgment
-      console.log(`Received cancellation acknowledgment for file ${data.fileId}`);
-      // No additional action needed as we've already updated our state
+      followInvite(parseInvite(text));
+    } catch (error) {
+      setConnectError(error instanceof Error ? error.message : String(error));
     }
   };
 
-  const connectToPeer = () => {
-    if (!peerRef.current || !targetPeerId) return;
-
-    const conn = peerRef.current.connect(targetPeerId, {
-      reliable: true,
-      serialization: 'binary',
-      // Optimize data channel for high throughput
-      metadata: {
-        optimizedForHighThroughput: true
-      }
-    });
-    connRef.current = conn;
-    setupConnection(conn);
+  const showPairingCode = async () => {
+    setPairingError(null);
+    try {
+      const invite = createInvite(peerId, identityFingerprint);
+      setPairingCode(await openPairingCode(toPeerOptions(connectionSettings), invite, () => setPairingCode(null)));
+    } catch (error) {
+      setPairingError(error instanceof Error ? error.message : String(error));
+    }
   };
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files || !connRef.current || !connRef.current.open) return;
-
-    const previews = Array.from(files).map(file => ({
-      name: file.name,
-      size: file.size,
-      type: file.type,
-      file
-    }));
+    const input = e.target;
+    if (!input.files || connectedPeers.length === 0) return;
 
+    const previews = toPreviews(collectSelectedFiles(input.files));
     setPreviewFiles(prev => [...prev, ...previews]);
     setShowPreview(true);
 
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+    input.value = '';
   };
 
   const handleScanResult = (result: string) => {
-    setTargetPeerId(result);
     setShowScanner(false);
-    connectToPeer();
+    connectToInvite(result);
   };
 
-  const sendFile = async (file: File, fileId: string) => {
-    if (!connRef.current || !connRef.current.open) {
-      throw new Error('No active connection');
-    }
-
-    let encryptedData: Blob | undefined;
-    let key: string | undefined;
-    let iv: number[] | undefined;
-    let sessionId: string | undefined;
-    let secure = secureMode;
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragOver(false);
+    if (connectedPeers.length === 0) return;
 
     try {
-      console.log(`Starting to send file ${file.name} (${fileId}), secure mode: ${secure}`);
-
-      if (secure) {
-        try {
-          // Perform key exchange first
-          let exchangeSessionId = generateSessionId();
-          console.log(`Generated session ID for key exchange: ${exchangeSessionId}`);
-
-          console.log(`Initiating key exchange for file ${file.name}`);
-          const keyExchangeSuccess = await initiateKeyExchange(exchangeSessionId);
-          console.log(`Key exchange ${keyExchangeSuccess ? 'succeeded' : 'failed'} for file ${file.name}`);
-
-          if (!keyExchangeSuccess) {
-            console.warn('Key exchange failed, falling back to legacy encryption');
-            secure = false;
-          } else {
-            // Use secure encryption with the exchanged key
-            console.log(`Using secure encryption with session ID: ${exchangeSessionId}`);
-            const secureEncryption = await secureEncryptFile(file, exchangeSessionId);
-            encryptedData = secureEncryption.data;
-            iv = secureEncryption.iv;
-            sessionId = exchangeSessionId;
-            console.log(`File ${file.name} encrypted securely, size: ${encryptedData.size} bytes`);
-          }
-        } catch (error) {
-          console.error('Error during key exchange or secure encryption:', error);
-          console.warn('Falling back to legacy encryption due to error');
-          secure = false;
-        }
-      }
-
-      // Fall back to legacy encryption if secure mode is disabled or key exchange failed
-      if (!secure) {
-        console.log(`Using legacy encryption for file ${file.name}`);
-        const legacyEncryption = await encryptFile(file);
-        encryptedData = legacyEncryption.data;
-        key = legacyEncryption.key;
-        iv = legacyEncryption.iv;
-        console.log(`File ${file.name} encrypted with legacy method, size: ${encryptedData.size} bytes`);
-      }
-
-      // Send file request with appropriate encryption info
-      console.log(`Sending file-request for ${file.name} (${fileId}), secure: ${secure}`);
-
-      if (!encryptedData) {
-        throw new Error('Failed to encrypt file');
-      }
-
-      // Create file request message with appropriate encryption info
-      const fileRequestMessage = {
-        type: 'file-request',
-        fileId,
-        fileName: file.name,
-        fileSize: encryptedData.size,
-        fileType: file.type,
-        key, // Only included for legacy encryption
-        iv,
-        sessionId, // Only included for secure encryption
-        secure
-      };
-
-      console.log(`File request encryption details for ${fileId}:`, {
-        secure,
-        hasKey: !!fileRequestMessage.key,
-        hasIv: !!fileRequestMessage.iv,
-        hasSessionId: !!fileRequestMessage.sessionId,
-        ivLength: fileRequestMessage.iv?.length
-      });
-
-      connRef.current.send(fileRequestMessage);
-
-      return new Promise<boolean>((resolve) => {
-        console.log(`Waiting for response to file-request for ${file.name} (${fileId})`);
-
-        const handleResponse = (data: any) => {
-          console.log(`Received response for file ${fileId}:`, data.type);
-
-          if (data.type === 'file-accepted' && data.fileId === fileId) {
-            console.log(`File ${file.name} (${fileId}) was accepted, starting transfer`);
-
-            if (!encryptedData) {
-              console.error(`Missing encrypted data for file ${file.name}`);
-              resolve(false);
-              return;
-            }
-
-            if (secure && sessionId) {
-              console.log(`Starting secure file transfer for ${file.name} with session ID ${sessionId}`);
-              startSecureFileTransfer(encryptedData, fileId, file.name, file.type, sessionId, iv!);
-            } else {
-              console.log(`Starting legacy file transfer for ${file.name}`);
-              startFileTransfer(encryptedData, fileId, file.name, file.type, key!, iv!);
-            }
-
-            connRef.current.off('data', handleResponse);
-            resolve(true);
-          } else if (data.type === 'file-rejected' && data.fileId === fileId) {
-            console.log(`File ${file.name} (${fileId}) was rejected`);
-
-            setTransfers(prev => [...prev, {
-              id: fileId,
-              name: file.name,
-              size: file.size,
-              type: file.type,
-              progress: 0,
-              status: 'rejected'
-            }]);
-
-            connRef.current.off('data', handleResponse);
-            resolve(false);
-          }
-        };
-
-        connRef.current.on('data', handleResponse);
-      });
+      // Dropped folders are walked recursively so their structure is kept
+      const previews = toPreviews(await collectDroppedFiles(e.dataTransfer));
+      setPreviewFiles(prev => [...prev, ...previews]);
     } catch (error) {
-      console.error(`Error sending file ${file.name}:`, error);
-      throw error;
+      console.error('Error reading dropped files:', error);
     }
-  };
-
-  // Legacy file transfer function
-  const startFileTransfer = (
-    encryptedBlob: Blob,
-    fileId: string,
-    fileName: string,
-    fileType: string,
-    key: string,
-    iv: number[]
-  ) => {
-    // File cancellation feature has been removed
-    const totalChunks = Math.ceil(encryptedBlob.size / CHUNK_SIZE);
-
-    console.log(`Starting legacy file transfer for ${fileName} (${fileId}) with key`);
-
-    // Record start time
-    setTransferTimes(prev => ({
-      ...prev,
-      [fileId]: { start: Date.now() }
-    }));
-
-    // Create transfer object with legacy encryption info
-    const transferObj: FileTransfer = {
-      id: fileId,
-      name: fileName,
-      size: encryptedBlob.size,
-      type: fileType,
-      progress: 0,
-      status: 'pending',
-      key,
-      iv,
-      secure: false
-    };
-
-    setTransfers(prev => [...prev, transferObj]);
-
-    // Send file-start message with legacy encryption info
-    const fileStartMessage = {
-      type: 'file-start',
-      fileId,
-      fileName,
-      fileSize: encryptedBlob.size,
-      fileType,
-      key,
-      iv,
-      secure: false
-    };
-
-    console.log(`Sending file-start for legacy transfer ${fileId}:`, {
-      hasKey: !!fileStartMessage.key,
-      ivLength: fileStartMessage.iv.length,
-      secure: fileStartMessage.secure
-    });
-
-    connRef.current.send(fileStartMessage);
-
-    chunksInFlightRef.current[fileId] = 0;
-    let currentChunk = 0;
-    const startTime = performance.now();
-    let lastUpdateTime = startTime;
-    let bytesTransferred = 0;
-
-    const sendChunk = async (chunkIndex: number) => {
-      const start = chunkIndex * CHUNK_SIZE;
-      const end = Math.min(start + CHUNK_SIZE, encryptedBlob.size);
-      const slice = encryptedBlob.slice(start, end);
-      const buffer = await slice.arrayBuffer();
-
-      connRef.current?.send({
-        type: 'file-chunk',
-        fileId,
-        chunk: chunkIndex,
-        total: totalChunks,
-        data: buffer
-      });
-
-      chunksInFlightRef.current[fileId]++;
-
-      // Update bytes transferred and calculate speed
-      bytesTransferred += buffer.byteLength;
-      const now = performance.now();
-
-      // Update speed calculation
-      const updateSpeed = () => {
-        const elapsedSeconds = (now - lastUpdateTime) / 1000;
-        if (elapsedSeconds > 0) {
-          const speed = bytesTransferred / elapsedSeconds;
-          setTransferSpeed(speed);
-
-          // Store the speed for this specific file
-          transferSpeedRef.current[fileId] = speed;
-        }
-
-        bytesTransferred = 0;
-        lastUpdateTime = now;
-      };
-
-      // If this is one of the first few chunks, update speed more frequently
-      // to get an initial estimate quickly
-      if (chunkIndex < 5 || now - lastUpdateTime > 1000) {
-        updateSpeed();
-      }
-    };
-
-    // Process chunks with cancellation support
-    const processNextChunks = async () => {
-      while (currentChunk < totalChunks &&
-             chunksInFlightRef.current[fileId] < MAX_CHUNKS_IN_FLIGHT) {
-        // Check if transfer has been cancelled
-        if (cancelledTransfersRef.current.has(fileId)) {
-          console.log(`Transfer ${fileId} was cancelled, stopping chunk processing`);
-          break;
-        }
-
-        const transfer = transfers.find(t => t.id === fileId);
-        if (transfer?.status === 'cancelled') {
-          console.log(`Transfer ${fileId} was cancelled (status), stopping chunk processing`);
-          break;
-        }
-
-        await sendChunk(currentChunk);
-        currentChunk++;
-
-        const transferSpeed = (currentChunk * CHUNK_SIZE) / (performance.now() - startTime);
-        setConnectionQuality(checkConnectionQuality(transferSpeed));
-
-        const progress = Math.round(currentChunk * 100 / totalChunks);
-        const estimatedTimeRemaining = calculateEstimatedTimeRemaining(
-          fileId,
-          progress,
-          encryptedBlob.size
-        );
-
-        setTransfers(prev => prev.map(t =>
-          t.id === fileId
-            ? {
-                ...t,
-                progress,
-                status: 'transferring',
-                estimatedTimeRemaining
-              }
-            : t
-        ));
-
-        if (currentChunk === totalChunks) {
-          connRef.current?.send({
-            type: 'file-complete',
-            fileId
-          });
-
-          // Record end time for completed transfer
-          setTransferTimes(prev => ({
-            ...prev,
-            [fileId]: { ...prev[fileId], end: Date.now() }
-          }));
-
-          setTransfers(prev => prev.map(t =>
-            t.id === fileId
-              ? { ...t, progress: 100, status: 'completed' }
-              : t
-          ));
-
-          delete chunksInFlightRef.current[fileId];
-          break;
-        }
-      }
-
-      if (currentChunk < totalChunks) {
-        // Reduced timeout to minimize latency between chunk batches
-        setTimeout(processNextChunks, 5);
-      }
-    };
-
-    processNextChunks();
-  };
-
-  // Secure file transfer function using pre-exchanged keys
-  const startSecureFileTransfer = (
-    encryptedBlob: Blob,
-    fileId: string,
-    fileName: string,
-    fileType: string,
-    sessionId: string,
-    iv: number[]
-  ) => {
-    // File cancellation feature has been removed
-    const totalChunks = Math.ceil(encryptedBlob.size / CHUNK_SIZE);
-
-    console.log(`Starting secure file transfer for ${fileName} (${fileId}) with sessionId: ${sessionId}`);
-
-    // Record start time
-    setTransferTimes(prev => ({
-      ...prev,
-      [fileId]: { start: Date.now() }
-    }));
-
-    // Create transfer object with secure encryption info
-    const transferObj: FileTransfer = {
-      id: fileId,
-      name: fileName,
-      size: encryptedBlob.size,
-      type: fileType,
-      progress: 0,
-      status: 'pending',
-      sessionId,
-      iv,
-      secure: true
-    };
-
-    setTransfers(prev => [...prev, transferObj]);
-
-    // Send file-start message with secure encryption info
-    const fileStartMessage = {
-      type: 'file-start',
-      fileId,
-      fileName,
-      fileSize: encryptedBlob.size,
-      fileType,
-      sessionId,
-      iv,
-      secure: true
-    };
-
-    console.log(`Sending file-start for secure transfer ${fileId}:`, {
-      hasSessionId: !!fileStartMessage.sessionId,
-      ivLength: fileStartMessage.iv.length,
-      secure: fileStartMessage.secure
-    });
-
-    connRef.current.send(fileStartMessage);
-
-    chunksInFlightRef.current[fileId] = 0;
-    let currentChunk = 0;
-    const startTime = performance.now();
-    let lastUpdateTime = startTime;
-    let bytesTransferred = 0;
-
-    const sendChunk = async (chunkIndex: number) => {
-      const start = chunkIndex * CHUNK_SIZE;
-      const end = Math.min(start + CHUNK_SIZE, encryptedBlob.size);
-      const slice = encryptedBlob.slice(start, end);
-      const buffer = await slice.arrayBuffer();
-
-      connRef.current?.send({
-        type: 'file-chunk',
-        fileId,
-        chunk: chunkIndex,
-        total: totalChunks,
-        data: buffer
-      });
-
-      chunksInFlightRef.current[fileId]++;
-
-      // Update bytes transferred and calculate speed
-      bytesTransferred += buffer.byteLength;
-      const now = performance.now();
-
-      // Update speed calculation
-      const updateSpeed = () => {
-        const elapsedSeconds = (now - lastUpdateTime) / 1000;
-        if (elapsedSeconds > 0) {
-          const speed = bytesTransferred / elapsedSeconds;
-          setTransferSpeed(speed);
-
-          // Store the speed for this specific file
-          transferSpeedRef.current[fileId] = speed;
-        }
-
-        bytesTransferred = 0;
-        lastUpdateTime = now;
-      };
-
-      // If this is one of the first few chunks, update speed more frequently
-      // to get an initial estimate quickly
-      if (chunkIndex < 5 || now - lastUpdateTime > 1000) {
-        updateSpeed();
-      }
-    };
-
-    // Process chunks with cancellation support
-    const processNextChunks = async () => {
-      while (currentChunk < totalChunks &&
-             chunksInFlightRef.current[fileId] < MAX_CHUNKS_IN_FLIGHT) {
-        // Check if transfer has been cancelled
-        if (cancelledTransfersRef.current.has(fileId)) {
-          console.log(`Transfer ${fileId} was cancelled, stopping chunk processing`);
-          break;
-        }
-
-        const transfer = transfers.find(t => t.id === fileId);
-        if (transfer?.status === 'cancelled') {
-          console.log(`Transfer ${fileId} was cancelled (status), stopping chunk processing`);
-          break;
-        }
-
-        await sendChunk(currentChunk);
-        currentChunk++;
-
-        const transferSpeed = (currentChunk * CHUNK_SIZE) / (performance.now() - startTime);
-        setConnectionQuality(checkConnectionQuality(transferSpeed));
-
-        const progress = Math.round(currentChunk * 100 / totalChunks);
-        const estimatedTimeRemaining = calculateEstimatedTimeRemaining(
-          fileId,
-          progress,
-          encryptedBlob.size
-        );
-
-        setTransfers(prev => prev.map(t =>
-          t.id === fileId
-            ? {
-                ...t,
-                progress,
-                status: 'transferring',
-                estimatedTimeRemaining
-              }
-            : t
-        ));
-
-        if (currentChunk === totalChunks) {
-          connRef.current?.send({
-            type: 'file-complete',
-            fileId
-          });
-
-          // Record end time for completed transfer
-          setTransferTimes(prev => ({
-            ...prev,
-            [fileId]: { ...prev[fileId], end: Date.now() }
-          }));
-
-          setTransfers(prev => prev.map(t =>
-            t.id === fileId
-              ? { ...t, progress: 100, status: 'completed' }
-              : t
-          ));
-
-          delete chunksInFlightRef.current[fileId];
-          break;
-        }
-      }
-
-      if (currentChunk < totalChunks) {
-        // Reduced timeout to minimize latency between chunk batches
-        setTimeout(processNextChunks, 5);
-      }
-    };
-
-    processNextChunks();
-  };
-
-  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    setDragOver(false);
-    if (!connRef.current || !connRef.current.open) return;
-
-    const files = Array.from(e.dataTransfer.files);
-    const previews = files.map(file => ({
-      name: file.name,
-      size: file.size,
-      type: file.type,
-      file
-    }));
-    setPreviewFiles(prev => [...prev, ...previews]);
     setShowPreview(true);
   };
 
@@ -1036,134 +577,334 @@ function App() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const handleSendFiles = async () => {
-    if (!connection || !connRef.current) return;
+  const handleSendFiles = () => {
+    const recipientIds = recipients.map(p => p.id);
+    const filesToSend = [...previewFiles];
+    if (recipientIds.length === 0 || filesToSend.length === 0) return;
+
+    // Files from the same top-level folder are sent as one group
+    const folderStats = new Map<string, { fileCount: number; totalSize: number }>();
+    filesToSend.forEach(preview => {
+      if (!preview.relativePath) return;
+      const folder = getRootFolder(preview.relativePath);
+      const stats = folderStats.get(folder) ?? { fileCount: 0, totalSize: 0 };
+      folderStats.set(folder, { fileCount: stats.fileCount + 1, totalSize: stats.totalSize + preview.size });
+    });
+    const totalSize = filesToSend.reduce((sum, preview) => sum + preview.size, 0);
+
+    // Generate a unique ID for each file, folder and batch for each recipient; peers
+    // get their files in parallel, and the queue decides how many at a time
+    sendQueue.enqueue(recipientIds.flatMap(recipientId => {
+      const groups = new Map<string, TransferGroup>();
+      folderStats.forEach((stats, folder) => {
+        groups.set(folder, { id: crypto.randomUUID(), name: folder, ...stats });
+      });
+      const batch: TransferBatch = { id: crypto.randomUUID(), fileCount: filesToSend.length, totalSize };
+      return filesToSend.map(preview => ({
+        id: crypto.randomUUID(),
+        peerId: recipientId,
+        file: preview.file,
+        options: {
+          encryption: encryptionMode,
+          passphrase: encryptionMode === 'passphrase' ? sendPassphrase : undefined,
+          relativePath: preview.relativePath,
+          group: preview.relativePath ? groups.get(getRootFolder(preview.relativePath)) : undefined,
+          batch
+        }
+      }));
+    }));
+    console.log(`Queued ${filesToSend.length} files for ${recipientIds.join(', ')}`);
 
-    try {
-      // Create a copy of the preview files to iterate over
-      const filesToSend = [...previewFiles];
-      if (filesToSend.length === 0) return;
+    setPreviewFiles([]);
+    setShowPreview(false);
+  };
 
-      let allSuccessful = true;
+  // Check the passphrase typed for a request; files already unlocked by an earlier one pass regardless
+  const unlockRequest = async (engine: TransferEngine, request: PendingTransfer, inputId: string) => {
+    if (request.encryption !== 'passphrase') return true;
+    const unlocked = await engine.unlockTransfer(request.fileId, passphraseInputs[inputId] ?? '');
+    setPassphraseErrors(prev => {
+      const next = new Set(prev);
+      if (unlocked) {
+        next.delete(inputId);
+      } else {
+        next.add(inputId);
+      }
+      return next;
+    });
+    return unlocked;
+  };
 
-      // Generate unique IDs for each file
-      const fileIds = filesToSend.map(() => Math.random().toString(36).substring(7));
+  const acceptFileTransfer = async (key: string, saveToDisk = false) => {
+    const pendingTransfer = pendingTransfers.find(p => keyOfRequest(p) === key);
+    const engine = pendingTransfer && registry.get(pendingTransfer.peerId);
+    if (!engine || !pendingTransfer) return;
+    if (!await unlockRequest(engine, pendingTransfer, key)) return;
+    const { fileId } = pendingTransfer;
 
-      // Set processing state immediately to show "Waiting for response"
-      // This is crucial for the UI to update
-      setProcessingFiles(new Set(fileIds));
-      console.log('Set processing files:', fileIds);
+    if (saveToDisk) {
+      try {
+        // Ask for the destination up front so chunks can be written as they arrive
+        const sink = await createDiskSink(pendingTransfer.fileName, pendingTransfer.fileSize, pendingTransfer.fileType);
+        engine.acceptTransfer(fileId, sink);
+      } catch (error) {
+        // The user dismissed the save dialog or streaming is unavailable; leave the request pending
+        console.error('Could not open a save destination:', error);
+        return;
+      }
+    } else {
+      engine.acceptTransfer(fileId);
+    }
 
-      // Process each file sequentially
-      for (let i = 0; i < filesToSend.length; i++) {
-        const filePreview = filesToSend[i];
-        const fileId = fileIds[i];
+    setPendingTransfers(prev => prev.filter(p => keyOfRequest(p) !== key));
+  };
 
-        try {
-          console.log(`Sending file ${filePreview.name} with ID ${fileId}`);
-          const accepted = await sendFile(filePreview.file, fileId);
+  const rejectFileTransfer = (key: string) => {
+    const pendingTransfer = pendingTransfers.find(p => keyOfRequest(p) === key);
+    if (!pendingTransfer) return;
 
-          if (!accepted) {
-            console.log(`File ${filePreview.name} was rejected`);
-            allSuccessful = false;
-          }
-        } catch (error) {
-          console.error(`Error sending file ${filePreview.name}:`, error);
-          allSuccessful = false;
-        } finally {
-          // Remove this file from processing set regardless of outcome
-          console.log(`Removing file ${fileId} from processing set`);
-          setProcessingFiles(prev => {
-            const next = new Set([...prev]);
-            next.delete(fileId);
-            return next;
-          });
-        }
-      }
+    registry.get(pendingTransfer.peerId)?.rejectTransfer(pendingTransfer.fileId);
+    setPendingTransfers(prev => prev.filter(p => keyOfRequest(p) !== key));
+  };
 
-      // After all files are processed, update the UI
-      console.log('All files processed, successful:', allSuccessful);
-      if (allSuccessful) {
-        setPreviewFiles([]);
-        setShowPreview(false);
+  const cancelFileTransfer = (key: string) => {
+    const transfer = transfers.find(t => keyOfTransfer(t) === key);
+    if (transfer?.peerId) {
+      registry.get(transfer.peerId)?.cancelTransfer(transfer.id);
+    }
+  };
+
+  // Offer a failed file again as a new transfer, in place of the failed one
+  const retryFileTransfer = (key: string) => {
+    sendQueue.retry(key, crypto.randomUUID());
+    setTransfers(prev => prev.filter(t => keyOfTransfer(t) !== key));
+  };
+
+  const pauseFileTransfer = (key: string) => {
+    const transfer = transfers.find(t => keyOfTransfer(t) === key);
+    if (transfer?.peerId) {
+      registry.get(transfer.peerId)?.pauseTransfer(transfer.id);
+    }
+  };
+
+  const resumeFileTransfer = (key: string) => {
+    const transfer = transfers.find(t => keyOfTransfer(t) === key);
+    if (transfer?.peerId) {
+      registry.get(transfer.peerId)?.resumeTransfer(transfer.id);
+    }
+  };
+
+  // Older peers do not know the pause messages, so their transfers get no pause button
+  const canPause = (peerId?: string) =>
+    !!peers.find(p => p.id === peerId)?.protocol?.capabilities.includes('pause');
+
+  // Accept a folder's pending file and every file of it that follows
+  const acceptFolder = async (group: TransferGroup, senderId: string, saveToDirectory = false) => {
+    const key = folderKey(senderId, group);
+    const inFolder = (p: PendingTransfer) => p.peerId === senderId && p.group?.id === group.id;
+    // Files of a folder share the sender's passphrase salt, so unlocking one unlocks them all
+    const first = pendingTransfers.find(inFolder);
+    const firstEngine = first && registry.get(senderId);
+    if (first && firstEngine && !await unlockRequest(firstEngine, first, key)) return;
+
+    let directory: FileSystemDirectoryHandle | undefined;
+    if (saveToDirectory) {
+      try {
+        directory = await pickDirectory();
+      } catch (error) {
+        // The user dismissed the folder picker; leave the folder pending
+        console.error('Could not open a folder to save into:', error);
+        return;
+      }
+    }
+    const allowance: Allowance = { fileCount: group.fileCount, totalSize: group.totalSize, files: 0, bytes: 0 };
+    folderDecisionsRef.current.set(key, { accept: true, directory, allowance });
+
+    // Files that claim a different size for the folder, or go beyond it, stay pending
+    const requests = new Set(pendingTransfers.filter(p => inFolder(p) && !!p.group && fitsFolder(allowance, p.group, p.fileSize)));
+    setPendingTransfers(prev => prev.filter(p => !requests.has(p)));
+    for (const request of requests) {
+      const engine = registry.get(request.peerId);
+      if (!engine) continue;
+      try {
+        await acceptFolderFile(engine, request, directory);
+      } catch (error) {
+        console.error(`Could not save ${request.relativePath ?? request.fileName} into the folder:`, error);
+        engine.rejectTransfer(request.fileId, {
+          code: error instanceof Error && error.name === 'QuotaExceededError' ? 'disk-full' : 'failed',
+          message: 'Could not be saved into the chosen folder'
+        });
       }
-    } catch (error) {
-      console.error('Error in handleSendFiles:', error);
-      // Clear processing state on error
-      setProcessingFiles(new Set());
     }
   };
 
-  const acceptFileTransfer = (fileId: string) => {
-    const pendingTransfer = pendingTransfers.find(p => p.fileId === fileId);
-    if (!pendingTransfer || !connRef.current) return;
+  // Accept every file sent in the same batch as this request, including files not offered yet
+  const acceptBatch = async (first: PendingTransfer, inputId: string) => {
+    const { batch, peerId: senderId } = first;
+    const engine = registry.get(senderId);
+    if (!batch || !engine) return;
+    // Files sent together share the sender's passphrase salt, so unlocking one unlocks them all
+    if (!await unlockRequest(engine, first, inputId)) return;
+    const allowance: Allowance = { fileCount: batch.fileCount, totalSize: batch.totalSize, files: 0, bytes: 0 };
+    acceptedBatchesRef.current.set(`${senderId}:${batch.id}`, allowance);
+
+    // Files that claim a different size for the batch, or go beyond it, stay pending
+    const inBatch = (p: PendingTransfer) => p.peerId === senderId && p.batch?.id === batch.id &&
+      p.batch.fileCount === batch.fileCount && p.batch.totalSize === batch.totalSize;
+    const accepted = new Set(pendingTransfers.filter(p => inBatch(p) && takeAllowance(allowance, p.fileSize)));
+    accepted.forEach(request => engine.acceptTransfer(request.fileId));
+    setPendingTransfers(prev => prev.filter(p => !accepted.has(p)));
+  };
+
+  const rejectFolder = (group: TransferGroup, senderId: string) => {
+    const inFolder = (p: PendingTransfer) => p.peerId === senderId && p.group?.id === group.id;
+    folderDecisionsRef.current.set(folderKey(senderId, group), { accept: false });
+    pendingTransfers
+      .filter(inFolder)
+      .forEach(p => registry.get(p.peerId)?.rejectTransfer(p.fileId));
+    setPendingTransfers(prev => prev.filter(p => !inFolder(p)));
+  };
 
-    console.log(`Accepting file transfer for ${pendingTransfer.fileName} (${fileId})`, {
-      secure: pendingTransfer.secure,
-      hasKey: !!pendingTransfer.key,
-      hasSessionId: !!pendingTransfer.sessionId,
-      hasIv: !!pendingTransfer.iv
+  const selectTransfer = (key: string, selected: boolean) => {
+    setSelectedTransfers(prev => {
+      const next = new Set(prev);
+      if (selected) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+      return next;
     });
+  };
+
+  // Stream completed transfers into a zip archive, straight to disk where the browser allows
+  const downloadZip = async (items: FileTransfer[], zipName: string) => {
+    const entries: ZipEntry[] = items
+      .filter(t => t.blob)
+      .map(t => ({ path: t.relativePath ?? t.name, blob: t.blob! }));
+    if (entries.length === 0 || zipping) return;
 
-    // If this is a secure transfer, make sure we have the session key
-    if (pendingTransfer.secure && pendingTransfer.sessionId) {
-      const sessionKey = getSessionKey(pendingTransfer.sessionId);
-      if (!sessionKey) {
-        console.warn(`No session key found for sessionId: ${pendingTransfer.sessionId}. This may cause decryption issues.`);
-        console.log('Available session keys:', listSessionKeys());
+    setZipping(true);
+    try {
+      if (supportsDiskSink()) {
+        const sink = await createDiskSink(zipName, getZipSize(entries), 'application/zip');
+        await writeZip(entries, sink);
       } else {
-        console.log(`Found session key for sessionId: ${pendingTransfer.sessionId}`);
+        // Without a disk sink the archive has to be assembled in memory
+        const blob = await writeZip(entries, createMemorySink('application/zip'));
+        if (blob) {
+          saveBlob(blob, zipName);
+        }
       }
+      console.log(`Created ${zipName} with ${entries.length} files`);
+    } catch (error) {
+      // Also reached when the user dismisses the save dialog
+      console.error('Error creating zip archive:', error);
+    } finally {
+      setZipping(false);
     }
+  };
 
-    connRef.current.send({
-      type: 'file-accepted',
-      fileId: fileId
+  const toggleRecipient = (recipientId: string) => {
+    setExcludedRecipients(prev => {
+      const next = new Set(prev);
+      if (next.has(recipientId)) {
+        next.delete(recipientId);
+      } else {
+        next.add(recipientId);
+      }
+      return next;
     });
-
-    setPendingTransfers(prev => prev.filter(p => p.fileId !== fileId));
   };
 
-  const rejectFileTransfer = (fileId: string) => {
-    if (!connRef.current) return;
-
-    connRef.current.send({
-      type: 'file-rejected',
-      fileId: fileId
-    });
+  const downloadFromHistory = async (entry: HistoryEntry) => {
+    try {
+      const blob = await history.getBlob(entry.id);
+      if (!blob) {
+        console.error(`${entry.name} is no longer kept in the history`);
+        return;
+      }
+      saveBlob(blob, entry.name);
+    } catch (error) {
+      console.error(`Error loading ${entry.name} from the history:`, error);
+    }
+  };
 
-    setPendingTransfers(prev => prev.filter(p => p.fileId !== fileId));
+  const exportHistory = () => {
+    saveBlob(new Blob([history.exportJson()], { type: 'application/json' }), 'transfer-history.json');
   };
 
-  const cancelFileTransfer = (fileId: string) => {
-    if (!connRef.current) return;
+  const clearHistory = () => {
+    if (window.confirm('Clear the transfer history, including any kept files?')) {
+      history.clear();
+    }
+  };
 
-    console.log(`Cancelling file transfer for ${fileId}`);
+  const applyConnectionSettings = (settings: ConnectionSettings | null) => {
+    setConnectionSettings(saveConnectionSettings(settings));
+    setCustomIdAttempt(0);
+    setShowSettings(false);
+  };
 
-    // Mark the transfer as cancelled in our reference
-    cancelledTransfersRef.current.add(fileId);
+  const removePeer = (removedId: string) => {
+    registry.remove(removedId);
+    setPendingTransfers(prev => prev.filter(p => p.peerId !== removedId));
+  };
 
-    // Send cancellation message to peer
-    connRef.current.send({
-      type: 'file-cancel',
-      fileId: fileId
-    });
+  // Warn about requests from peers whose identity has not been verified
+  const renderTrustWarning = (fromPeerId: string) => {
+    const peer = peers.find(p => p.id === fromPeerId);
+    if (peer?.verified) return null;
+    return peer?.keyChanged ? (
+      <button
+        onClick={() => setVerifyingPeerId(fromPeerId)}
+        className="inline-flex items-center text-xs font-bold text-red-600 dark:text-red-400 flex-shrink-0"
+        title="This peer ID used to belong to a different identity key"
+      >
+        <ShieldX className="w-4 h-4 mr-0.5" />
+        Identity key changed
+      </button>
+    ) : (
+      <button
+        onClick={() => setVerifyingPeerId(fromPeerId)}
+        className="inline-flex items-center text-xs font-medium text-yellow-700 dark:text-yellow-400 flex-shrink-0"
+        title="You have not compared safety numbers with this peer"
+      >
+        <ShieldAlert className="w-4 h-4 mr-0.5" />
+        Unverified peer
+      </button>
+    );
+  };
 
-    // Update the transfer status to cancelled
-    setTransfers(prev => prev.map(t =>
-      t.id === fileId
-        ? { ...t, status: 'cancelled' }
-        : t
-    ));
-
-    // Record end time for cancelled transfer
-    setTransferTimes(prev => ({
-      ...prev,
-      [fileId]: { ...prev[fileId], end: Date.now() }
-    }));
+  // Passphrase field for a pending passphrase-encrypted file or folder
+  const renderPassphraseInput = (inputId: string) => (
+    <div className="mt-2">
+      <input
+        type="password"
+        value={passphraseInputs[inputId] ?? ''}
+        onChange={(e) => setPassphraseInputs(prev => ({ ...prev, [inputId]: e.target.value }))}
+        placeholder="Passphrase"
+        className="w-full sm:w-64 rounded-md border-gray-300 dark:border-gray-600 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:bg-gray-700 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+      />
+      {passphraseErrors.has(inputId) && (
+        <p className="mt-1 text-xs text-red-600 dark:text-red-400">Wrong passphrase</p>
+      )}
+    </div>
+  );
 
-    // Clean up resources
-    delete chunksInFlightRef.current[fileId];
+  // "Accept all" for a request sent along with other files; covers `shown` files on screen
+  const renderAcceptAll = (request: PendingTransfer, inputId: string, shown = 1) => {
+    const { batch } = request;
+    if (!batch || batch.fileCount <= shown || request.resume) return null;
+    return (
+      <button
+        onClick={() => acceptBatch(request, inputId)}
+        className="px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700"
+        title={`Accept all ${batch.fileCount} files (${formatSize(batch.totalSize)}) sent together with this one, including those not offered yet`}
+      >
+        Accept all {batch.fileCount}
+      </button>
+    );
   };
 
   const getFileIcon = (type: string) => {
@@ -1175,13 +916,6 @@ function App() {
     return <File className="w-8 h-8" />;
   };
 
-  const checkConnectionQuality = (lastTransferSpeed: number) => {
-    // Updated thresholds for higher performance expectations
-    if (lastTransferSpeed > 2000000) return 'good'; // 2MB/s or higher is good
-    if (lastTransferSpeed > 500000) return 'fair'; // 500KB/s to 2MB/s is fair
-    return 'poor'; // Below 500KB/s is poor
-  };
-
   const formatSpeed = (speed: number) => {
     const k = 1024;
     const sizes = ['B/s', 'KB/s', 'MB/s', 'GB/s'];
@@ -1189,21 +923,17 @@ function App() {
     return parseFloat((speed / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  // Calculate estimated time remaining based on current speed and remaining bytes
-  const calculateEstimatedTimeRemaining = (fileId: string, currentProgress: number, totalSize: number) => {
-    const speed = transferSpeedRef.current[fileId] || 0;
-    if (speed <= 0) return undefined;
-
-    const remainingBytes = totalSize * (1 - currentProgress / 100);
-    const estimatedTimeMs = (remainingBytes / speed) * 1000;
-
-    return Math.max(0, Math.round(estimatedTimeMs));
-  };
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <div className="max-w-4xl mx-auto p-3 sm:p-6">
-        <div className="flex justify-end mb-4">
+        <div className="flex justify-end items-center gap-2 mb-4">
+          <button
+            onClick={() => setShowSettings(true)}
+            className="p-2 rounded-md text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            title="Connection settings"
+          >
+            <Server className="w-5 h-5" />
+          </button>
           <ThemeToggle />
         </div>
         <div className="text-center mb-8">
@@ -1233,17 +963,58 @@ function App() {
                 {copied ? 'Copied!' : 'Copy ID'}
               </button>
               <button
-                onClick={() => setShowQRModal(true)}
+                onClick={() => {
+                  setShareInvite(createInvite(peerId, identityFingerprint));
+                  setShowQRModal(true);
+                }}
                 className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
               >
                 <QrCode className="w-5 h-5 mr-2 text-gray-500 dark:text-gray-400" />
                 Show QR
               </button>
+              <button
+                onClick={showPairingCode}
+                disabled={!peerId}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                title="Get a short code that is easy to read out or type on a phone"
+              >
+                <Hash className="w-5 h-5 mr-2 text-gray-500 dark:text-gray-400" />
+                Pairing Code
+              </button>
             </div>
           </div>
           <div className="bg-gray-50 dark:bg-gray-900 p-3 rounded-md font-mono text-sm text-gray-900 dark:text-gray-100 break-all">
             {peerId}
           </div>
+          {connectionSettings.customId && peerId && peerId !== connectionSettings.customId && (
+            <p className="mt-2 text-xs text-yellow-700 dark:text-yellow-400">
+              {connectionSettings.customId} is taken, so you are using {peerId}
+            </p>
+          )}
+          {pairingCode && (
+            <div className="mt-3 flex items-center justify-between gap-3 p-3 bg-blue-50 dark:bg-blue-900/30 rounded-md">
+              <div>
+                <p className="font-mono text-xl font-bold text-gray-900 dark:text-gray-100">{pairingCode.code}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Enter this code under "Connect to Peer" on the other device; it works for
+                  another {Math.max(0, Math.ceil((pairingCode.expiresAt - now) / 60000))} min
+                </p>
+              </div>
+              <button
+                onClick={() => setPairingCode(null)}
+                className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+                title="Stop using this code"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          )}
+          {pairingError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{pairingError}</p>}
+          {identityFingerprint && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Identity key <span className="font-mono">{formatFingerprint(identityFingerprint)}</span>
+            </p>
+          )}
         </div>
 
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 mb-6">
@@ -1252,8 +1023,11 @@ function App() {
             <input
               type="text"
               value={targetPeerId}
-              onChange={(e) => setTargetPeerId(e.target.value)}
-              placeholder="Enter peer ID to connect"
+              onChange={(e) => {
+                setTargetPeerId(e.target.value);
+                setConnectError(null);
+              }}
+              placeholder="Enter peer ID, invite link or pairing code"
               className="flex-1 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:bg-gray-700 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
             />
             <div className="flex gap-2">
@@ -1264,7 +1038,7 @@ function App() {
                 <Camera className="w-5 h-5" />
               </button>
               <button
-                onClick={connectToPeer}
+                onClick={() => connectToInvite(targetPeerId)}
                 disabled={!targetPeerId}
                 className="flex-1 px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-gray-300 dark:disabled:bg-gray-600"
               >
@@ -1272,23 +1046,34 @@ function App() {
               </button>
             </div>
           </div>
+          {connectError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{connectError}</p>}
+          <PeerList
+            peers={peers}
+            onReconnect={connectToPeer}
+            onDisconnect={registry.disconnect}
+            onRemove={removePeer}
+            onVerify={setVerifyingPeerId}
+          />
         </div>
 
-        {connection && (
+        <ContactsPanel
+          contacts={contacts}
+          peers={peers}
+          onConnect={connectToPeer}
+          onRename={(contact, nickname) => contactStore.save({ ...contact, nickname })}
+          onRemove={(contact) => contactStore.remove(contact.fingerprint)}
+        />
+
+        {peers.length > 0 && (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 mb-6">
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6 gap-4">
               <div>
                 <h2 className="text-lg font-medium text-gray-900 dark:text-white">File Transfer</h2>
                 <p className="text-sm text-gray-500 dark:text-gray-400 break-all">
-                  Connected to: {connection.id}
-                  <span className={`ml-2 inline-block w-2 h-2 rounded-full ${
-                    connectionQuality === 'good' ? 'bg-green-500' :
-                    connectionQuality === 'fair' ? 'bg-yellow-500' :
-                    'bg-red-500'
-                  }`}></span>
-                  {transferSpeed > 0 && (
+                  Connected to {connectedPeers.length} {connectedPeers.length === 1 ? 'peer' : 'peers'}
+                  {totalSpeed > 0 && (
                     <span className="ml-2 text-sm font-medium">
-                      {formatSpeed(transferSpeed)}
+                      {formatSpeed(totalSpeed)}
                     </span>
                   )}
                 </p>
@@ -1301,34 +1086,83 @@ function App() {
                   multiple
                   className="hidden"
                 />
-                <button
-                  onClick={() => setSecureMode(!secureMode)}
-                  className={`flex items-center px-3 py-1 rounded-md text-sm ${secureMode ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'}`}
-                  title={secureMode ? 'Using secure end-to-end encryption' : 'Using standard encryption'}
-                >
-                  <Lock className={`w-4 h-4 mr-1 ${secureMode ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}`} />
-                  {secureMode ? 'Secure' : 'Standard'}
-                </button>
+                <input
+                  type="file"
+                  ref={folderInputRef}
+                  onChange={handleFileSelect}
+                  // Not in React's input typings; lets the user pick a whole folder
+                  {...{ webkitdirectory: '' }}
+                  className="hidden"
+                />
+                <div className="flex rounded-md overflow-hidden border border-gray-300 dark:border-gray-600 text-sm">
+                  <button
+                    onClick={() => setEncryptionMode('ecdh')}
+                    className={`flex items-center px-3 py-1 ${encryptionMode === 'ecdh' ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' : 'bg-white text-gray-700 dark:bg-gray-700 dark:text-gray-300'}`}
+                    title="End-to-end encryption with a key agreed through a key exchange"
+                  >
+                    <Lock className="w-4 h-4 mr-1" />
+                    Key exchange
+                  </button>
+                  <button
+                    onClick={() => setEncryptionMode('passphrase')}
+                    className={`flex items-center px-3 py-1 ${encryptionMode === 'passphrase' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' : 'bg-white text-gray-700 dark:bg-gray-700 dark:text-gray-300'}`}
+                    title="Encrypt with a passphrase the receiver has to enter"
+                  >
+                    <KeyRound className="w-4 h-4 mr-1" />
+                    Passphrase
+                  </button>
+                </div>
                 <button
                   onClick={() => fileInputRef.current?.click()}
-                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  disabled={connectedPeers.length === 0}
+                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-gray-300 dark:disabled:bg-gray-600"
                 >
                   <Upload className="w-5 h-5 mr-2" />
                   Send Files
                 </button>
+                <button
+                  onClick={() => folderInputRef.current?.click()}
+                  disabled={connectedPeers.length === 0}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  <FolderUp className="w-5 h-5 mr-2" />
+                  Send Folder
+                </button>
               </div>
             </div>
 
+            <label className="flex items-center gap-2 mb-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={requireKeyExchange}
+                onChange={(e) => setRequireKeyExchange(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+              />
+              Only accept files encrypted with a key exchange (refuse passphrase transfers)
+            </label>
+
+            <label className="flex flex-wrap items-center gap-2 mb-6 text-sm text-gray-700 dark:text-gray-300">
+              Parallel data channels per peer
+              <select
+                value={parallelChannels}
+                onChange={(e) => setParallelChannels(Number(e.target.value))}
+                className="rounded-md border-gray-300 dark:border-gray-600 py-1 text-sm dark:bg-gray-700 dark:text-white focus:border-blue-500 focus:ring-blue-500"
+              >
+                {Array.from({ length: MAX_LANES }, (_, index) => index + 1).map(count => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+              <span className="text-xs text-gray-500 dark:text-gray-400">Used with peers that allow as many; applies to new connections</span>
+            </label>
+
             {showPreview && previewFiles.length > 0 && (
               <div className="mb-6 bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
                 <div className="flex justify-between items-center mb-4">
                   <h3 className="text-lg font-medium text-gray-900 dark:text-white">Selected Files</h3>
                   <button
                     onClick={() => {
-                      if (processingFiles.size === 0) {
-                        setShowPreview(false);
-                        setPreviewFiles([]);
-                      }
+                      setShowPreview(false);
+                      setPreviewFiles([]);
                     }}
                     className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
                   >
@@ -1344,63 +1178,123 @@ function App() {
                       <div className="flex items-center gap-3">
                         {getFileIcon(file.type)}
                         <div className="min-w-0 flex-1">
-                          <p className="text-sm font-medium text-gray-900 dark:text-white break-all">{file.name}</p>
+                          <p className="text-sm font-medium text-gray-900 dark:text-white break-all">{file.relativePath ?? file.name}</p>
                           <p className="text-sm text-gray-500 dark:text-gray-400">{formatSize(file.size)}</p>
                         </div>
                       </div>
-                      {processingFiles.size === 0 && (
-                        <button
-                          onClick={() => setPreviewFiles(prev => prev.filter((_, i) => i !== index))}
-                          className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 flex-shrink-0"
-                        >
-                          <X className="w-4 h-4" />
-                        </button>
-                      )}
+                      <button
+                        onClick={() => setPreviewFiles(prev => prev.filter((_, i) => i !== index))}
+                        className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 flex-shrink-0"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
                     </div>
                   ))}
                 </div>
-                <div className="mt-4 flex justify-end">
+                {connectedPeers.length > 1 && (
+                  <div className="mt-4">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">Send to</p>
+                    <div className="flex flex-wrap gap-3">
+                      {connectedPeers.map(recipient => (
+                        <label key={recipient.id} className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={!excludedRecipients.has(recipient.id)}
+                            onChange={() => toggleRecipient(recipient.id)}
+                            className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                          />
+                          <span className="font-mono break-all">{recipient.id}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div className="mt-4 flex flex-col sm:flex-row sm:items-center justify-end gap-3">
+                  {encryptionMode === 'passphrase' && (
+                    <input
+                      type="password"
+                      value={sendPassphrase}
+                      onChange={(e) => setSendPassphrase(e.target.value)}
+                      placeholder="Passphrase to share with the receiver"
+                      className="flex-1 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:bg-gray-700 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+                    />
+                  )}
+                  <label className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    At a time
+                    <select
+                      value={sendConcurrency}
+                      onChange={(e) => setSendConcurrency(Number(e.target.value))}
+                      className="rounded-md border-gray-300 dark:border-gray-600 py-1 text-sm dark:bg-gray-700 dark:text-white focus:border-blue-500 focus:ring-blue-500"
+                      title="Files offered to and sent to each peer at the same time"
+                    >
+                      {Array.from({ length: MAX_CONCURRENT_SENDS }, (_, index) => index + 1).map(count => (
+                        <option key={count} value={count}>{count}</option>
+                      ))}
+                    </select>
+                  </label>
                   <button
                     onClick={() => {
-                      console.log('Send button clicked, processing files size:', processingFiles.size);
+                      console.log('Send button clicked, files waiting for a response:', processingFiles.size);
                       handleSendFiles();
                     }}
-                    disabled={processingFiles.size > 0}
+                    disabled={recipients.length === 0 || (encryptionMode === 'passphrase' && !sendPassphrase)}
                     className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-gray-400"
                   >
-                    {processingFiles.size > 0 ? 'Waiting for response...' : `Send ${previewFiles.length} ${previewFiles.length === 1 ? 'File' : 'Files'}`}
+                    {waitingItems.length > 0 ? 'Queue' : 'Send'} {previewFiles.length} {previewFiles.length === 1 ? 'File' : 'Files'}
                   </button>
                 </div>
               </div>
             )}
 
+            <SendQueuePanel
+              items={waitingItems}
+              waitingForResponse={processingFiles}
+              connectedPeerIds={new Set(connectedPeers.map(p => p.id))}
+              formatSize={formatSize}
+              onPause={sendQueue.pause}
+              onResume={sendQueue.resume}
+              onRemove={sendQueue.remove}
+              onMove={sendQueue.move}
+            />
+
             {pendingTransfers.length > 0 && (
               <div className="mb-6">
                 <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Pending Transfers</h3>
                 <div className="space-y-4">
-                  {pendingTransfers.map((transfer) => (
-                    <div key={transfer.fileId} className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg">
+                  {pendingItems.map(({ group, items }) => group ? (
+                    <div key={folderKey(items[0].peerId, group)} className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg">
                       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
                         <div>
                           <div className="flex items-center gap-2">
-                            <p className="font-medium text-gray-900 dark:text-white break-all">{transfer.fileName}</p>
-                            {transfer.secure && (
-                              <div title="Secure transfer with end-to-end encryption">
-                                <Lock className="w-4 h-4 text-green-500 flex-shrink-0" />
-                              </div>
-                            )}
+                            <Folder className="w-5 h-5 text-blue-500 flex-shrink-0" />
+                            <p className="font-medium text-gray-900 dark:text-white break-all">{group.name}</p>
+                            {renderTrustWarning(items[0].peerId)}
+                            <EncryptionIcon mode={items[0].encryption} />
                           </div>
-                          <p className="text-sm text-gray-500 dark:text-gray-400">{formatSize(transfer.fileSize)}</p>
+                          <p className="text-sm text-gray-500 dark:text-gray-400 break-all">
+                            Folder with {group.fileCount} {group.fileCount === 1 ? 'file' : 'files'}, {formatSize(group.totalSize)} from {items[0].peerId}
+                          </p>
+                          {items[0].encryption === 'passphrase' && renderPassphraseInput(folderKey(items[0].peerId, group))}
                         </div>
                         <div className="flex gap-2">
                           <button
-                            onClick={() => acceptFileTransfer(transfer.fileId)}
+                            onClick={() => acceptFolder(group, items[0].peerId)}
                             className="px-3 py-1 bg-green-500 text-white rounded-md hover:bg-green-600"
                           >
                             Accept
                           </button>
+                          {renderAcceptAll(items[0], folderKey(items[0].peerId, group), group.fileCount)}
+                          {supportsDirectoryPicker() && (
+                            <button
+                              onClick={() => acceptFolder(group, items[0].peerId, true)}
+                              className="px-3 py-1 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+                              title="Choose a folder and recreate the directory structure inside it"
+                            >
+                              Save to folder
+                            </button>
+                          )}
                           <button
-                            onClick={() => rejectFileTransfer(transfer.fileId)}
+                            onClick={() => rejectFolder(group, items[0].peerId)}
                             className="px-3 py-1 bg-red-500 text-white rounded-md hover:bg-red-600"
                           >
                             Reject
@@ -1408,7 +1302,52 @@ function App() {
                         </div>
                       </div>
                     </div>
-                  ))}
+                  ) : items.map((transfer) => (
+                      <div key={keyOfRequest(transfer)} className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg">
+                        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <p className="font-medium text-gray-900 dark:text-white break-all">{transfer.fileName}</p>
+                              {transfer.resume && (
+                                <span className="text-xs font-medium text-yellow-700 dark:text-yellow-400 flex-shrink-0">
+                                  {transfer.resumeProgress}% already received
+                                </span>
+                              )}
+                              {renderTrustWarning(transfer.peerId)}
+                              <EncryptionIcon mode={transfer.encryption} />
+                            </div>
+                            <p className="text-sm text-gray-500 dark:text-gray-400 break-all">
+                              {formatSize(transfer.fileSize)} from {transfer.peerId}
+                            </p>
+                            {transfer.encryption === 'passphrase' && renderPassphraseInput(keyOfRequest(transfer))}
+                          </div>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => acceptFileTransfer(keyOfRequest(transfer))}
+                              className="px-3 py-1 bg-green-500 text-white rounded-md hover:bg-green-600"
+                            >
+                              {transfer.resume ? 'Resume' : 'Accept'}
+                            </button>
+                            {renderAcceptAll(transfer, keyOfRequest(transfer))}
+                            {supportsDiskSink() && !transfer.resume && (
+                              <button
+                                onClick={() => acceptFileTransfer(keyOfRequest(transfer), true)}
+                                className="px-3 py-1 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+                                title="Choose where to save and write the file to disk as it arrives"
+                              >
+                                Save to disk
+                              </button>
+                            )}
+                            <button
+                              onClick={() => rejectFileTransfer(keyOfRequest(transfer))}
+                              className="px-3 py-1 bg-red-500 text-white rounded-md hover:bg-red-600"
+                            >
+                              Reject
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                  )))}
                 </div>
               </div>
             )}
@@ -1426,15 +1365,66 @@ function App() {
               Drag and drop files here to send
             </div>
 
+            {downloadableTransfers.length > 1 && (
+              <div className="flex flex-wrap items-center justify-end gap-2 mt-4">
+                {selectedDownloads.length > 0 && (
+                  <>
+                    <button
+                      onClick={() => setSelectedTransfers(new Set())}
+                      className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+                    >
+                      Clear selection
+                    </button>
+                    <button
+                      onClick={() => downloadZip(selectedDownloads, 'selected-files.zip')}
+                      disabled={zipping}
+                      className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+                    >
+                      <FileArchive className="w-4 h-4 mr-1" />
+                      Download {selectedDownloads.length} selected as .zip
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => downloadZip(downloadableTransfers, 'received-files.zip')}
+                  disabled={zipping}
+                  className="inline-flex items-center px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+                >
+                  <FileArchive className="w-4 h-4 mr-1" />
+                  {zipping ? 'Creating zip...' : 'Download all as .zip'}
+                </button>
+              </div>
+            )}
+
             <div className="space-y-4 mt-4">
-              {transfers.map((transfer) => (
+              {transferItems.map(({ group, items }) => group ? (
+                <FolderTransferItem
+                  key={folderKey(items[0].peerId, group)}
+                  group={group}
+                  transfers={items}
+                  transferTimes={transferTimes}
+                  onCancel={cancelFileTransfer}
+                  onPause={canPause(items[0]?.peerId) ? pauseFileTransfer : undefined}
+                  onResume={canPause(items[0]?.peerId) ? resumeFileTransfer : undefined}
+                  selectedIds={selectedTransfers}
+                  onSelect={selectTransfer}
+                  onDownloadZip={(folder, folderTransfers) => downloadZip(folderTransfers, `${folder.name}.zip`)}
+                  canRetry={sendQueue.canRetry}
+                  onRetry={retryFileTransfer}
+                />
+              ) : items.map((transfer) => (
                 <FileTransferItem
-                  key={transfer.id}
+                  key={keyOfTransfer(transfer)}
                   transfer={transfer}
-                  transferTime={transferTimes[transfer.id]}
+                  transferTime={transferTimes[keyOfTransfer(transfer)]}
                   onCancel={cancelFileTransfer}
+                  onPause={canPause(transfer.peerId) ? pauseFileTransfer : undefined}
+                  onResume={canPause(transfer.peerId) ? resumeFileTransfer : undefined}
+                  selected={selectedTransfers.has(keyOfTransfer(transfer))}
+                  onSelect={selectTransfer}
+                  onRetry={sendQueue.canRetry(keyOfTransfer(transfer)) ? retryFileTransfer : undefined}
                 />
-              ))}
+              )))}
               {transfers.length === 0 && (
                 <div className="text-center py-8 text-gray-500 dark:text-gray-400">
                   <Download className="w-12 h-12 mx-auto mb-4 opacity-50" />
@@ -1444,23 +1434,54 @@ function App() {
             </div>
           </div>
         )}
+
+        <DropBoxPanel rules={dropBoxRules} onChange={setDropBoxRules} />
+
+        <HistoryPanel
+          entries={historyEntries}
+          blobQuota={historyBlobQuota}
+          formatSize={formatSize}
+          onBlobQuotaChange={setHistoryBlobQuota}
+          onDownload={downloadFromHistory}
+          onRemove={history.remove}
+          onClear={clearHistory}
+          onExport={exportHistory}
+        />
       </div>
 
       <QRCodeModal
-        isOpen={showQRModal}
+        isOpen={showQRModal && !!shareInvite}
         onClose={() => setShowQRModal(false)}
-        peerId={peerId}
+        invite={shareInvite}
         onScan={() => {
           setShowQRModal(false);
           setShowScanner(true);
         }}
       />
 
+      <ConnectionSettingsModal
+        isOpen={showSettings}
+        onClose={() => setShowSettings(false)}
+        settings={connectionSettings}
+        onSave={applyConnectionSettings}
+        onReset={() => applyConnectionSettings(null)}
+      />
+
       <QRScanner
         isOpen={showScanner}
         onClose={() => setShowScanner(false)}
         onScan={handleScanResult}
       />
+
+      <SafetyNumberModal
+        isOpen={verifyingPeerId !== null}
+        onClose={() => setVerifyingPeerId(null)}
+        peer={peers.find(p => p.id === verifyingPeerId)}
+        onSave={(savedId, nickname, verified) => {
+          registry.saveContact(savedId, nickname, verified);
+          setVerifyingPeerId(null);
+        }}
+      />
     </div>
   );
 }
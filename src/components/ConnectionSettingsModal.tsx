@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, RotateCcw, Server, Trash2, X } from 'lucide-react';
+import { checkConnectionSettings, ConnectionSettings } from '../lib/connectionSettings';
+
+interface ConnectionSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: ConnectionSettings;
+  onSave: (settings: ConnectionSettings) => void;
+  onReset: () => void; // Go back to the settings the app was built with
+}
+
+// Form fields as typed, turned into settings on save
+interface IceServerDraft {
+  urls: string; // Separated by spaces, commas or new lines
+  username: string;
+  credential: string;
+}
+
+interface SettingsDraft {
+  customId: string;
+  ownServer: boolean;
+  host: string;
+  port: string;
+  path: string;
+  key: string;
+  secure: boolean;
+  iceServers: IceServerDraft[];
+}
+
+const toDraft = ({ customId, signalling, iceServers }: ConnectionSettings): SettingsDraft => ({
+  customId: customId ?? '',
+  ownServer: !!signalling,
+  host: signalling?.host ?? '',
+  port: String(signalling?.port ?? 9000),
+  path: signalling?.path ?? '/',
+  key: signalling?.key ?? 'peerjs',
+  secure: signalling?.secure ?? window.location.protocol === 'https:',
+  iceServers: iceServers.map(server => ({
+    urls: server.urls.join('\n'),
+    username: server.username ?? '',
+    credential: server.credential ?? ''
+  }))
+});
+
+const fromDraft = (draft: SettingsDraft): ConnectionSettings => ({
+  customId: draft.customId.trim() || undefined,
+  signalling: draft.ownServer
+    ? {
+        host: draft.host.trim(),
+        port: Number(draft.port),
+        path: draft.path.trim() || '/',
+        key: draft.key.trim() || 'peerjs',
+        secure: draft.secure
+      }
+    : undefined,
+  iceServers: draft.iceServers
+    .map(server => ({
+      urls: server.urls.split(/[\s,]+/).filter(Boolean),
+      username: server.username || undefined,
+      credential: server.credential || undefined
+    }))
+    .filter(server => server.urls.length > 0)
+});
+
+const inputClassName = 'w-full rounded-md border-gray-300 dark:border-gray-600 text-sm dark:bg-gray-700 dark:text-white placeholder-gray-500 dark:placeholder-gray-400';
+const labelClassName = 'block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+export const ConnectionSettingsModal: React.FC<ConnectionSettingsModalProps> = ({ isOpen, onClose, settings, onSave, onReset }) => {
+  const [draft, setDraft] = useState(() => toDraft(settings));
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the current settings every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(toDraft(settings));
+      setError(null);
+    }
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<SettingsDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateIceServer = (index: number, changes: Partial<IceServerDraft>) => update({
+    iceServers: draft.iceServers.map((server, i) => i === index ? { ...server, ...changes } : server)
+  });
+
+  const handleSave = () => {
+    try {
+      onSave(checkConnectionSettings(fromDraft(draft)));
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-lg w-full p-6 max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="flex items-center text-lg font-medium text-gray-900 dark:text-white">
+            <Server className="w-5 h-5 mr-2" />
+            Connection Settings
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <section>
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Your peer ID</h4>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Pick an ID that is easy to read out, or leave it empty for a random one. If someone else
+              has it, a numbered variant such as "name-2" is used instead.
+            </p>
+            <input
+              type="text"
+              value={draft.customId}
+              onChange={(e) => update({ customId: e.target.value })}
+              placeholder="Random"
+              className={inputClassName}
+            />
+          </section>
+
+          <section>
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Signalling server</h4>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Peers find each other through this server; files never pass through it. Run your own
+              with <code>npm run signal</code>.
+            </p>
+            <label className="flex items-center gap-2 mb-3 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={draft.ownServer}
+                onChange={(e) => update({ ownServer: e.target.checked })}
+                className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+              />
+              Use my own server instead of the public PeerJS server
+            </label>
+            {draft.ownServer && (
+              <div className="grid grid-cols-3 gap-2">
+                <div className="col-span-2">
+                  <label className={labelClassName}>Host</label>
+                  <input
+                    type="text"
+                    value={draft.host}
+                    onChange={(e) => update({ host: e.target.value })}
+                    placeholder="signal.example.lan"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>Port</label>
+                  <input
+                    type="number"
+                    value={draft.port}
+                    onChange={(e) => update({ port: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>Path</label>
+                  <input
+                    type="text"
+                    value={draft.path}
+                    onChange={(e) => update({ path: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>Key</label>
+                  <input
+                    type="text"
+                    value={draft.key}
+                    onChange={(e) => update({ key: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <label className="flex items-end gap-2 pb-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.secure}
+                    onChange={(e) => update({ secure: e.target.checked })}
+                    className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                  />
+                  TLS
+                </label>
+              </div>
+            )}
+          </section>
+
+          <section>
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">STUN / TURN servers</h4>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Help peers on different networks reach each other. With none, only peers on the same network can connect.
+            </p>
+            <div className="space-y-3">
+              {draft.iceServers.map((server, index) => (
+                <div key={index} className="p-3 bg-gray-50 dark:bg-gray-900 rounded-md space-y-2">
+                  <div className="flex items-start gap-2">
+                    <textarea
+                      value={server.urls}
+                      onChange={(e) => updateIceServer(index, { urls: e.target.value })}
+                      placeholder="stun:stun.example.lan:3478"
+                      rows={Math.min(4, Math.max(1, server.urls.split('\n').length))}
+                      className={`${inputClassName} font-mono`}
+                    />
+                    <button
+                      onClick={() => update({ iceServers: draft.iceServers.filter((_, i) => i !== index) })}
+                      className="mt-2 text-gray-400 hover:text-red-500"
+                      title="Remove server"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="text"
+                      value={server.username}
+                      onChange={(e) => updateIceServer(index, { username: e.target.value })}
+                      placeholder="Username (TURN)"
+                      className={inputClassName}
+                    />
+                    <input
+                      type="password"
+                      value={server.credential}
+                      onChange={(e) => updateIceServer(index, { credential: e.target.value })}
+                      placeholder="Credential (TURN)"
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              ))}
+              <button
+                onClick={() => update({ iceServers: [...draft.iceServers, { urls: '', username: '', credential: '' }] })}
+                className="inline-flex items-center text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add server
+              </button>
+            </div>
+          </section>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Saving reconnects to the signalling server, which closes current connections and may change your Peer ID.
+          </p>
+
+          <div className="flex justify-between gap-2">
+            <button
+              onClick={onReset}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+              title="Use the servers this app was set up with"
+            >
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Reset to defaults
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Save and reconnect
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Check, Pencil, Plug, ShieldCheck, Trash2, X } from 'lucide-react';
+import { Contact, PeerConnection } from '../types';
+import { formatFingerprint } from '../lib/identity';
+
+interface ContactsPanelProps {
+  contacts: Contact[];
+  peers: PeerConnection[];
+  onConnect: (peerId: string) => void;
+  onRename: (contact: Contact, nickname: string) => void;
+  onRemove: (contact: Contact) => void;
+}
+
+export const ContactsPanel: React.FC<ContactsPanelProps> = ({ contacts, peers, onConnect, onRename, onRemove }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [nickname, setNickname] = useState('');
+
+  if (contacts.length === 0) return null;
+
+  const isConnected = (contact: Contact) =>
+    peers.some(p => p.fingerprint === contact.fingerprint && p.status === 'connected');
+
+  const startEditing = (contact: Contact) => {
+    setEditing(contact.fingerprint);
+    setNickname(contact.nickname);
+  };
+
+  const finishEditing = (contact: Contact) => {
+    if (nickname.trim()) {
+      onRename(contact, nickname.trim());
+    }
+    setEditing(null);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 mb-6">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Contacts</h2>
+      <div className="space-y-2">
+        {contacts.map(contact => (
+          <div
+            key={contact.fingerprint}
+            className="flex items-center justify-between gap-3 p-3 bg-gray-50 dark:bg-gray-900 rounded-md"
+          >
+            <div className="min-w-0">
+              {editing === contact.fingerprint ? (
+                <input
+                  type="text"
+                  value={nickname}
+                  onChange={(e) => setNickname(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishEditing(contact);
+                    if (e.key === 'Escape') setEditing(null);
+                  }}
+                  autoFocus
+                  className="rounded-md border-gray-300 dark:border-gray-600 text-sm dark:bg-gray-700 dark:text-white"
+                />
+              ) : (
+                <div className="flex items-center gap-1">
+                  <span className="text-sm font-medium text-gray-900 dark:text-gray-100 break-all">{contact.nickname}</span>
+                  {contact.verified && (
+                    <span title="Safety number verified">
+                      <ShieldCheck className="w-4 h-4 text-green-600 dark:text-green-400 flex-shrink-0" />
+                    </span>
+                  )}
+                </div>
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400 font-mono break-all">
+                {formatFingerprint(contact.fingerprint)}
+                {contact.lastPeerId && ` · ${contact.lastPeerId}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              {editing === contact.fingerprint ? (
+                <>
+                  <button
+                    onClick={() => finishEditing(contact)}
+                    className="text-gray-400 hover:text-green-500"
+                    title="Save name"
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                    title="Cancel"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </>
+              ) : (
+                <>
+                  {isConnected(contact) ? (
+                    <span className="text-sm text-gray-500 dark:text-gray-400">Connected</span>
+                  ) : contact.lastPeerId && (
+                    <button
+                      onClick={() => onConnect(contact.lastPeerId!)}
+                      className="text-gray-400 hover:text-blue-500 dark:hover:text-blue-400"
+                      title={`Connect to ${contact.lastPeerId}`}
+                    >
+                      <Plug className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => startEditing(contact)}
+                    className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                    title="Rename"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onRemove(contact)}
+                    className="text-gray-400 hover:text-red-500"
+                    title="Remove contact"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
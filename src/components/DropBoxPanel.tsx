@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { Inbox } from 'lucide-react';
+import { DropBoxRules } from '../lib/dropBox';
+
+interface DropBoxPanelProps {
+  rules: DropBoxRules;
+  onChange: (rules: DropBoxRules) => void;
+}
+
+const MB = 1024 * 1024;
+
+const toMegabytes = (bytes?: number) => bytes === undefined ? '' : String(bytes / MB);
+
+// Empty means no limit
+const fromMegabytes = (value: string) => value.trim() === '' || !(Number(value) >= 0) ? undefined : Number(value) * MB;
+
+const inputClassName = 'rounded-md border-gray-300 dark:border-gray-600 text-sm dark:bg-gray-700 dark:text-white placeholder-gray-500 dark:placeholder-gray-400';
+const checkboxClassName = 'rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500';
+
+export const DropBoxPanel: React.FC<DropBoxPanelProps> = ({ rules, onChange }) => {
+  // Typed as a list, applied when the field loses focus
+  const [allowedTypes, setAllowedTypes] = useState(rules.allowedTypes.join(', '));
+
+  useEffect(() => {
+    setAllowedTypes(rules.allowedTypes.join(', '));
+  }, [rules.allowedTypes]);
+
+  const update = (changes: Partial<DropBoxRules>) => onChange({ ...rules, ...changes });
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 mb-6">
+      <div className="flex items-center justify-between mb-2 gap-2">
+        <h2 className="flex items-center text-lg font-medium text-gray-900 dark:text-white">
+          <Inbox className="w-5 h-5 mr-2" />
+          Drop Box
+        </h2>
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={rules.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className={checkboxClassName}
+          />
+          On
+        </label>
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Accept or reject incoming files by these rules instead of asking. Rejected senders are told why.
+        Passphrase-encrypted files are always rejected, since nobody is there to enter the passphrase.
+      </p>
+
+      <div className={`space-y-3 ${rules.enabled ? '' : 'opacity-50'}`}>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={rules.acceptVerifiedContacts}
+            onChange={(e) => update({ acceptVerifiedContacts: e.target.checked })}
+            className={checkboxClassName}
+          />
+          Accept everything from verified contacts
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={rules.acceptOthers}
+            onChange={(e) => update({ acceptOthers: e.target.checked })}
+            className={checkboxClassName}
+          />
+          Accept files from anyone else that match these rules
+        </label>
+
+        <div className={`grid grid-cols-1 sm:grid-cols-3 gap-3 ${rules.acceptOthers ? '' : 'opacity-50'}`}>
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+            Largest file (MB)
+            <input
+              type="number"
+              min={0}
+              value={toMegabytes(rules.maxFileSize)}
+              onChange={(e) => update({ maxFileSize: fromMegabytes(e.target.value) })}
+              placeholder="No limit"
+              className={`mt-1 w-full ${inputClassName}`}
+            />
+          </label>
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+            Per peer (MB)
+            <input
+              type="number"
+              min={0}
+              value={toMegabytes(rules.peerQuota)}
+              onChange={(e) => update({ peerQuota: fromMegabytes(e.target.value) })}
+              placeholder="No limit"
+              className={`mt-1 w-full ${inputClassName}`}
+            />
+          </label>
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+            Allowed types
+            <input
+              type="text"
+              value={allowedTypes}
+              onChange={(e) => setAllowedTypes(e.target.value)}
+              onBlur={() => update({ allowedTypes: allowedTypes.split(/[\s,]+/).filter(Boolean) })}
+              placeholder="Any, or e.g. image/*, .pdf"
+              className={`mt-1 w-full ${inputClassName}`}
+            />
+          </label>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          The per-peer limit counts files accepted from each peer since the app was opened.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { KeyRound, Lock } from 'lucide-react';
+import { EncryptionMode } from '../types';
+
+interface EncryptionIconProps {
+  mode?: EncryptionMode;
+}
+
+export const EncryptionIcon: React.FC<EncryptionIconProps> = ({ mode }) => {
+  if (mode === 'ecdh') {
+    return (
+      <div title="End-to-end encrypted with a key exchange" className="flex-shrink-0">
+        <Lock className="w-4 h-4 text-green-500" />
+      </div>
+    );
+  }
+  if (mode === 'passphrase') {
+    return (
+      <div title="Encrypted with a shared passphrase" className="flex-shrink-0">
+        <KeyRound className="w-4 h-4 text-blue-500" />
+      </div>
+    );
+  }
+  return null;
+};
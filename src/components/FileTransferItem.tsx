@@ -1,15 +1,37 @@
 import React from 'react';
-import { Download, CheckCircle, X, AlertCircle, Clock, Lock } from 'lucide-react';
-import { FileTransfer } from '../types';
-import { decryptFile, secureDecryptFile } from '../lib/encryption';
+import { Download, CheckCircle, X, AlertCircle, Clock, HardDrive, ShieldCheck, Pause, Play, RotateCcw } from 'lucide-react';
+import { FileTransfer, TransferErrorCode } from '../types';
+import { transferKey } from '../lib/transferEngine';
+import { EncryptionIcon } from './EncryptionIcon';
 
 interface FileTransferItemProps {
   transfer: FileTransfer;
-  transferTime?: { start: number, end?: number };
-  onCancel?: (fileId: string) => void;
+  transferTime?: { start: number, end?: number, pausedMs?: number };
+  // Callbacks get the transfer's key, see transferKey
+  onCancel?: (key: string) => void;
+  onPause?: (key: string) => void; // Only given when the peer supports pausing
+  onResume?: (key: string) => void;
+  selected?: boolean;
+  onSelect?: (key: string, selected: boolean) => void; // Shown for completed files that can be zipped
+  onRetry?: (key: string) => void; // Only given for failed sends worth offering again
 }
 
-export const FileTransferItem: React.FC<FileTransferItemProps> = ({ transfer, transferTime, onCancel }) => {
+const ERROR_TEXT: Record<TransferErrorCode, string> = {
+  'declined': 'Declined by the receiver',
+  'too-large': 'Too large for the receiver',
+  'type-not-allowed': 'File type not allowed',
+  'quota-exceeded': 'Over the receiver\'s limit for this peer',
+  'unsupported': 'Encryption not supported',
+  'key-missing': 'Encryption key missing',
+  'decrypt-failed': 'Could not be decrypted',
+  'hash-mismatch': 'Checksum did not match',
+  'disk-full': 'Disk full',
+  'timeout': 'Timed out',
+  'connection-lost': 'Connection lost',
+  'failed': 'Failed'
+};
+
+export const FileTransferItem: React.FC<FileTransferItemProps> = ({ transfer, transferTime, onCancel, onPause, onResume, selected, onSelect, onRetry }) => {
   const formatSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -18,6 +40,8 @@ export const FileTransferItem: React.FC<FileTransferItemProps> = ({ transfer, tr
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  const key = transferKey(transfer.peerId, transfer.id);
+
   const getStatusIcon = () => {
     switch (transfer.status) {
       case 'completed':
@@ -32,71 +56,21 @@ export const FileTransferItem: React.FC<FileTransferItemProps> = ({ transfer, tr
     }
   };
 
-  const handleDownload = async () => {
-    if (!transfer.blob || !transfer.iv) {
-      console.error('Cannot download: missing blob or IV', {
-        hasBlob: !!transfer.blob,
-        hasIv: !!transfer.iv
-      });
+  const handleDownload = () => {
+    if (!transfer.blob) {
+      console.error('Cannot download: missing blob');
       return;
     }
 
-    try {
-      console.log('Starting download for file:', transfer.name, {
-        id: transfer.id,
-        secure: transfer.secure,
-        hasSessionId: !!transfer.sessionId,
-        hasKey: !!transfer.key,
-        ivLength: transfer.iv.length,
-        blobSize: transfer.blob.size
-      });
-
-      let decryptedBlob;
-
-      // Use the appropriate decryption method based on whether this is a secure transfer
-      if (transfer.secure && transfer.sessionId) {
-        console.log(`Using secure decryption with sessionId: ${transfer.sessionId}`);
-        // Secure decryption using pre-exchanged key
-        decryptedBlob = await secureDecryptFile(
-          transfer.blob,
-          transfer.sessionId,
-          transfer.iv,
-          transfer.type
-        );
-      } else if (transfer.key) {
-        console.log('Using legacy decryption with key');
-        // Legacy decryption
-        decryptedBlob = await decryptFile(
-          transfer.blob,
-          transfer.key,
-          transfer.iv,
-          transfer.type
-        );
-      } else {
-        console.error('Missing encryption information', {
-          secure: transfer.secure,
-          hasSessionId: !!transfer.sessionId,
-          hasKey: !!transfer.key
-        });
-        throw new Error('Missing encryption information');
-      }
-
-      console.log(`Successfully decrypted file: ${transfer.name}`);
-
-      // Create download link
-      const url = URL.createObjectURL(decryptedBlob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = transfer.name;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    } catch (error) {
-      console.error('Error decrypting file:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      alert(`Failed to decrypt file: ${errorMessage}`);
-    }
+    // Chunks are decrypted as they arrive, so the blob is already plaintext
+    const url = URL.createObjectURL(transfer.blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = transfer.name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   };
 
   const formatTransferTime = () => {
@@ -108,10 +82,13 @@ export const FileTransferItem: React.FC<FileTransferItemProps> = ({ transfer, tr
         return 'Calculating time...';
       }
       return transfer.status === 'pending' ? 'Waiting to start...' :
+             transfer.status === 'paused' ? 'Paused' :
+             transfer.status === 'interrupted' ? 'Connection lost, will resume when the peer reconnects' :
              transfer.status === 'cancelled' ? 'Cancelled' : 'In progress';
     }
 
-    const durationMs = transferTime.end - transferTime.start;
+    // Time spent paused does not count
+    const durationMs = Math.max(0, transferTime.end - transferTime.start - (transferTime.pausedMs ?? 0));
     if (durationMs < 1000) return `${durationMs}ms`;
 
     const seconds = Math.floor(durationMs / 1000);
@@ -145,21 +122,57 @@ export const FileTransferItem: React.FC<FileTransferItemProps> = ({ transfer, tr
       <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-2 gap-2">
         <div>
           <div className="flex items-center gap-2">
-            <p className="font-medium text-gray-900 dark:text-white break-all">{transfer.name}</p>
+            {onSelect && transfer.status === 'completed' && transfer.blob && (
+              <input
+                type="checkbox"
+                checked={!!selected}
+                onChange={(e) => onSelect(key, e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 flex-shrink-0"
+                title="Select for a zip download"
+              />
+            )}
+            <p className="font-medium text-gray-900 dark:text-white break-all">{transfer.relativePath ?? transfer.name}</p>
             {getStatusIcon()}
-            {transfer.secure && (
-              <div title="Secure transfer with end-to-end encryption" className="flex-shrink-0">
-                <Lock className="w-4 h-4 text-green-500" />
-              </div>
+            <EncryptionIcon mode={transfer.encryption} />
+            {transfer.verified && (
+              <span
+                title={`Verified: SHA-256 of the received file matches the sender's (${transfer.sha256})`}
+                className="inline-flex items-center text-xs font-medium text-green-700 dark:text-green-400 flex-shrink-0"
+              >
+                <ShieldCheck className="w-4 h-4 mr-0.5" />
+                Verified
+              </span>
+            )}
+            {transfer.verified === false && (
+              <span
+                title="The received file does not match the sender's SHA-256 digest"
+                className="text-xs font-medium text-red-600 dark:text-red-400 flex-shrink-0"
+              >
+                Checksum mismatch
+              </span>
             )}
           </div>
-          <p className="text-sm text-gray-500 dark:text-gray-400">{formatSize(transfer.size)}</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400 break-all">
+            {formatSize(transfer.size)}
+            {transfer.peerId && (
+              <span>
+                {transfer.direction === 'send' ? ' to ' : ' from '}
+                {transfer.peerId}
+              </span>
+            )}
+          </p>
           <p className={`text-xs flex items-center mt-1 ${transfer.status === 'transferring' && transfer.estimatedTimeRemaining ? 'text-blue-600 dark:text-blue-400 font-medium' : 'text-gray-500 dark:text-gray-400'}`}>
             <Clock className="w-3 h-3 mr-1 flex-shrink-0" />
             {formatTransferTime()}
           </p>
         </div>
         <div className="flex items-center gap-2 mt-2 sm:mt-0">
+          {transfer.status === 'completed' && transfer.savedToDisk && (
+            <span className="inline-flex items-center text-sm text-gray-500 dark:text-gray-400">
+              <HardDrive className="w-4 h-4 mr-1" />
+              Saved to disk
+            </span>
+          )}
           {transfer.status === 'completed' && transfer.blob && (
             <button
               onClick={handleDownload}
@@ -169,9 +182,36 @@ export const FileTransferItem: React.FC<FileTransferItemProps> = ({ transfer, tr
               Download
             </button>
           )}
-          {(transfer.status === 'pending' || transfer.status === 'transferring') && onCancel && (
+          {transfer.status === 'transferring' && onPause && (
             <button
-              onClick={() => onCancel(transfer.id)}
+              onClick={() => onPause(key)}
+              className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              <Pause className="w-4 h-4 mr-1" />
+              Pause
+            </button>
+          )}
+          {transfer.status === 'paused' && onResume && (
+            <button
+              onClick={() => onResume(key)}
+              className="inline-flex items-center px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Play className="w-4 h-4 mr-1" />
+              Resume
+            </button>
+          )}
+          {(transfer.status === 'error' || transfer.status === 'rejected') && onRetry && (
+            <button
+              onClick={() => onRetry(key)}
+              className="inline-flex items-center px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Retry
+            </button>
+          )}
+          {(transfer.status === 'pending' || transfer.status === 'transferring' || transfer.status === 'paused') && onCancel && (
+            <button
+              onClick={() => onCancel(key)}
               className="inline-flex items-center px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700"
             >
               <X className="w-4 h-4 mr-1" />
@@ -185,11 +225,19 @@ export const FileTransferItem: React.FC<FileTransferItemProps> = ({ transfer, tr
           <div>
             <span className={`text-xs font-semibold inline-block ${transfer.status === 'cancelled' ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'}`}>
               {transfer.status === 'transferring' ? 'Transferring' :
+               transfer.status === 'paused' ? 'Paused' :
                transfer.status === 'completed' ? 'Completed' :
                transfer.status === 'rejected' ? 'Rejected' :
                transfer.status === 'cancelled' ? 'Cancelled' :
+               transfer.status === 'interrupted' ? 'Interrupted' :
                transfer.status === 'error' ? 'Error' : 'Pending'}
             </span>
+            {transfer.errorReason && (
+              <span className="ml-2 text-xs text-gray-500 dark:text-gray-400" title={transfer.errorReason.code}>
+                {ERROR_TEXT[transfer.errorReason.code]}
+                {transfer.errorReason.message && `: ${transfer.errorReason.message}`}
+              </span>
+            )}
           </div>
           <div className="text-right">
             <span className="text-xs font-semibold inline-block text-blue-600 dark:text-blue-400">
@@ -205,6 +253,8 @@ export const FileTransferItem: React.FC<FileTransferItemProps> = ({ transfer, tr
               transfer.status === 'error' ? 'bg-red-500' :
               transfer.status === 'rejected' ? 'bg-red-500' :
               transfer.status === 'cancelled' ? 'bg-red-500' :
+              transfer.status === 'interrupted' ? 'bg-yellow-500' :
+              transfer.status === 'paused' ? 'bg-yellow-500' :
               'bg-blue-500'
             }`}
           />
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, CheckCircle, Folder, FileArchive, X } from 'lucide-react';
+import { FileTransfer, TransferGroup, TransferTime } from '../types';
+import { transferKey } from '../lib/transferEngine';
+import { FileTransferItem } from './FileTransferItem';
+
+interface FolderTransferItemProps {
+  group: TransferGroup;
+  transfers: FileTransfer[];
+  // Times, selection and callbacks use transfer keys, see transferKey
+  transferTimes: { [key: string]: TransferTime };
+  onCancel?: (key: string) => void;
+  onPause?: (key: string) => void;
+  onResume?: (key: string) => void;
+  selectedIds?: Set<string>;
+  onSelect?: (key: string, selected: boolean) => void;
+  onDownloadZip?: (group: TransferGroup, transfers: FileTransfer[]) => void;
+  canRetry?: (key: string) => boolean;
+  onRetry?: (key: string) => void;
+}
+
+export const FolderTransferItem: React.FC<FolderTransferItemProps> = ({
+  group,
+  transfers,
+  transferTimes,
+  onCancel,
+  onPause,
+  onResume,
+  selectedIds,
+  onSelect,
+  onDownloadZip,
+  canRetry,
+  onRetry
+}) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const formatSize = (bytes: number) => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  // Files that have not started yet count as 0%
+  const bytesDone = transfers.reduce((sum, t) => sum + t.size * t.progress / 100, 0);
+  const progress = group.totalSize > 0
+    ? Math.round(bytesDone * 100 / group.totalSize)
+    : Math.round(transfers.filter(t => t.status === 'completed').length * 100 / Math.max(1, group.fileCount));
+  const completedCount = transfers.filter(t => t.status === 'completed').length;
+  const failedCount = transfers.filter(t => t.status === 'error' || t.status === 'rejected' || t.status === 'cancelled').length;
+  const activeTransfers = transfers.filter(t => t.status === 'pending' || t.status === 'transferring' || t.status === 'paused');
+  const isComplete = completedCount === group.fileCount;
+  // Files saved straight to disk have no blob to put in a zip
+  const downloadable = transfers.filter(t => t.status === 'completed' && t.blob);
+  const peer = transfers[0];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-2 gap-2">
+        <div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setExpanded(!expanded)}
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+              title={expanded ? 'Hide files' : 'Show files'}
+            >
+              {expanded ? <ChevronDown className="w-5 h-5" /> : <ChevronRight className="w-5 h-5" />}
+            </button>
+            <Folder className="w-5 h-5 text-blue-500 flex-shrink-0" />
+            <p className="font-medium text-gray-900 dark:text-white break-all">{group.name}</p>
+            {isComplete && <CheckCircle className="w-5 h-5 text-green-500" />}
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 break-all">
+            {completedCount} of {group.fileCount} files, {formatSize(group.totalSize)}
+            {peer?.peerId && (
+              <span>
+                {peer.direction === 'send' ? ' to ' : ' from '}
+                {peer.peerId}
+              </span>
+            )}
+          </p>
+          {failedCount > 0 && (
+            <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+              {failedCount} {failedCount === 1 ? 'file' : 'files'} not transferred
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2 mt-2 sm:mt-0">
+          {downloadable.length > 0 && onDownloadZip && (
+            <button
+              onClick={() => onDownloadZip(group, downloadable)}
+              className="inline-flex items-center px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <FileArchive className="w-4 h-4 mr-1" />
+              Download as .zip
+            </button>
+          )}
+          {activeTransfers.length > 0 && onCancel && (
+            <button
+              onClick={() => activeTransfers.forEach(t => onCancel(transferKey(t.peerId, t.id)))}
+              className="inline-flex items-center px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="relative pt-1">
+        <div className="flex mb-2 items-center justify-between">
+          <span className="text-xs font-semibold inline-block text-blue-600 dark:text-blue-400">
+            {isComplete ? 'Completed' : activeTransfers.length > 0 ? 'Transferring' : 'Pending'}
+          </span>
+          <span className="text-xs font-semibold inline-block text-blue-600 dark:text-blue-400">
+            {progress}%
+          </span>
+        </div>
+        <div className="overflow-hidden h-2 mb-2 text-xs flex rounded bg-blue-200 dark:bg-blue-900">
+          <div
+            style={{ width: `${progress}%` }}
+            className={`shadow-none flex flex-col ${isComplete ? 'bg-green-500' : 'bg-blue-500'}`}
+          />
+        </div>
+      </div>
+      {expanded && (
+        <div className="space-y-2 mt-2 pl-4 border-l-2 border-gray-200 dark:border-gray-700">
+          {transfers.map(transfer => {
+            const key = transferKey(transfer.peerId, transfer.id);
+            return (
+              <FileTransferItem
+                key={key}
+                transfer={transfer}
+                transferTime={transferTimes[key]}
+                onCancel={onCancel}
+                onPause={onPause}
+                onResume={onResume}
+                selected={selectedIds?.has(key)}
+                onSelect={onSelect}
+                onRetry={canRetry?.(key) ? onRetry : undefined}
+              />
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
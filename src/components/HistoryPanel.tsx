@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { ArrowDownLeft, ArrowUpRight, Download, FileJson, History, Search, Trash2, X } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { HISTORY_BLOB_QUOTAS } from '../lib/history';
+import { EncryptionIcon } from './EncryptionIcon';
+
+type DirectionFilter = 'all' | HistoryEntry['direction'];
+type StatusFilter = 'all' | 'completed' | 'failed';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[]; // Newest first
+  blobQuota: number;
+  formatSize: (bytes: number) => string;
+  onBlobQuotaChange: (bytes: number) => void;
+  onDownload: (entry: HistoryEntry) => void; // Only for entries whose file was kept
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onExport: () => void;
+}
+
+const formatDuration = (durationMs: number) => {
+  if (durationMs < 1000) return `${durationMs}ms`;
+  const seconds = Math.floor(durationMs / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const STATUS_TEXT: Record<HistoryEntry['status'], string> = {
+  completed: 'Completed',
+  error: 'Failed',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled'
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries,
+  blobQuota,
+  formatSize,
+  onBlobQuotaChange,
+  onDownload,
+  onRemove,
+  onClear,
+  onExport
+}) => {
+  const [query, setQuery] = useState('');
+  const [direction, setDirection] = useState<DirectionFilter>('all');
+  const [status, setStatus] = useState<StatusFilter>('all');
+
+  // Matches the file name or path, the peer ID, the contact name or the hash
+  const search = query.trim().toLowerCase();
+  const visible = entries.filter(entry =>
+    (direction === 'all' || entry.direction === direction) &&
+    (status === 'all' || (status === 'completed') === (entry.status === 'completed')) &&
+    (!search || [entry.relativePath ?? entry.name, entry.peerId, entry.peerName, entry.sha256]
+      .some(value => value?.toLowerCase().includes(search))));
+
+  const selectClassName = 'rounded-md border-gray-300 dark:border-gray-600 py-1 text-sm dark:bg-gray-700 dark:text-white focus:border-blue-500 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 mb-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 gap-2">
+        <h2 className="flex items-center text-lg font-medium text-gray-900 dark:text-white">
+          <History className="w-5 h-5 mr-2" />
+          History
+        </h2>
+        {entries.length > 0 && (
+          <div className="flex gap-2">
+            <button
+              onClick={onExport}
+              className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              <FileJson className="w-4 h-4 mr-1" />
+              Export
+            </button>
+            <button
+              onClick={onClear}
+              className="inline-flex items-center px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Clear
+            </button>
+          </div>
+        )}
+      </div>
+
+      <label className="flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-700 dark:text-gray-300">
+        Keep received files for downloading again
+        <select
+          value={blobQuota}
+          onChange={(e) => onBlobQuotaChange(Number(e.target.value))}
+          className={selectClassName}
+        >
+          {HISTORY_BLOB_QUOTAS.map(quota => (
+            <option key={quota} value={quota}>{quota === 0 ? 'Off' : `Up to ${formatSize(quota)}`}</option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500 dark:text-gray-400">The oldest kept files are dropped first; files saved to disk are not kept</span>
+      </label>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Finished transfers will be listed here</p>
+      ) : (
+        <>
+          <div className="flex flex-col sm:flex-row gap-2 mb-4">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search by file, peer or hash"
+                className="w-full pl-8 rounded-md border-gray-300 dark:border-gray-600 text-sm dark:bg-gray-700 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+              />
+            </div>
+            <select
+              value={direction}
+              onChange={(e) => setDirection(e.target.value as DirectionFilter)}
+              className={selectClassName}
+            >
+              <option value="all">Sent and received</option>
+              <option value="send">Sent</option>
+              <option value="receive">Received</option>
+            </select>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as StatusFilter)}
+              className={selectClassName}
+            >
+              <option value="all">Any outcome</option>
+              <option value="completed">Completed</option>
+              <option value="failed">Not completed</option>
+            </select>
+          </div>
+
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {visible.map(entry => (
+              <div
+                key={entry.id}
+                className="flex items-center justify-between gap-3 p-3 bg-gray-50 dark:bg-gray-900 rounded-md"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-1">
+                    {entry.direction === 'send'
+                      ? <ArrowUpRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      : <ArrowDownLeft className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                    <span className="text-sm font-medium text-gray-900 dark:text-gray-100 break-all">
+                      {entry.relativePath ?? entry.name}
+                    </span>
+                    <EncryptionIcon mode={entry.encryption} />
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 break-all">
+                    {formatSize(entry.size)}
+                    {entry.direction === 'send' ? ' to ' : ' from '}
+                    {entry.peerName ? `${entry.peerName} (${entry.peerId})` : entry.peerId}
+                    {' · '}
+                    {new Date(entry.finishedAt).toLocaleString()}
+                    {entry.durationMs !== undefined && ` · ${formatDuration(entry.durationMs)}`}
+                  </p>
+                  {entry.sha256 && (
+                    <p
+                      className="text-xs text-gray-400 dark:text-gray-500 font-mono truncate"
+                      title={entry.verified ? 'SHA-256, verified by the receiver' : 'SHA-256'}
+                    >
+                      {entry.sha256}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <span className={`text-xs font-medium ${entry.status === 'completed' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {STATUS_TEXT[entry.status]}
+                  </span>
+                  {entry.retained && (
+                    <button
+                      onClick={() => onDownload(entry)}
+                      className="text-gray-400 hover:text-blue-500 dark:hover:text-blue-400"
+                      title="Download again"
+                    >
+                      <Download className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onRemove(entry.id)}
+                    className="text-gray-400 hover:text-red-500"
+                    title="Remove from history"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+            {visible.length === 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No transfers match</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, AlertTriangle, Layers, RefreshCw, ShieldAlert, ShieldCheck, ShieldX, Unplug, X } from 'lucide-react';
+import { ConnectionPhase, PeerConnection } from '../types';
+
+interface PeerListProps {
+  peers: PeerConnection[];
+  onReconnect: (peerId: string) => void;
+  onDisconnect: (peerId: string) => void;
+  onRemove: (peerId: string) => void;
+  onVerify: (peerId: string) => void;
+}
+
+const PHASE_TEXT: Record<ConnectionPhase, string> = {
+  connecting: 'Connecting',
+  'ice-checking': 'Finding a network path',
+  'ice-connected': 'Network path found',
+  open: 'Connected',
+  degraded: 'Connection degraded',
+  recovered: 'Connection recovered',
+  lost: 'Connection lost',
+  reconnecting: 'Reconnecting',
+  disconnected: 'Disconnected'
+};
+
+export const PeerList: React.FC<PeerListProps> = ({ peers, onReconnect, onDisconnect, onRemove, onVerify }) => {
+  // Peer whose connection timeline is shown
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick the reconnect countdowns
+  const waiting = peers.some(peer => peer.reconnectAt);
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
+  const formatSpeed = (speed: number) => {
+    const k = 1024;
+    const sizes = ['B/s', 'KB/s', 'MB/s', 'GB/s'];
+    const i = Math.floor(Math.log(speed) / Math.log(k));
+    return parseFloat((speed / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const getStatusColor = (peer: PeerConnection) => {
+    if (peer.status === 'connecting') return 'bg-blue-500 animate-pulse';
+    if (peer.reconnectAt) return 'bg-orange-500 animate-pulse';
+    if (peer.status === 'disconnected') return 'bg-gray-400';
+    if (peer.degraded) return 'bg-orange-500';
+    return peer.quality === 'good' ? 'bg-green-500' :
+           peer.quality === 'fair' ? 'bg-yellow-500' :
+           'bg-red-500';
+  };
+
+  const getStatusText = (peer: PeerConnection) => {
+    switch (peer.status) {
+      case 'connecting':
+        return peer.reconnectAttempt ? `Reconnecting (attempt ${peer.reconnectAttempt})...` : 'Connecting...';
+      case 'disconnected':
+        return peer.reconnectAt
+          ? `Reconnecting in ${Math.max(0, Math.ceil((peer.reconnectAt - now) / 1000))}s`
+          : 'Disconnected';
+      default:
+        if (peer.degraded) return 'Degraded';
+        return peer.speed > 0 ? formatSpeed(peer.speed) : 'Connected';
+    }
+  };
+
+  // e.g. "Relayed · 120 ms"
+  const getRouteText = (peer: PeerConnection) => {
+    if (peer.status !== 'connected') return undefined;
+    const parts = [
+      peer.route === 'relayed' ? 'Relayed' : peer.route === 'direct' ? 'Direct' : undefined,
+      peer.rtt !== undefined ? `${Math.round(peer.rtt)} ms` : undefined
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : undefined;
+  };
+
+  if (peers.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-2">
+      {peers.map(peer => (
+        <div key={peer.id} className="p-3 bg-gray-50 dark:bg-gray-900 rounded-md">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2 min-w-0">
+              <span className={`inline-block w-2 h-2 rounded-full flex-shrink-0 ${getStatusColor(peer)}`}></span>
+              <div className="min-w-0">
+                {peer.contactName && (
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100 break-all">{peer.contactName}</p>
+                )}
+                <p className={`font-mono break-all ${peer.contactName ? 'text-xs text-gray-500 dark:text-gray-400' : 'text-sm text-gray-900 dark:text-gray-100'}`}>
+                  {peer.id}
+                </p>
+                {peer.keyMismatch && (
+                  <p className="inline-flex items-center text-xs text-red-600 dark:text-red-400">
+                    <ShieldX className="w-3 h-3 mr-1 flex-shrink-0" />
+                    Identity key does not match the invite link; disconnected
+                  </p>
+                )}
+                {peer.incompatible && (
+                  <p className="inline-flex items-center text-xs text-red-600 dark:text-red-400">
+                    <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+                    {peer.incompatible}
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <span className="text-sm text-gray-500 dark:text-gray-400">{getStatusText(peer)}</span>
+              {getRouteText(peer) && (
+                <span
+                  className={`text-xs ${peer.route === 'relayed' ? 'text-yellow-700 dark:text-yellow-400' : 'text-gray-500 dark:text-gray-400'}`}
+                  title={peer.route === 'relayed' ? 'Traffic goes through a TURN server, which may be slower' : 'Round trip time'}
+                >
+                  {getRouteText(peer)}
+                </span>
+              )}
+              {peer.status === 'connected' && peer.laneSpeeds && peer.laneSpeeds.length > 1 && (
+                <span
+                  className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400"
+                  title={peer.laneSpeeds
+                    .map((speed, index) => `Channel ${index + 1}: ${speed > 0 ? formatSpeed(speed) : 'idle'}`)
+                    .join('\n')}
+                >
+                  <Layers className="w-3 h-3 mr-1" />
+                  {peer.laneSpeeds.length}
+                </span>
+              )}
+              {peer.status === 'connected' && !peer.incompatible && (peer.keyChanged ? (
+                <button
+                  onClick={() => onVerify(peer.id)}
+                  className="inline-flex items-center text-xs font-bold text-red-600 dark:text-red-400 hover:underline"
+                  title="This peer ID used to belong to a different identity key"
+                >
+                  <ShieldX className="w-4 h-4 mr-1" />
+                  Identity key changed
+                </button>
+              ) : peer.verified ? (
+                <button
+                  onClick={() => onVerify(peer.id)}
+                  className="text-green-600 dark:text-green-400"
+                  title="Safety number verified"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                </button>
+              ) : (
+                <button
+                  onClick={() => onVerify(peer.id)}
+                  className="inline-flex items-center text-xs font-medium text-yellow-700 dark:text-yellow-400 hover:underline"
+                  title="Compare safety numbers to make sure nobody is intercepting the connection"
+                >
+                  <ShieldAlert className="w-4 h-4 mr-1" />
+                  Verify
+                </button>
+              ))}
+              {peer.status === 'disconnected' ? (
+                <button
+                  onClick={() => onReconnect(peer.id)}
+                  className="text-gray-400 hover:text-blue-500 dark:hover:text-blue-400"
+                  title="Reconnect"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+              ) : (
+                <button
+                  onClick={() => onDisconnect(peer.id)}
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  title="Disconnect"
+                >
+                  <Unplug className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                onClick={() => setExpanded(expanded === peer.id ? null : peer.id)}
+                className={expanded === peer.id ? 'text-blue-500 dark:text-blue-400' : 'text-gray-400 hover:text-gray-600 dark:hover:text-gray-300'}
+                title="Connection timeline"
+              >
+                <Activity className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onRemove(peer.id)}
+                className="text-gray-400 hover:text-red-500"
+                title="Disconnect and remove from the list"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          {expanded === peer.id && (
+            <ol className="mt-2 pl-4 space-y-1 border-l border-gray-200 dark:border-gray-700">
+              {peer.timeline.map((event, index) => (
+                <li key={index} className="text-xs text-gray-500 dark:text-gray-400">
+                  <span className="font-mono">{new Date(event.at).toLocaleTimeString()}</span>
+                  {' '}
+                  <span className="font-medium text-gray-700 dark:text-gray-300">{PHASE_TEXT[event.phase]}</span>
+                  {event.detail && ` · ${event.detail}`}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
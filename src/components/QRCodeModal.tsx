@@ -1,16 +1,27 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
-import { X, QrCode } from 'lucide-react';
+import { X, QrCode, Copy, CheckCircle } from 'lucide-react';
+import { Invite, toInviteLink } from '../lib/invite';
 
 interface QRCodeModalProps {
   isOpen: boolean;
   onClose: () => void;
-  peerId: string;
+  invite: Invite | null;
   onScan: () => void;
 }
 
-export const QRCodeModal: React.FC<QRCodeModalProps> = ({ isOpen, onClose, peerId, onScan }) => {
-  if (!isOpen) return null;
+export const QRCodeModal: React.FC<QRCodeModalProps> = ({ isOpen, onClose, invite, onScan }) => {
+  const [copied, setCopied] = useState(false);
+
+  if (!isOpen || !invite) return null;
+
+  const link = toInviteLink(invite);
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(link);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -28,7 +39,7 @@ export const QRCodeModal: React.FC<QRCodeModalProps> = ({ isOpen, onClose, peerI
         <div className="flex flex-col items-center space-y-4">
           <div className="bg-white p-4 rounded-lg">
             <QRCodeSVG
-              value={peerId}
+              value={link}
               size={200}
               level="H"
               includeMargin={true}
@@ -37,9 +48,22 @@ export const QRCodeModal: React.FC<QRCodeModalProps> = ({ isOpen, onClose, peerI
           </div>
           
           <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
-            Scan this QR code to get the Peer ID
+            Scan this QR code or open the invite link to connect
+            {invite.expiresAt && ` (valid until ${new Date(invite.expiresAt).toLocaleTimeString()})`}
           </p>
 
+          <button
+            onClick={copyLink}
+            className="w-full inline-flex items-center justify-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            {copied ? (
+              <CheckCircle className="w-5 h-5 mr-2 text-green-500" />
+            ) : (
+              <Copy className="w-5 h-5 mr-2 text-gray-500 dark:text-gray-400" />
+            )}
+            {copied ? 'Copied!' : 'Copy invite link'}
+          </button>
+
           <button
             onClick={onScan}
             className="w-full inline-flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
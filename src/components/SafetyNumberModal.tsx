@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { X, ShieldCheck, ShieldX, UserPlus } from 'lucide-react';
+import { PeerConnection } from '../types';
+import { formatFingerprint } from '../lib/identity';
+
+interface SafetyNumberModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  peer?: PeerConnection;
+  onSave: (peerId: string, nickname: string, verified: boolean) => void;
+}
+
+export const SafetyNumberModal: React.FC<SafetyNumberModalProps> = ({ isOpen, onClose, peer, onSave }) => {
+  const [nickname, setNickname] = useState('');
+
+  // Start from the saved name whenever a different peer is opened
+  useEffect(() => {
+    setNickname(peer?.contactName ?? '');
+  }, [peer?.id, peer?.contactName]);
+
+  if (!isOpen || !peer) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-sm w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Verify Safety Number</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col items-center space-y-4">
+          {peer.keyChanged && (
+            <div className="w-full flex items-start gap-2 p-3 rounded-md bg-red-50 dark:bg-red-900/30 text-sm text-red-700 dark:text-red-300">
+              <ShieldX className="w-5 h-5 flex-shrink-0" />
+              <span>
+                {peer.id} used to have a different identity key. Someone may be impersonating your contact;
+                only trust it again after comparing safety numbers.
+              </span>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center break-all">
+            Compare these numbers with {peer.contactName ?? peer.id} in person or over a call. If they match,
+            nobody is intercepting your connection.
+          </p>
+
+          {peer.safetyNumber ? (
+            <div className="grid grid-cols-3 gap-3 bg-gray-50 dark:bg-gray-900 p-4 rounded-lg font-mono text-lg text-gray-900 dark:text-gray-100">
+              {peer.safetyNumber.map((group, index) => (
+                <span key={index}>{group}</span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Waiting for the peer's key...</p>
+          )}
+
+          {peer.fingerprint && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Identity key <span className="font-mono">{formatFingerprint(peer.fingerprint)}</span>
+            </p>
+          )}
+
+          <input
+            type="text"
+            value={nickname}
+            onChange={(e) => setNickname(e.target.value)}
+            placeholder="Contact name"
+            disabled={!peer.fingerprint}
+            className="w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:bg-gray-700 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+          />
+
+          {peer.verified ? (
+            <p className="inline-flex items-center text-sm font-medium text-green-700 dark:text-green-400">
+              <ShieldCheck className="w-5 h-5 mr-1" />
+              Verified
+            </p>
+          ) : (
+            <button
+              onClick={() => onSave(peer.id, nickname, true)}
+              disabled={!peer.safetyNumber}
+              className="w-full inline-flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:bg-gray-400"
+            >
+              <ShieldCheck className="w-5 h-5 mr-2" />
+              Numbers match, verify and save
+            </button>
+          )}
+          <button
+            onClick={() => onSave(peer.id, nickname, !!peer.verified)}
+            disabled={!peer.fingerprint}
+            className="w-full inline-flex items-center justify-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <UserPlus className="w-5 h-5 mr-2" />
+            {peer.contactName ? 'Rename contact' : 'Save contact without verifying'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { GripVertical, Loader2, Pause, Play, X } from 'lucide-react';
+import { SendQueueItem } from '../lib/sendQueue';
+
+interface SendQueuePanelProps {
+  items: SendQueueItem[]; // Files not being sent yet, in queue order
+  waitingForResponse: Set<string>; // Files offered to their peer that have not been answered
+  connectedPeerIds: Set<string>;
+  formatSize: (bytes: number) => string;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, beforeId?: string) => void;
+}
+
+export const SendQueuePanel: React.FC<SendQueuePanelProps> = ({
+  items,
+  waitingForResponse,
+  connectedPeerIds,
+  formatSize,
+  onPause,
+  onResume,
+  onRemove,
+  onMove
+}) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  if (items.length === 0) return null;
+
+  const getStateText = (item: SendQueueItem) => {
+    if (waitingForResponse.has(item.id)) return 'Waiting for response...';
+    if (item.state === 'paused') return 'Paused';
+    return connectedPeerIds.has(item.peerId) ? 'Queued' : 'Waiting for peer to reconnect';
+  };
+
+  // Dropping on a file moves the dragged one in front of it; dropping below the list moves it to the end
+  const handleDrop = (e: React.DragEvent, beforeId?: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (draggedId) {
+      onMove(draggedId, beforeId);
+    }
+    setDraggedId(null);
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Send Queue</h3>
+      <div
+        className="space-y-2 pb-4"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => handleDrop(e)}
+      >
+        {items.map(item => {
+          const waiting = item.state === 'queued' || item.state === 'paused';
+          return (
+            <div
+              key={item.id}
+              draggable={waiting}
+              onDragStart={() => setDraggedId(item.id)}
+              onDragEnd={() => setDraggedId(null)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => handleDrop(e, item.id)}
+              className={`flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-900 rounded-md ${draggedId === item.id ? 'opacity-50' : ''}`}
+            >
+              <GripVertical
+                className={`w-4 h-4 flex-shrink-0 ${waiting ? 'text-gray-400 cursor-grab' : 'text-gray-200 dark:text-gray-700'}`}
+              />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-gray-900 dark:text-white break-all">
+                  {item.options.relativePath ?? item.file.name}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 break-all">
+                  {formatSize(item.file.size)} to {item.peerId}
+                </p>
+              </div>
+              <span className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                {waitingForResponse.has(item.id) && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                {getStateText(item)}
+              </span>
+              {item.state === 'queued' && (
+                <button
+                  onClick={() => onPause(item.id)}
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  title="Hold this file back"
+                >
+                  <Pause className="w-4 h-4" />
+                </button>
+              )}
+              {item.state === 'paused' && (
+                <button
+                  onClick={() => onResume(item.id)}
+                  className="text-gray-400 hover:text-blue-500 dark:hover:text-blue-400"
+                  title="Send this file when its turn comes"
+                >
+                  <Play className="w-4 h-4" />
+                </button>
+              )}
+              {waiting && (
+                <button
+                  onClick={() => onRemove(item.id)}
+                  className="text-gray-400 hover:text-red-500"
+                  title="Remove from the queue"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,277 @@
+/**
+ * Destinations for decrypted chunks of a received file.
+ *
+ * The transfer engine writes every chunk to a ChunkSink as soon as it has been
+ * decrypted. The in-memory sink keeps the old behaviour (a Blob once the file
+ * completes) and is fine for small files; the streaming sinks write straight to
+ * disk so large files never have to fit in memory.
+ */
+
+export interface ChunkSink {
+  // Sequential sinks can only append; the engine feeds them chunks in index order
+  readonly sequential: boolean;
+  // Set when writing to a file on disk that can be reopened to resume later
+  readonly fileHandle?: FileSystemFileHandle;
+  write(chunkIndex: number, offset: number, data: ArrayBuffer): Promise<void>;
+  // Resolves with the file contents if the sink kept them in memory
+  close(): Promise<Blob | undefined>;
+  abort(reason?: unknown): Promise<void>;
+}
+
+export function createMemorySink(type: string): ChunkSink {
+  let chunks: ArrayBuffer[] = [];
+
+  return {
+    sequential: false,
+    write: async (chunkIndex, _offset, data) => {
+      chunks[chunkIndex] = data;
+    },
+    close: async () => {
+      const blob = new Blob(chunks, { type: type || 'application/octet-stream' });
+      chunks = [];
+      return blob;
+    },
+    abort: async () => {
+      chunks = [];
+    }
+  };
+}
+
+/**
+ * Wrap a sequential sink so chunks may be written in any order. Out-of-order
+ * chunks are held until every earlier chunk has been written.
+ */
+export function createOrderedSink(inner: ChunkSink, firstChunk = 0): ChunkSink {
+  const waiting = new Map<number, { offset: number; data: ArrayBuffer }>();
+  let nextChunk = firstChunk;
+  let flushing: Promise<void> = Promise.resolve();
+
+  const flush = async () => {
+    while (waiting.has(nextChunk)) {
+      const { offset, data } = waiting.get(nextChunk)!;
+      waiting.delete(nextChunk);
+      await inner.write(nextChunk, offset, data);
+      nextChunk++;
+    }
+  };
+
+  return {
+    sequential: false,
+    write: (chunkIndex, offset, data) => {
+      if (chunkIndex < nextChunk) {
+        return Promise.resolve();
+      }
+      waiting.set(chunkIndex, { offset, data });
+      flushing = flushing.then(flush);
+      return flushing;
+    },
+    close: async () => {
+      await flushing;
+      if (waiting.size > 0) {
+        throw new Error(`Missing chunk ${nextChunk} before closing file`);
+      }
+      return inner.close();
+    },
+    abort: async (reason) => {
+      waiting.clear();
+      await inner.abort(reason);
+    }
+  };
+}
+
+// File System Access API (Chromium); not yet part of TypeScript's DOM typings
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+}
+
+interface WindowWithFilePicker {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+}
+
+interface FileHandleWithPermissions extends FileSystemFileHandle {
+  queryPermission?: (descriptor: { mode: 'readwrite' }) => Promise<PermissionState>;
+  requestPermission?: (descriptor: { mode: 'readwrite' }) => Promise<PermissionState>;
+}
+
+export function supportsFileSystemAccess(): boolean {
+  return typeof window !== 'undefined' &&
+    typeof (window as WindowWithFilePicker).showSaveFilePicker === 'function';
+}
+
+/**
+ * Ask the user where to save a file and write chunks directly into it.
+ * Must be called from a user gesture (e.g. the Accept click).
+ */
+export async function createFileSystemSink(fileName: string): Promise<ChunkSink> {
+  const picker = (window as WindowWithFilePicker).showSaveFilePicker;
+  if (!picker) {
+    throw new Error('File System Access API is not available');
+  }
+
+  const handle = await picker({ suggestedName: fileName });
+  return createFileHandleSink(handle);
+}
+
+/**
+ * Write chunks at their offsets into a file handle. Pass keepExistingData to
+ * reopen a partially written file when resuming; this asks for write
+ * permission again if needed, so call it from a user gesture.
+ */
+export async function createFileHandleSink(handle: FileSystemFileHandle, keepExistingData = false): Promise<ChunkSink> {
+  if (keepExistingData) {
+    const { queryPermission, requestPermission } = handle as FileHandleWithPermissions;
+    if (queryPermission && requestPermission &&
+        await queryPermission.call(handle, { mode: 'readwrite' }) !== 'granted' &&
+        await requestPermission.call(handle, { mode: 'readwrite' }) !== 'granted') {
+      throw new Error(`Permission to write ${handle.name} was denied`);
+    }
+  }
+
+  const writable = await handle.createWritable({ keepExistingData });
+  // Serialize writes, positioned writes must not interleave
+  let pending: Promise<void> = Promise.resolve();
+
+  return {
+    sequential: false,
+    fileHandle: handle,
+    write: (_chunkIndex, offset, data) => {
+      pending = pending.then(() => writable.write({ type: 'write', position: offset, data }));
+      return pending;
+    },
+    close: async () => {
+      await pending;
+      await writable.close();
+      return undefined;
+    },
+    abort: async (reason) => {
+      await pending.catch(() => undefined);
+      await writable.abort(reason);
+    }
+  };
+}
+
+const DOWNLOAD_WORKER_URL = '/download-sw.js';
+const DOWNLOAD_PATH_PREFIX = '/__download__/';
+
+export function supportsStreamingDownload(): boolean {
+  return typeof navigator !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    typeof window !== 'undefined' &&
+    window.isSecureContext;
+}
+
+let downloadWorker: Promise<ServiceWorker> | null = null;
+
+async function getDownloadWorker(): Promise<ServiceWorker> {
+  if (!downloadWorker) {
+    downloadWorker = (async () => {
+      await navigator.serviceWorker.register(DOWNLOAD_WORKER_URL);
+      const registration = await navigator.serviceWorker.ready;
+      if (!registration.active) {
+        throw new Error('Download service worker is not active');
+      }
+      return registration.active;
+    })();
+    downloadWorker.catch(() => {
+      downloadWorker = null;
+    });
+  }
+  return downloadWorker;
+}
+
+/**
+ * Stream a file to the browser's download manager through the download
+ * service worker. The worker answers a request for a one-off URL with a
+ * ReadableStream that is fed from this page over a MessageChannel. Each chunk
+ * is acknowledged once the stream has room for more, so a download manager that
+ * falls behind holds the transfer back instead of filling memory.
+ */
+export async function createStreamingDownloadSink(fileName: string, fileSize: number, type: string): Promise<ChunkSink> {
+  const worker = await getDownloadWorker();
+  const downloadId = Array.from(crypto.getRandomValues(new Uint8Array(8)), b => b.toString(16).padStart(2, '0')).join('');
+  const channel = new MessageChannel();
+
+  await new Promise<void>((resolve, reject) => {
+    channel.port1.onmessage = (event) => {
+      if (event.data?.type === 'registered') {
+        resolve();
+      } else {
+        reject(new Error('Download service worker rejected the download'));
+      }
+    };
+    worker.postMessage({
+      type: 'register-download',
+      downloadId,
+      fileName,
+      fileSize,
+      mimeType: type || 'application/octet-stream'
+    }, [channel.port2]);
+  });
+
+  // Navigating a hidden iframe triggers the download without leaving the page
+  const iframe = document.createElement('iframe');
+  iframe.hidden = true;
+  iframe.src = `${DOWNLOAD_PATH_PREFIX}${downloadId}`;
+  document.body.appendChild(iframe);
+
+  // The write waiting for the worker to take its chunk; writes come one at a time
+  let waitingForAck: { resolve: () => void; reject: (error: Error) => void } | undefined;
+  let failure: Error | undefined;
+  const settle = (error?: Error) => {
+    if (error) {
+      waitingForAck?.reject(error);
+    } else {
+      waitingForAck?.resolve();
+    }
+    waitingForAck = undefined;
+  };
+  channel.port1.onmessage = (event) => {
+    if (event.data?.type === 'ack') {
+      settle();
+    } else if (event.data?.type === 'cancelled') {
+      // Cancelled in the browser's download manager
+      failure = new Error('The download was cancelled');
+      settle(failure);
+    }
+  };
+
+  const cleanup = () => {
+    channel.port1.close();
+    // Give the browser time to hand the response over to the download manager
+    setTimeout(() => iframe.remove(), 60000);
+  };
+
+  return createOrderedSink({
+    sequential: true,
+    write: async (_chunkIndex, _offset, data) => {
+      if (failure) throw failure;
+      const acked = new Promise<void>((resolve, reject) => {
+        waitingForAck = { resolve, reject };
+      });
+      channel.port1.postMessage({ type: 'chunk', data }, [data]);
+      await acked;
+    },
+    close: async () => {
+      channel.port1.postMessage({ type: 'end' });
+      cleanup();
+      return undefined;
+    },
+    abort: async (reason) => {
+      channel.port1.postMessage({ type: 'abort', reason: String(reason ?? 'Transfer aborted') });
+      settle(new Error('Transfer aborted'));
+      cleanup();
+    }
+  });
+}
+
+// Pick the best available way to stream a file to disk, if any
+export async function createDiskSink(fileName: string, fileSize: number, type: string): Promise<ChunkSink> {
+  if (supportsFileSystemAccess()) {
+    return createFileSystemSink(fileName);
+  }
+  return createStreamingDownloadSink(fileName, fileSize, type);
+}
+
+export function supportsDiskSink(): boolean {
+  return supportsFileSystemAccess() || supportsStreamingDownload();
+}
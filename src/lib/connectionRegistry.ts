@@ -0,0 +1,448 @@
+/**
+ * Registry of peer connections keyed by peer ID.
+ *
+ * Each open channel gets its own TransferEngine. A new connection from a peer
+ * that is already connected replaces only that peer's previous connection, so
+ * several peers can be connected (and sent to) at once.
+ *
+ * Peers that agree to use several data channels get extra ones opened by the
+ * peer with the lower ID, through openLane; the app hands them back to attachLane.
+ *
+ * Peers are matched against saved contacts by identity key fingerprint, so a
+ * verified contact stays verified across connections and a known peer ID that
+ * shows up with a different key is flagged.
+ *
+ * Each peer keeps a timeline of what happened to its connection. When a
+ * connection is lost, rather than closed by the peer, the peer with the lower ID
+ * connects again through reconnect, waiting longer after each failed attempt.
+ *
+ * A peer ID can be pinned to an identity key fingerprint, e.g. from an invite
+ * link; a connection from that ID presenting any other key is closed.
+ */
+import { ConnectionEvent, ConnectionPhase, EncryptionMode, IceRoute, PeerConnection, PeerStatus } from '../types';
+import { ContactStore, createContactStore } from './contacts';
+import { createEmitter, Emitter } from './emitter';
+import { DeviceIdentity } from './identity';
+import { ResumeStore } from './resumeStore';
+import { TransferChannel } from './transferChannel';
+import { createTransferEngine, TransferEngine } from './transferEngine';
+import { DEGRADED_AFTER_MS, LOST_AFTER_MS } from './heartbeat';
+
+const MAX_TIMELINE_EVENTS = 50;
+const RECONNECT_BASE_DELAY_MS = 1000; // Doubles with every attempt
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+// How long a closed connection's last messages get to say it was closed on purpose
+const GOODBYE_WAIT_MS = 1000;
+
+export interface ConnectionRegistryEvents {
+  // Latest snapshot whenever a peer is added or its status changes
+  peer: PeerConnection;
+  'peer-removed': string;
+  // A new engine was created for a peer; subscribe to its transfer events
+  engine: TransferEngine;
+}
+
+export interface ConnectionRegistry {
+  on: Emitter<ConnectionRegistryEvents>['on'];
+  off: Emitter<ConnectionRegistryEvents>['off'];
+  setConnecting(peerId: string): void;
+  // A connection attempt failed before its channel opened
+  setDisconnected(peerId: string): void;
+  // Progress of ICE on a peer's connection, with the path it settled on once connected
+  setIceState(peerId: string, state: RTCIceConnectionState, route?: IceRoute): void;
+  // Start a transfer engine on an open channel
+  attach(channel: TransferChannel): TransferEngine;
+  // Add an extra data channel to the engine of an attached peer
+  attachLane(channel: TransferChannel, lane: number): void;
+  get(peerId: string): TransferEngine | undefined;
+  // Save the peer's identity key as a contact, verified if the safety numbers matched
+  saveContact(peerId: string, nickname: string, verified: boolean): void;
+  // Only accept this identity key from the peer from now on
+  pinFingerprint(peerId: string, fingerprint: string): void;
+  connectedPeerIds(): string[];
+  disconnect(peerId: string): void;
+  remove(peerId: string): void;
+  dispose(): void;
+}
+
+export interface ConnectionRegistryOptions {
+  resumeStore: ResumeStore;
+  contacts?: ContactStore;
+  identity?: Promise<DeviceIdentity>;
+  // Receive policy handed to every engine
+  acceptsEncryption?: (mode: EncryptionMode) => boolean;
+  // Data channels to offer new connections; 1 if omitted
+  lanes?: () => number;
+  // Open extra data channel number `lane` to a peer; without it only one channel is used
+  openLane?: (peerId: string, lane: number) => void;
+  // Connect to a peer again after its connection was lost; returns false if no
+  // attempt could be started. Without it lost peers stay disconnected
+  reconnect?: (peerId: string) => boolean;
+}
+
+interface RegistryEntry {
+  peer: PeerConnection;
+  identityKey?: string; // Identity key presented on the current connection
+  channel?: TransferChannel;
+  engine?: TransferEngine;
+  localPeerId?: string; // Our ID on the last connection, to decide who reconnects
+  leaving?: boolean; // The peer said it is closing the connection on purpose
+  reconnectTimer?: ReturnType<typeof setTimeout>;
+}
+
+const describeRoute = (route?: IceRoute) =>
+  route === 'relayed' ? 'Relayed through a TURN server' : route === 'direct' ? 'Direct connection' : undefined;
+
+export function createConnectionRegistry({
+  resumeStore,
+  contacts = createContactStore(false),
+  identity,
+  acceptsEncryption,
+  lanes = () => 1,
+  openLane,
+  reconnect
+}: ConnectionRegistryOptions): ConnectionRegistry {
+  const emitter = createEmitter<ConnectionRegistryEvents>();
+  const entries = new Map<string, RegistryEntry>();
+  const pins = new Map<string, string>(); // Expected identity key fingerprints by peer ID
+
+  const updatePeer = (peerId: string, changes: Partial<PeerConnection>) => {
+    const entry = entries.get(peerId) ?? {
+      peer: { id: peerId, status: 'connecting', quality: 'good', speed: 0, timeline: [] }
+    };
+    entry.peer = { ...entry.peer, ...changes };
+    entries.set(peerId, entry);
+    emitter.emit('peer', entry.peer);
+  };
+
+  // Refresh the contact details shown for a peer whose identity is known
+  const applyContact = (entry: RegistryEntry) => {
+    const { id, fingerprint } = entry.peer;
+    if (!fingerprint) return;
+    const contact = contacts.get(fingerprint);
+    const previous = contacts.findByPeerId(id);
+    updatePeer(id, {
+      verified: !!contact?.verified,
+      contactName: contact?.nickname,
+      keyChanged: !contact && !!previous && previous.fingerprint !== fingerprint
+    });
+  };
+
+  const handleContactsChange = () => entries.forEach(applyContact);
+  contacts.on('change', handleContactsChange);
+
+  // Add to a peer's timeline, along with any other changes to the peer
+  const logEvent = (peerId: string, phase: ConnectionPhase, detail?: string, changes: Partial<PeerConnection> = {}) => {
+    const timeline = entries.get(peerId)?.peer.timeline ?? [];
+    const last = timeline[timeline.length - 1];
+    const event: ConnectionEvent = { at: Date.now(), phase, detail };
+    updatePeer(peerId, {
+      ...changes,
+      // The same thing happening again in a row is not news
+      timeline: last?.phase === phase && last.detail === detail
+        ? timeline
+        : [...timeline, event].slice(-MAX_TIMELINE_EVENTS)
+    });
+  };
+
+  // Stop the engine for a peer without notifying anyone, then close its channel
+  // once the engine's last messages are out. A connection that is being replaced
+  // is closed first, so the engine keeps its transfers to resume on the new one
+  const detach = (entry: RegistryEntry, dropped = false) => {
+    const { engine, channel } = entry;
+    entry.engine = undefined;
+    entry.channel = undefined;
+    if (dropped) {
+      channel?.close();
+    }
+    (engine?.dispose() ?? Promise.resolve())
+      .catch(error => console.error('Error disposing transfer engine:', error))
+      .finally(() => channel?.close());
+  };
+
+  const setStatus = (peerId: string, status: PeerStatus) => {
+    updatePeer(peerId, status === 'connected'
+      ? { status }
+      : { status, speed: 0, laneSpeeds: undefined, rtt: undefined, degraded: false });
+  };
+
+  const cancelReconnect = (entry: RegistryEntry) => {
+    clearTimeout(entry.reconnectTimer);
+    entry.reconnectTimer = undefined;
+  };
+
+  // Close a peer's connection on purpose, without reconnecting
+  const closePeer = (entry: RegistryEntry, reason: string, changes: Partial<PeerConnection> = {}) => {
+    cancelReconnect(entry);
+    detach(entry);
+    setStatus(entry.peer.id, 'disconnected');
+    logEvent(entry.peer.id, 'disconnected', reason, { ...changes, reconnectAttempt: undefined, reconnectAt: undefined });
+  };
+
+  // Try again later, waiting longer after every failed attempt
+  const scheduleReconnect = (entry: RegistryEntry) => {
+    const peerId = entry.peer.id;
+    cancelReconnect(entry);
+    setStatus(peerId, 'disconnected');
+    const attempt = (entry.peer.reconnectAttempt ?? 0) + 1;
+    if (!reconnect || attempt > MAX_RECONNECT_ATTEMPTS) {
+      logEvent(peerId, 'disconnected', `Gave up after ${MAX_RECONNECT_ATTEMPTS} attempts to reconnect`, {
+        reconnectAttempt: undefined,
+        reconnectAt: undefined
+      });
+      return;
+    }
+    // Jitter, so peers that lost each other at once do not retry in lockstep
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1)) * (0.8 + Math.random() * 0.4);
+    logEvent(peerId, 'reconnecting', `Attempt ${attempt} in ${Math.round(delay / 1000)}s`, {
+      reconnectAttempt: attempt,
+      reconnectAt: Date.now() + delay
+    });
+    entry.reconnectTimer = setTimeout(() => {
+      entry.reconnectTimer = undefined;
+      updatePeer(peerId, { reconnectAt: undefined });
+      console.log(`Reconnecting to ${peerId}, attempt ${attempt}`);
+      if (!reconnect(peerId)) {
+        scheduleReconnect(entry);
+      }
+    }, delay);
+  };
+
+  // The connection ended without the peer saying goodbye
+  const handleLost = (entry: RegistryEntry) => {
+    const peerId = entry.peer.id;
+    const last = entry.peer.timeline[entry.peer.timeline.length - 1];
+    if (last?.phase !== 'lost') {
+      logEvent(peerId, 'lost', 'The connection closed unexpectedly');
+    }
+    // Only one side reconnects, so the two attempts do not replace each other
+    if (reconnect && entry.localPeerId && entry.localPeerId < peerId) {
+      scheduleReconnect(entry);
+      return;
+    }
+    setStatus(peerId, 'disconnected');
+    if (reconnect) {
+      logEvent(peerId, 'disconnected', 'Waiting for the peer to reconnect');
+    }
+  };
+
+  const attach = (channel: TransferChannel) => {
+    const { peerId } = channel;
+    const existing = entries.get(peerId);
+    const reconnected = !!existing?.peer.reconnectAttempt;
+    if (existing) {
+      cancelReconnect(existing);
+      // A new connection from the same peer means the old one is dead
+      detach(existing, true);
+    }
+
+    const engine = createTransferEngine(channel, {
+      resumeStore,
+      identity,
+      acceptsEncryption,
+      lanes: openLane ? lanes() : 1,
+      expectedFingerprint: pins.get(peerId)
+    });
+    engine.on('speed', speed => updatePeer(peerId, { speed }));
+    engine.on('lane-speeds', laneSpeeds => updatePeer(peerId, { laneSpeeds }));
+    engine.on('quality', quality => updatePeer(peerId, { quality }));
+    engine.on('peer-protocol', protocol => {
+      updatePeer(peerId, { protocol });
+      // Only one side opens the extra channels, so they are not opened twice
+      if (openLane && channel.localPeerId < peerId) {
+        for (let lane = 1; lane < protocol.lanes; lane++) {
+          openLane(peerId, lane);
+        }
+      }
+    });
+    engine.on('incompatible', incompatible => updatePeer(peerId, { incompatible }));
+    engine.on('rtt', rtt => updatePeer(peerId, { rtt }));
+    engine.on('health', health => {
+      if (health === 'degraded') {
+        logEvent(peerId, 'degraded', `Nothing heard for ${DEGRADED_AFTER_MS / 1000}s`, { degraded: true });
+      } else if (health === 'healthy') {
+        logEvent(peerId, 'recovered', undefined, { degraded: false });
+      } else {
+        // The engine closes the channel, which starts reconnecting
+        logEvent(peerId, 'lost', `Nothing heard for ${LOST_AFTER_MS / 1000}s`);
+      }
+    });
+    engine.on('goodbye', () => {
+      entry.leaving = true;
+    });
+    // The engine refuses the hello, so no key is agreed with the wrong peer
+    engine.on('identity-mismatch', () => {
+      if (entry.engine !== engine) return;
+      closePeer(entry, 'Identity key does not match the invite', { keyMismatch: true });
+    });
+    engine.on('peer-identity', async ({ publicKey, fingerprint, safetyNumber }) => {
+      if (entry.engine !== engine) return;
+      entry.identityKey = publicKey;
+      updatePeer(peerId, { safetyNumber, fingerprint, keyMismatch: false });
+
+      await contacts.ready;
+      if (entry.engine !== engine) return;
+      const contact = contacts.get(fingerprint);
+      if (contact) {
+        // Also refreshes every peer through the change listener
+        contacts.save({ ...contact, lastPeerId: peerId, lastSeen: Date.now() });
+      } else {
+        applyContact(entry);
+      }
+    });
+
+    // Unknown until the peer proves its identity key on this connection
+    updatePeer(peerId, {
+      status: 'connected',
+      safetyNumber: undefined,
+      fingerprint: undefined,
+      verified: false,
+      contactName: undefined,
+      keyChanged: false,
+      protocol: undefined,
+      incompatible: undefined,
+      laneSpeeds: undefined,
+      rtt: undefined,
+      degraded: false,
+      reconnectAttempt: undefined,
+      reconnectAt: undefined
+    });
+    logEvent(peerId, 'open', reconnected ? 'Reconnected' : undefined);
+    const entry = entries.get(peerId)!;
+    entry.identityKey = undefined;
+    entry.channel = channel;
+    entry.engine = engine;
+    entry.localPeerId = channel.localPeerId;
+    entry.leaving = false;
+
+    channel.onClose(async () => {
+      // Ignore closes of connections that have already been replaced
+      if (entry.channel !== channel) return;
+      // A goodbye may still be on its way through the engine
+      await Promise.race([engine.received(), new Promise(resolve => setTimeout(resolve, GOODBYE_WAIT_MS))]);
+      if (entry.channel !== channel) return;
+      detach(entry);
+      if (entry.leaving) {
+        setStatus(peerId, 'disconnected');
+        logEvent(peerId, 'disconnected', 'Closed by the peer');
+        return;
+      }
+      handleLost(entry);
+    });
+
+    emitter.emit('engine', engine);
+    engine.resumeInterruptedUploads();
+    return engine;
+  };
+
+  return {
+    on: emitter.on,
+    off: emitter.off,
+    setConnecting: (peerId) => {
+      const entry = entries.get(peerId);
+      if (entry) {
+        // Whoever started it, an attempt is under way
+        cancelReconnect(entry);
+      }
+      setStatus(peerId, 'connecting');
+      logEvent(peerId, 'connecting', undefined, { route: undefined });
+    },
+    setDisconnected: (peerId) => {
+      const entry = entries.get(peerId);
+      if (!entry || entry.channel) return;
+      if (entry.peer.reconnectAttempt) {
+        scheduleReconnect(entry);
+        return;
+      }
+      setStatus(peerId, 'disconnected');
+      logEvent(peerId, 'disconnected', 'Could not connect');
+    },
+    setIceState: (peerId, state, route) => {
+      const entry = entries.get(peerId);
+      if (!entry) return;
+      switch (state) {
+        case 'checking':
+          logEvent(peerId, 'ice-checking');
+          break;
+        case 'connected':
+        case 'completed':
+          if (entry.peer.degraded) {
+            logEvent(peerId, 'recovered', describeRoute(route), { route, degraded: false });
+          } else {
+            logEvent(peerId, 'ice-connected', describeRoute(route), { route });
+          }
+          break;
+        case 'disconnected':
+          logEvent(peerId, 'degraded', 'The network path was interrupted', { degraded: true });
+          break;
+        case 'failed':
+          logEvent(peerId, 'lost', 'No network path to the peer');
+          break;
+      }
+    },
+    attach,
+    attachLane: (channel, lane) => {
+      const engine = entries.get(channel.peerId)?.engine;
+      if (!engine) {
+        console.warn(`Closing data channel ${lane} from ${channel.peerId}, which is not connected`);
+        channel.close();
+        return;
+      }
+      engine.addLane(channel, lane);
+    },
+    get: (peerId) => entries.get(peerId)?.engine,
+    saveContact: (peerId, nickname, verified) => {
+      const entry = entries.get(peerId);
+      const fingerprint = entry?.peer.fingerprint;
+      if (!entry?.identityKey || !fingerprint) return;
+
+      // The contact pinned to this peer's old key is replaced, not kept alongside
+      const previous = contacts.findByPeerId(peerId);
+      if (previous && previous.fingerprint !== fingerprint) {
+        contacts.remove(previous.fingerprint);
+      }
+
+      const existing = contacts.get(fingerprint);
+      const now = Date.now();
+      contacts.save({
+        fingerprint,
+        publicKey: entry.identityKey,
+        nickname: nickname.trim() || existing?.nickname || peerId,
+        verified,
+        lastPeerId: peerId,
+        addedAt: existing?.addedAt ?? now,
+        lastSeen: now
+      });
+    },
+    pinFingerprint: (peerId, fingerprint) => {
+      pins.set(peerId, fingerprint);
+    },
+    connectedPeerIds: () => [...entries.values()]
+      .filter(entry => entry.peer.status === 'connected')
+      .map(entry => entry.peer.id),
+    disconnect: (peerId) => {
+      const entry = entries.get(peerId);
+      if (!entry) return;
+      closePeer(entry, 'Disconnected by you');
+    },
+    remove: (peerId) => {
+      const entry = entries.get(peerId);
+      if (!entry) return;
+      cancelReconnect(entry);
+      detach(entry);
+      entries.delete(peerId);
+      pins.delete(peerId);
+      emitter.emit('peer-removed', peerId);
+    },
+    dispose: () => {
+      contacts.off('change', handleContactsChange);
+      entries.forEach(entry => {
+        cancelReconnect(entry);
+        detach(entry);
+      });
+      entries.clear();
+      emitter.clear();
+    }
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Which signalling server and STUN/TURN servers the app connects through, and
+ * the peer ID it asks for.
+ *
+ * Defaults are set at build time through VITE_* environment variables, so a
+ * deployment can point at its own servers (see server/signalling.js), and fall
+ * back to the public PeerJS server and public STUN/TURN servers. Users can
+ * override them; overrides are kept in localStorage.
+ */
+import type { PeerOptions } from 'peerjs';
+import { checkPeerId } from './peerIds';
+
+const STORAGE_KEY = 'connectionSettings';
+
+export interface SignallingServerSettings {
+  host: string;
+  port: number;
+  path: string; // Must match the server's path, e.g. "/"
+  key: string; // API key the server expects; "peerjs" unless it was changed
+  secure: boolean; // Connect over TLS (https/wss); required when the app is served over https
+}
+
+export interface IceServerSettings {
+  urls: string[]; // e.g. "stun:stun.example.com:3478" or "turn:turn.example.com:3478?transport=tcp"
+  username?: string; // TURN only
+  credential?: string;
+}
+
+export interface ConnectionSettings {
+  customId?: string; // Peer ID to ask the signalling server for; a random one if absent
+  signalling?: SignallingServerSettings; // The public PeerJS server if absent
+  iceServers: IceServerSettings[]; // Without any, only peers on the same network can connect
+}
+
+const PUBLIC_ICE_SERVERS: IceServerSettings[] = [
+  {
+    urls: [
+      'stun:stun.l.google.com:19302',
+      'stun:stun1.l.google.com:19302',
+      'stun:stun2.l.google.com:19302',
+      'stun:stun3.l.google.com:19302',
+      'stun:stun4.l.google.com:19302'
+    ]
+  },
+  // Public TURN servers for peers behind restrictive NATs
+  {
+    urls: ['turn:openrelay.metered.ca:80', 'turn:openrelay.metered.ca:443'],
+    username: 'openrelayproject',
+    credential: 'openrelayproject'
+  }
+];
+
+// Throws if the settings are malformed, saying what is wrong
+export function checkConnectionSettings(settings: ConnectionSettings): ConnectionSettings {
+  const { customId, signalling, iceServers } = settings;
+  if (customId !== undefined) checkPeerId(customId);
+  if (signalling) {
+    if (!signalling.host.trim()) throw new Error('The signalling server needs a host');
+    if (!Number.isInteger(signalling.port) || signalling.port < 1 || signalling.port > 65535) {
+      throw new Error(`${signalling.port} is not a valid port`);
+    }
+    if (!signalling.path.startsWith('/')) throw new Error('The signalling server path must start with /');
+  }
+  if (!Array.isArray(iceServers)) throw new Error('ICE servers must be a list');
+  iceServers.forEach(server => {
+    if (!Array.isArray(server.urls) || server.urls.length === 0) throw new Error('Every ICE server needs a URL');
+    server.urls.forEach(url => {
+      if (!/^(stun|stuns|turn|turns):/.test(url)) throw new Error(`${url} is not a stun: or turn: URL`);
+    });
+  });
+  return settings;
+}
+
+// Accepts RTCIceServer-style entries, whose urls may be a single string
+function parseIceServers(json: string): IceServerSettings[] {
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed)) throw new Error('VITE_ICE_SERVERS must be a JSON array');
+  return parsed.map((server: { urls: string | string[]; username?: string; credential?: string }) => ({
+    urls: typeof server.urls === 'string' ? [server.urls] : server.urls,
+    username: server.username,
+    credential: server.credential
+  }));
+}
+
+// What the build was configured with
+export function defaultConnectionSettings(): ConnectionSettings {
+  const env = import.meta.env;
+  try {
+    return checkConnectionSettings({
+      signalling: env.VITE_PEER_HOST
+        ? {
+            host: env.VITE_PEER_HOST,
+            port: Number(env.VITE_PEER_PORT) || (env.VITE_PEER_SECURE === 'false' ? 80 : 443),
+            path: env.VITE_PEER_PATH || '/',
+            key: env.VITE_PEER_KEY || 'peerjs',
+            secure: env.VITE_PEER_SECURE !== 'false'
+          }
+        : undefined,
+      iceServers: env.VITE_ICE_SERVERS !== undefined ? parseIceServers(env.VITE_ICE_SERVERS) : PUBLIC_ICE_SERVERS
+    });
+  } catch (error) {
+    console.error('Invalid connection settings in the build environment, using public servers:', error);
+    return { iceServers: PUBLIC_ICE_SERVERS };
+  }
+}
+
+// The user's settings if they changed them, the build's otherwise
+export function loadConnectionSettings(): ConnectionSettings {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return defaultConnectionSettings();
+  try {
+    return checkConnectionSettings(JSON.parse(stored));
+  } catch (error) {
+    console.error('Ignoring invalid saved connection settings:', error);
+    return defaultConnectionSettings();
+  }
+}
+
+// Throws if the settings are invalid; null goes back to the build's settings
+export function saveConnectionSettings(settings: ConnectionSettings | null): ConnectionSettings {
+  if (!settings) {
+    localStorage.removeItem(STORAGE_KEY);
+    return defaultConnectionSettings();
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(checkConnectionSettings(settings)));
+  return settings;
+}
+
+export function toPeerOptions({ signalling, iceServers }: ConnectionSettings): PeerOptions {
+  return {
+    ...signalling,
+    config: {
+      iceServers: iceServers.map(({ urls, username, credential }) => ({ urls, username, credential })),
+      // Optimize WebRTC configuration for better performance
+      iceTransportPolicy: 'all',
+      bundlePolicy: 'max-bundle',
+      rtcpMuxPolicy: 'require',
+      sdpSemantics: 'unified-plan'
+    }
+  };
+}
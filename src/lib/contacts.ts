@@ -0,0 +1,67 @@
+/**
+ * Trusted contacts: peers whose identity key has been pinned, with a nickname.
+ *
+ * Contacts are kept in IndexedDB and cached in memory so lookups are
+ * synchronous once loaded. Listeners are told whenever the list changes.
+ */
+import { Contact } from '../types';
+import { createEmitter, Emitter } from './emitter';
+import { idbDelete, idbGetAll, idbPut, supportsIndexedDb } from './idb';
+
+export interface ContactStoreEvents {
+  change: Contact[];
+}
+
+export interface ContactStore {
+  on: Emitter<ContactStoreEvents>['on'];
+  off: Emitter<ContactStoreEvents>['off'];
+  // Resolves once contacts have been loaded from storage
+  ready: Promise<void>;
+  list(): Contact[];
+  get(fingerprint: string): Contact | undefined;
+  // Contact last seen with this peer ID, whatever its key
+  findByPeerId(peerId: string): Contact | undefined;
+  save(contact: Contact): void;
+  remove(fingerprint: string): void;
+}
+
+export function createContactStore(persist = supportsIndexedDb()): ContactStore {
+  const emitter = createEmitter<ContactStoreEvents>();
+  const contacts = new Map<string, Contact>();
+
+  const notify = () => emitter.emit('change', [...contacts.values()]);
+
+  const ready = persist
+    ? idbGetAll<Contact>('contacts')
+        .then(stored => {
+          stored.forEach(contact => contacts.set(contact.fingerprint, contact));
+          notify();
+        })
+        .catch(error => console.error('Error loading contacts:', error))
+    : Promise.resolve();
+
+  return {
+    on: emitter.on,
+    off: emitter.off,
+    ready,
+    list: () => [...contacts.values()].sort((a, b) => a.nickname.localeCompare(b.nickname)),
+    get: (fingerprint) => contacts.get(fingerprint),
+    findByPeerId: (peerId) => [...contacts.values()]
+      .filter(contact => contact.lastPeerId === peerId)
+      .sort((a, b) => (b.lastSeen ?? 0) - (a.lastSeen ?? 0))[0],
+    save: (contact) => {
+      contacts.set(contact.fingerprint, contact);
+      notify();
+      if (persist) {
+        idbPut('contacts', contact).catch(error => console.error('Error saving contact:', error));
+      }
+    },
+    remove: (fingerprint) => {
+      if (!contacts.delete(fingerprint)) return;
+      notify();
+      if (persist) {
+        idbDelete('contacts', fingerprint).catch(error => console.error('Error removing contact:', error));
+      }
+    }
+  };
+}
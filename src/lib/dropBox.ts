@@ -0,0 +1,147 @@
+/**
+ * Drop-box mode, for machines that receive files without anyone watching.
+ *
+ * Incoming requests are decided by rules instead of waiting for a click:
+ * files from verified contacts are accepted, as are files from anyone else
+ * that fit the size, type and per-peer quota rules; everything else is
+ * rejected, telling the sender why. Rules are kept in localStorage.
+ */
+import { PendingTransfer, TransferErrorReason } from '../types';
+import { ConnectionRegistry } from './connectionRegistry';
+import { TransferEngine } from './transferEngine';
+
+const STORAGE_KEY = 'dropBoxRules';
+
+export interface DropBoxRules {
+  enabled: boolean;
+  acceptVerifiedContacts: boolean; // Files from verified contacts skip the other rules
+  acceptOthers: boolean; // Accept files from other peers that match the rules; reject them all otherwise
+  maxFileSize?: number; // Bytes; any size if absent
+  // MIME types, optionally with a wildcard subtype ("image/*"), or extensions (".pdf"); any if empty
+  allowedTypes: string[];
+  peerQuota?: number; // Bytes accepted from one peer since the app was opened; unlimited if absent
+}
+
+export const DEFAULT_DROP_BOX_RULES: DropBoxRules = {
+  enabled: false,
+  acceptVerifiedContacts: true,
+  acceptOthers: false,
+  allowedTypes: []
+};
+
+export interface DropBox {
+  // Accept or reject a request by the rules; false if drop-box mode is off and
+  // the user has to decide
+  handle(engine: TransferEngine, request: PendingTransfer): boolean;
+  setRules(rules: DropBoxRules): void;
+}
+
+const formatBytes = (bytes: number) => {
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = bytes > 0 ? Math.min(sizes.length - 1, Math.floor(Math.log(bytes) / Math.log(1024))) : 0;
+  return `${parseFloat((bytes / Math.pow(1024, i)).toFixed(2))} ${sizes[i]}`;
+};
+
+const extensionOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot).toLowerCase() : '';
+};
+
+function matchesAllowedType(allowedTypes: string[], fileName: string, fileType: string): boolean {
+  if (allowedTypes.length === 0) return true;
+  const extension = extensionOf(fileName);
+  const type = fileType.toLowerCase();
+  return allowedTypes.some(allowed => {
+    const rule = allowed.trim().toLowerCase();
+    if (rule.startsWith('.')) return rule === extension;
+    if (rule.endsWith('/*')) return type.startsWith(rule.slice(0, -1));
+    return rule === type;
+  });
+}
+
+// Why the rules refuse a request from a peer that is not a verified contact, if they do
+function checkDropBoxRules(rules: DropBoxRules, request: PendingTransfer, usedBytes: number): TransferErrorReason | undefined {
+  if (!rules.acceptOthers) return { code: 'declined', message: 'Only files from verified contacts are accepted' };
+  if (rules.maxFileSize !== undefined && request.fileSize > rules.maxFileSize) {
+    return { code: 'too-large', message: `Files larger than ${formatBytes(rules.maxFileSize)} are not accepted` };
+  }
+  if (!matchesAllowedType(rules.allowedTypes, request.fileName, request.fileType)) {
+    return { code: 'type-not-allowed', message: `Allowed: ${rules.allowedTypes.join(', ')}` };
+  }
+  if (rules.peerQuota !== undefined && usedBytes + request.fileSize > rules.peerQuota) {
+    return {
+      code: 'quota-exceeded',
+      message: `This file would exceed the ${formatBytes(rules.peerQuota)} limit for files from one peer`
+    };
+  }
+  return undefined;
+}
+
+export function loadDropBoxRules(): DropBoxRules {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return DEFAULT_DROP_BOX_RULES;
+  try {
+    const parsed = JSON.parse(stored);
+    return { ...DEFAULT_DROP_BOX_RULES, ...parsed, allowedTypes: Array.isArray(parsed.allowedTypes) ? parsed.allowedTypes : [] };
+  } catch (error) {
+    console.error('Ignoring invalid saved drop-box rules:', error);
+    return DEFAULT_DROP_BOX_RULES;
+  }
+}
+
+export function saveDropBoxRules(rules: DropBoxRules) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+}
+
+export function createDropBox(registry: ConnectionRegistry, initialRules: DropBoxRules): DropBox {
+  let rules = initialRules;
+  const verifiedPeers = new Set<string>();
+  const accepted = new Map<string, number>(); // Bytes by peer ID
+
+  registry.on('peer', peer => {
+    if (peer.verified && peer.status === 'connected') {
+      verifiedPeers.add(peer.id);
+    } else {
+      verifiedPeers.delete(peer.id);
+    }
+  });
+
+  const accept = (engine: TransferEngine, request: PendingTransfer) => {
+    accepted.set(request.peerId, (accepted.get(request.peerId) ?? 0) + request.fileSize);
+    engine.acceptTransfer(request.fileId);
+  };
+
+  return {
+    handle: (engine, request) => {
+      if (!rules.enabled) return false;
+      const name = request.relativePath ?? request.fileName;
+
+      // Nobody is around to type the passphrase
+      if (request.encryption === 'passphrase') {
+        engine.rejectTransfer(request.fileId, {
+          code: 'declined',
+          message: 'Passphrase-encrypted files cannot be accepted automatically'
+        });
+        return true;
+      }
+      if (rules.acceptVerifiedContacts && verifiedPeers.has(request.peerId)) {
+        console.log(`Drop box: accepting ${name} from verified contact ${request.peerId}`);
+        accept(engine, request);
+        return true;
+      }
+
+      const refusal = checkDropBoxRules(rules, request, accepted.get(request.peerId) ?? 0);
+      if (refusal) {
+        console.log(`Drop box: rejecting ${name} from ${request.peerId}: ${refusal.code} (${refusal.message})`);
+        engine.rejectTransfer(request.fileId, refusal);
+        return true;
+      }
+      console.log(`Drop box: accepting ${name} from ${request.peerId}`);
+      accept(engine, request);
+      return true;
+    },
+    setRules: (next) => {
+      rules = next;
+    }
+  };
+}
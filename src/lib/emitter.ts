@@ -0,0 +1,48 @@
+/**
+ * Minimal typed event emitter used by the transfer engine so that the UI
+ * (or a test harness) can subscribe to protocol events without React.
+ */
+
+type EventMap = object;
+
+export type Listener<T> = (payload: T) => void;
+
+export interface Emitter<Events extends EventMap> {
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void;
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void;
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void;
+  clear(): void;
+}
+
+export function createEmitter<Events extends EventMap>(): Emitter<Events> {
+  const listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  const off = <K extends keyof Events>(event: K, listener: Listener<Events[K]>) => {
+    listeners.get(event)?.delete(listener as Listener<never>);
+  };
+
+  return {
+    on(event, listener) {
+      if (!listeners.has(event)) {
+        listeners.set(event, new Set());
+      }
+      listeners.get(event)!.add(listener as Listener<never>);
+      return () => off(event, listener);
+    },
+    off,
+    emit(event, payload) {
+      // Copy so listeners can unsubscribe while being notified
+      const current = [...(listeners.get(event) ?? [])] as Listener<typeof payload>[];
+      current.forEach(listener => {
+        try {
+          listener(payload);
+        } catch (error) {
+          console.error(`Error in ${String(event)} listener:`, error);
+        }
+      });
+    },
+    clear() {
+      listeners.clear();
+    }
+  };
+}
@@ -1,144 +1,137 @@
-import { FileEncryption, SecureFileEncryption } from '../types';
-import { getSessionKey, listSessionKeys } from './keyExchange';
+/**
+ * Per-chunk AES-GCM encryption.
+ *
+ * Every chunk of a file is encrypted independently so the sender can stream
+ * straight from File.slice and the receiver can decrypt as chunks arrive.
+ * Each chunk uses a nonce derived from a random per-file base IV and the chunk
+ * index, and the file ID, chunk index and chunk count are bound in as
+ * additional authenticated data so chunks cannot be reordered, replayed into
+ * another file or truncated without failing authentication.
+ */
+
+// PBKDF2 work factor for passphrase transfers (OWASP's recommendation for PBKDF2-SHA256)
+export const PBKDF2_ITERATIONS = 600000;
+// Bounds a receiver accepts, so a sender can neither weaken the derivation nor stall the receiver
+export const MIN_PBKDF2_ITERATIONS = 100000;
+export const MAX_PBKDF2_ITERATIONS = 5000000;
+
+// Known plaintext encrypted with a passphrase key so the receiver can tell a wrong passphrase
+const PASSPHRASE_CHECK = 'p2p-file-sharing passphrase check v1';
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+export function generatePassphraseSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
 
-// Legacy functions kept for backward compatibility
-export async function generateEncryptionKey(): Promise<CryptoKey> {
-  return await window.crypto.subtle.generateKey(
+// Derive an AES-GCM key from a passphrase; the Web Crypto API has no Argon2, so PBKDF2 it is
+export async function deriveKeyFromPassphrase(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      salt: fromBase64(salt),
+      iterations
+    },
+    keyMaterial,
     {
       name: 'AES-GCM',
       length: 256
     },
-    true,
+    false,
     ['encrypt', 'decrypt']
   );
 }
 
-export async function exportKey(key: CryptoKey): Promise<string> {
-  const exported = await window.crypto.subtle.exportKey('raw', key);
-  return btoa(String.fromCharCode(...new Uint8Array(exported)));
+// Base64 of a random IV followed by the encrypted check string
+export async function createPassphraseCheck(key: CryptoKey): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(PASSPHRASE_CHECK));
+  const check = new Uint8Array(iv.length + ciphertext.byteLength);
+  check.set(iv, 0);
+  check.set(new Uint8Array(ciphertext), iv.length);
+  return toBase64(check);
 }
 
-export async function importKey(keyStr: string): Promise<CryptoKey> {
-  const keyData = Uint8Array.from(atob(keyStr), c => c.charCodeAt(0));
-  return await window.crypto.subtle.importKey(
-    'raw',
-    keyData,
-    'AES-GCM',
-    true,
-    ['encrypt', 'decrypt']
-  );
+export async function verifyPassphraseCheck(key: CryptoKey, check: string): Promise<boolean> {
+  try {
+    const bytes = fromBase64(check);
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.subarray(0, 12) }, key, bytes.subarray(12));
+    return new TextDecoder().decode(plaintext) === PASSPHRASE_CHECK;
+  } catch {
+    // Authentication fails when the passphrase is wrong
+    return false;
+  }
 }
 
-// Legacy encryption function (kept for backward compatibility)
-export async function encryptFile(file: File): Promise<FileEncryption> {
-  const key = await generateEncryptionKey();
-  const iv = window.crypto.getRandomValues(new Uint8Array(12));
-  const arrayBuffer = await file.arrayBuffer();
-
-  const encryptedData = await window.crypto.subtle.encrypt(
-    {
-      name: 'AES-GCM',
-      iv
-    },
-    key,
-    arrayBuffer
-  );
-
-  const exportedKey = await exportKey(key);
-
-  return {
-    data: new Blob([encryptedData]),
-    iv: Array.from(iv),
-    key: exportedKey
-  };
+// Random base IV for a file; per-chunk nonces are derived from it
+export function generateBaseIv(): number[] {
+  return Array.from(crypto.getRandomValues(new Uint8Array(12)));
 }
 
-// New secure encryption function using pre-exchanged keys
-export async function secureEncryptFile(file: File, sessionId: string): Promise<SecureFileEncryption> {
-  // Get the session key that was established during key exchange
-  const key = getSessionKey(sessionId);
-  if (!key) {
-    throw new Error('No session key found for this session ID');
+// Derive the nonce for a chunk by XORing its index into the last 4 bytes of the base IV
+export function deriveChunkNonce(baseIv: number[], chunkIndex: number): Uint8Array {
+  if (baseIv.length !== 12) {
+    throw new Error('Base IV must be 12 bytes');
   }
-
-  const iv = window.crypto.getRandomValues(new Uint8Array(12));
-  const arrayBuffer = await file.arrayBuffer();
-
-  const encryptedData = await window.crypto.subtle.encrypt(
-    {
-      name: 'AES-GCM',
-      iv
-    },
-    key,
-    arrayBuffer
-  );
-
-  return {
-    data: new Blob([encryptedData]),
-    iv: Array.from(iv),
-    sessionId
-  };
+  const nonce = new Uint8Array(baseIv);
+  const view = new DataView(nonce.buffer);
+  view.setUint32(8, view.getUint32(8) ^ chunkIndex);
+  return nonce;
 }
 
-// Legacy decryption function (kept for backward compatibility)
-export async function decryptFile(
-  encryptedBlob: Blob,
-  keyStr: string,
-  iv: number[],
-  type: string
-): Promise<Blob> {
-  const key = await importKey(keyStr);
-  const arrayBuffer = await encryptedBlob.arrayBuffer();
+// Additional authenticated data binding a chunk to its file and position
+function chunkAdditionalData(fileId: string, chunkIndex: number, totalChunks: number): Uint8Array {
+  return new TextEncoder().encode(`${fileId}:${chunkIndex}:${totalChunks}`);
+}
 
-  const decryptedData = await window.crypto.subtle.decrypt(
+export async function encryptChunk(
+  key: CryptoKey,
+  baseIv: number[],
+  fileId: string,
+  chunkIndex: number,
+  totalChunks: number,
+  plaintext: ArrayBuffer
+): Promise<ArrayBuffer> {
+  return await crypto.subtle.encrypt(
     {
       name: 'AES-GCM',
-      iv: new Uint8Array(iv)
+      iv: deriveChunkNonce(baseIv, chunkIndex),
+      additionalData: chunkAdditionalData(fileId, chunkIndex, totalChunks)
     },
     key,
-    arrayBuffer
+    plaintext
   );
-
-  return new Blob([decryptedData], { type });
 }
 
-// New secure decryption function using pre-exchanged keys
-export async function secureDecryptFile(
-  encryptedBlob: Blob,
-  sessionId: string,
-  iv: number[],
-  type: string
-): Promise<Blob> {
-  console.log(`Attempting secure decryption with sessionId: ${sessionId}`);
-
-  // Get the session key that was established during key exchange
-  const key = getSessionKey(sessionId);
-  if (!key) {
-    console.error(`No session key found for sessionId: ${sessionId}`);
-    // List all available session keys
-    const availableKeys = listSessionKeys();
-    console.log('Available session keys:', availableKeys);
-    throw new Error('Missing encryption information: No session key found for this session ID');
-  }
-
-  console.log(`Found session key for sessionId: ${sessionId}`);
-  const arrayBuffer = await encryptedBlob.arrayBuffer();
-  console.log(`Decrypting blob of size: ${arrayBuffer.byteLength} bytes with IV length: ${iv.length}`);
-
+export async function decryptChunk(
+  key: CryptoKey,
+  baseIv: number[],
+  fileId: string,
+  chunkIndex: number,
+  totalChunks: number,
+  ciphertext: ArrayBuffer
+): Promise<ArrayBuffer> {
   try {
-    const decryptedData = await window.crypto.subtle.decrypt(
+    return await crypto.subtle.decrypt(
       {
         name: 'AES-GCM',
-        iv: new Uint8Array(iv)
+        iv: deriveChunkNonce(baseIv, chunkIndex),
+        additionalData: chunkAdditionalData(fileId, chunkIndex, totalChunks)
       },
       key,
-      arrayBuffer
+      ciphertext
     );
-
-    console.log(`Successfully decrypted data, size: ${decryptedData.byteLength} bytes`);
-    return new Blob([decryptedData], { type });
   } catch (error) {
-    console.error('Decryption failed:', error);
-    throw new Error('Failed to decrypt file. The encryption key may be incorrect or the file may be corrupted.');
+    console.error(`Decryption of chunk ${chunkIndex} for file ${fileId} failed:`, error);
+    throw new Error(`Failed to decrypt chunk ${chunkIndex}. The encryption key may be incorrect or the data may be corrupted.`);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { sealMessage, verifyEnvelope } from './envelope';
+import { ProtocolMessage } from './protocol';
+
+const createKey = () => crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+const chunk: ProtocolMessage = {
+  type: 'file-chunk',
+  fileId: 'file-1',
+  chunk: 3,
+  total: 10,
+  data: new Uint8Array([1, 2, 3]).buffer,
+  digest: '0'.repeat(64)
+};
+
+describe('sealMessage', () => {
+  it('wraps the message with its sequence number and a MAC', async () => {
+    const envelope = await sealMessage(await createKey(), 'peer-a', 7, chunk);
+    expect(envelope).toMatchObject({ type: 'envelope', seq: 7, message: chunk });
+    expect(atob(envelope.mac)).toHaveLength(32);
+  });
+});
+
+describe('verifyEnvelope', () => {
+  it('accepts an untouched envelope, binary fields included', async () => {
+    const key = await createKey();
+    expect(await verifyEnvelope(key, 'peer-a', await sealMessage(key, 'peer-a', 1, chunk))).toBe(true);
+  });
+
+  it('accepts fields the data channel turned from undefined into null', async () => {
+    const key = await createKey();
+    const envelope = await sealMessage(key, 'peer-a', 1, { type: 'file-cancel', fileId: 'file-1', reason: undefined });
+    const received = { ...envelope, message: { type: 'file-cancel', fileId: 'file-1', reason: null } };
+    expect(await verifyEnvelope(key, 'peer-a', received)).toBe(true);
+  });
+
+  it('rejects a changed sequence number, so envelopes cannot be replayed under a new one', async () => {
+    const key = await createKey();
+    const envelope = await sealMessage(key, 'peer-a', 1, chunk);
+    expect(await verifyEnvelope(key, 'peer-a', { ...envelope, seq: 2 })).toBe(false);
+  });
+
+  it('rejects a changed message', async () => {
+    const key = await createKey();
+    const envelope = await sealMessage(key, 'peer-a', 1, chunk);
+    expect(await verifyEnvelope(key, 'peer-a', { ...envelope, message: { ...chunk, chunk: 4 } })).toBe(false);
+    expect(await verifyEnvelope(key, 'peer-a', { ...envelope, message: { ...chunk, data: new Uint8Array([1, 2, 4]).buffer } })).toBe(false);
+  });
+
+  it('rejects an envelope reflected back at its sender', async () => {
+    const key = await createKey();
+    const envelope = await sealMessage(key, 'peer-a', 1, chunk);
+    expect(await verifyEnvelope(key, 'peer-b', envelope)).toBe(false);
+  });
+
+  it('rejects an envelope sealed under another key', async () => {
+    const envelope = await sealMessage(await createKey(), 'peer-a', 1, chunk);
+    expect(await verifyEnvelope(await createKey(), 'peer-a', envelope)).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Authenticated envelopes for protocol messages.
+ *
+ * Once both peers have exchanged hellos, every message is wrapped with a
+ * sequence number and an HMAC under the connection's channel key. The MAC
+ * covers the sender's peer ID, so a message cannot be reflected back at its
+ * sender, and the sequence number, so it cannot be replayed.
+ */
+import { ProtocolEnvelope, ProtocolMessage, ReceivedEnvelope } from './protocol';
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+function toBytes(value: ArrayBuffer | ArrayBufferView): Uint8Array {
+  return value instanceof ArrayBuffer
+    ? new Uint8Array(value)
+    : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+/**
+ * Serialize a message the same way on both ends: object keys sorted, null and
+ * undefined fields dropped (the data channel may turn one into the other) and
+ * binary fields replaced by a marker, with their bytes appended afterwards.
+ */
+function canonicalize(value: unknown, binaries: Uint8Array[]): unknown {
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    binaries.push(toBytes(value));
+    return { $binary: binaries.length - 1 };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => canonicalize(item, binaries));
+  }
+  if (typeof value === 'object' && value !== null) {
+    const sorted: Record<string, unknown> = {};
+    Object.keys(value).sort().forEach(key => {
+      const field = (value as Record<string, unknown>)[key];
+      if (field !== undefined && field !== null) {
+        sorted[key] = canonicalize(field, binaries);
+      }
+    });
+    return sorted;
+  }
+  return value;
+}
+
+function macInput(from: string, seq: number, message: unknown): Uint8Array {
+  const binaries: Uint8Array[] = [];
+  const header = new TextEncoder().encode(JSON.stringify([from, seq, canonicalize(message, binaries)]));
+  const input = new Uint8Array(header.length + binaries.reduce((sum, bytes) => sum + bytes.length, 0));
+  input.set(header, 0);
+  let offset = header.length;
+  binaries.forEach(bytes => {
+    input.set(bytes, offset);
+    offset += bytes.length;
+  });
+  return input;
+}
+
+export async function sealMessage(
+  key: CryptoKey,
+  from: string,
+  seq: number,
+  message: ProtocolMessage
+): Promise<ProtocolEnvelope> {
+  const mac = await crypto.subtle.sign('HMAC', key, macInput(from, seq, message));
+  return {
+    type: 'envelope',
+    seq,
+    message,
+    mac: toBase64(new Uint8Array(mac))
+  };
+}
+
+// Whether the envelope's MAC is valid for a message from the given peer
+export async function verifyEnvelope(key: CryptoKey, from: string, envelope: ReceivedEnvelope): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify('HMAC', key, fromBase64(envelope.mac), macInput(from, envelope.seq, envelope.message));
+  } catch (error) {
+    console.error('Error verifying message envelope:', error);
+    return false;
+  }
+}
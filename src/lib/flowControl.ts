@@ -0,0 +1,174 @@
+/**
+ * Congestion-aware pacing for chunk uploads on one connection.
+ *
+ * The window (bytes sent but not yet acknowledged) starts small and doubles
+ * every round trip until chunk-acks come back noticeably slower than the
+ * fastest round trip seen, which means data is queueing somewhere on the path.
+ * It then shrinks and grows by about one chunk per round trip. Throughput and
+ * round-trip estimates from the same acks pick the chunk size for new files
+ * and rate the connection quality.
+ */
+import { ConnectionQuality } from '../types';
+import { MAX_CHUNK_SIZE, MAX_CHUNKS, MIN_CHUNK_SIZE } from './protocol';
+
+export const INITIAL_WINDOW = 1024 * 1024; // 1MB
+export const MIN_WINDOW = 256 * 1024;
+export const MAX_WINDOW = 64 * 1024 * 1024;
+const INITIAL_CHUNK_SIZE = 256 * 1024; // Until the link has been measured
+const CHUNK_DURATION_MS = 100; // A chunk should take about this long to send
+const QUEUEING_RTT_FACTOR = 2; // Round trips this much above the minimum mean the path is congested
+const QUEUEING_RTT_SLACK_MS = 20; // Ignore jitter on very fast links
+const BACKOFF = 0.7;
+const THROUGHPUT_SAMPLE_MS = 250;
+
+export interface LinkEstimate {
+  throughput: number; // Bytes per second acknowledged by the peer
+  rtt: number; // Smoothed chunk round trip in milliseconds, including the peer's processing
+  minRtt: number; // Fastest chunk round trip seen
+}
+
+export interface FlowController {
+  // Whether another chunk of this size fits in the window
+  canSend(bytes: number): boolean;
+  // Resolves once some of the window has been freed, or the controller is reset
+  waitForWindow(): Promise<void>;
+  sent(fileId: string, chunk: number, bytes: number): void;
+  // Returns false if the chunk was not in flight
+  acked(fileId: string, chunk: number): boolean;
+  // Forget a file's chunks in flight, e.g. once it is cancelled
+  release(fileId: string): void;
+  chunkSizeFor(fileSize: number): number;
+  estimate(): LinkEstimate | undefined;
+  // Release everything and wake all waiters
+  reset(): void;
+}
+
+interface ChunkInFlight {
+  bytes: number;
+  sentAt: number;
+}
+
+// Round trips of chunks of one size class; larger chunks take longer to send
+interface RttStats {
+  rtt: number;
+  minRtt: number;
+}
+
+// Largest power of two not above the value
+const floorPowerOfTwo = (value: number) => 2 ** Math.floor(Math.log2(value));
+
+export function checkConnectionQuality({ rtt, minRtt }: LinkEstimate): ConnectionQuality {
+  // How much of the round trip is spent queueing says more than raw speed, which
+  // depends on the link; slow links are also slow to answer
+  const inflation = rtt / Math.max(minRtt, 1);
+  if (rtt < 300 && inflation < QUEUEING_RTT_FACTOR * 1.5) return 'good';
+  if (rtt < 1500 && inflation < QUEUEING_RTT_FACTOR * 3) return 'fair';
+  return 'poor';
+}
+
+export function createFlowController(): FlowController {
+  const inFlight = new Map<string, Map<number, ChunkInFlight>>();
+  let bytesInFlight = 0;
+  let window = INITIAL_WINDOW;
+  let slowStart = true;
+  let lastBackoff = 0;
+  const rttStats = new Map<number, RttStats>(); // By chunk size rounded up to a power of two
+  let latest: RttStats | undefined; // Stats of the most recently acknowledged size class
+  let throughput = 0;
+  let sampleStart = 0;
+  let sampleBytes = 0;
+  let waiters: (() => void)[] = [];
+
+  const wake = () => {
+    const waiting = waiters;
+    waiters = [];
+    waiting.forEach(resolve => resolve());
+  };
+
+  const remove = (fileId: string, chunk: number) => {
+    const chunks = inFlight.get(fileId);
+    const entry = chunks?.get(chunk);
+    if (!chunks || !entry) return undefined;
+    chunks.delete(chunk);
+    if (chunks.size === 0) {
+      inFlight.delete(fileId);
+    }
+    bytesInFlight -= entry.bytes;
+    return entry;
+  };
+
+  const measureThroughput = (bytes: number, now: number) => {
+    if (!sampleStart) {
+      sampleStart = now;
+    }
+    sampleBytes += bytes;
+    const elapsed = now - sampleStart;
+    if (elapsed < THROUGHPUT_SAMPLE_MS) return;
+    const rate = sampleBytes * 1000 / elapsed;
+    throughput = throughput ? throughput * 0.7 + rate * 0.3 : rate;
+    sampleStart = now;
+    sampleBytes = 0;
+  };
+
+  const adjustWindow = (bytes: number, sample: number, now: number) => {
+    const sizeClass = 2 ** Math.ceil(Math.log2(Math.max(bytes, 1)));
+    const previous = rttStats.get(sizeClass);
+    const stats = previous
+      ? { rtt: previous.rtt * 0.875 + sample * 0.125, minRtt: Math.min(previous.minRtt, sample) }
+      : { rtt: sample, minRtt: sample };
+    rttStats.set(sizeClass, stats);
+    latest = stats;
+
+    if (sample > stats.minRtt * QUEUEING_RTT_FACTOR + QUEUEING_RTT_SLACK_MS) {
+      // Back off at most once per round trip, one congestion event often delays many acks
+      if (now - lastBackoff > stats.rtt) {
+        window = Math.max(MIN_WINDOW, window * BACKOFF);
+        slowStart = false;
+        lastBackoff = now;
+      }
+      return;
+    }
+    window = Math.min(MAX_WINDOW, slowStart ? window + bytes : window + bytes * bytes / window);
+  };
+
+  return {
+    // One chunk may always be in flight, however large
+    canSend: (bytes) => bytesInFlight === 0 || bytesInFlight + bytes <= window,
+    waitForWindow: () => new Promise(resolve => waiters.push(resolve)),
+    sent: (fileId, chunk, bytes) => {
+      // A resent chunk replaces the copy that was already counted
+      remove(fileId, chunk);
+      const chunks = inFlight.get(fileId) ?? new Map<number, ChunkInFlight>();
+      chunks.set(chunk, { bytes, sentAt: performance.now() });
+      inFlight.set(fileId, chunks);
+      bytesInFlight += bytes;
+    },
+    acked: (fileId, chunk) => {
+      const entry = remove(fileId, chunk);
+      if (!entry) return false;
+      const now = performance.now();
+      measureThroughput(entry.bytes, now);
+      adjustWindow(entry.bytes, now - entry.sentAt, now);
+      wake();
+      return true;
+    },
+    release: (fileId) => {
+      [...inFlight.get(fileId)?.keys() ?? []].forEach(chunk => remove(fileId, chunk));
+      wake();
+    },
+    chunkSizeFor: (fileSize) => {
+      const measured = throughput
+        ? floorPowerOfTwo(throughput * CHUNK_DURATION_MS / 1000)
+        : INITIAL_CHUNK_SIZE;
+      // Very large files need larger chunks to stay under the chunk count limit
+      const needed = 2 ** Math.ceil(Math.log2(Math.max(1, fileSize / MAX_CHUNKS)));
+      return Math.min(MAX_CHUNK_SIZE, Math.max(MIN_CHUNK_SIZE, measured, needed));
+    },
+    estimate: () => latest && { throughput, ...latest },
+    reset: () => {
+      inFlight.clear();
+      bytesInFlight = 0;
+      wake();
+    }
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { createDirectorySink, splitRelativePath } from './folders';
+
+// In-memory stand-in for a directory picked with the File System Access API
+function createFakeDirectory(): FileSystemDirectoryHandle {
+  const children = new Map<string, 'file' | FileSystemDirectoryHandle>();
+  return {
+    kind: 'directory',
+    getDirectoryHandle: async (name: string, { create = false } = {}) => {
+      const existing = children.get(name);
+      if (existing === 'file') throw new DOMException(name, 'TypeMismatchError');
+      if (existing) return existing;
+      if (!create) throw new DOMException(name, 'NotFoundError');
+      const directory = createFakeDirectory();
+      children.set(name, directory);
+      return directory;
+    },
+    getFileHandle: async (name: string, { create = false } = {}) => {
+      const existing = children.get(name);
+      if (existing && existing !== 'file') throw new DOMException(name, 'TypeMismatchError');
+      if (!existing && !create) throw new DOMException(name, 'NotFoundError');
+      children.set(name, 'file');
+      return {
+        kind: 'file',
+        name,
+        createWritable: async () => ({ write: async () => {}, close: async () => {}, abort: async () => {} })
+      };
+    }
+  } as unknown as FileSystemDirectoryHandle;
+}
+
+const savedName = async (directory: FileSystemDirectoryHandle, relativePath: string) =>
+  (await createDirectorySink(directory, relativePath)).fileHandle?.name;
+
+describe('splitRelativePath', () => {
+  it('drops segments that would leave the chosen folder', () => {
+    expect(splitRelativePath('../photos/./2024//a.jpg')).toEqual(['photos', '2024', 'a.jpg']);
+    expect(splitRelativePath('..\\..\\evil.exe')).toEqual(['evil.exe']);
+  });
+});
+
+describe('createDirectorySink', () => {
+  it('never overwrites a file that is already there', async () => {
+    const directory = createFakeDirectory();
+    await (await directory.getDirectoryHandle('photos', { create: true })).getFileHandle('b.txt', { create: true });
+
+    expect(await savedName(directory, 'photos/b.txt')).toBe('b (1).txt');
+    expect(await savedName(directory, 'photos/b.txt')).toBe('b (2).txt');
+  });
+
+  it('gives files sent under the same path at once different names', async () => {
+    const directory = createFakeDirectory();
+    const names = await Promise.all([
+      savedName(directory, 'photos/a.jpg'),
+      savedName(directory, 'photos/a.jpg'),
+      savedName(directory, 'photos\\a.jpg')
+    ]);
+    expect(names).toEqual(['a.jpg', 'a (1).jpg', 'a (2).jpg']);
+  });
+
+  it('does not take the name of a folder', async () => {
+    const directory = createFakeDirectory();
+    await directory.getDirectoryHandle('README', { create: true });
+    expect(await savedName(directory, 'README')).toBe('README (1)');
+  });
+});
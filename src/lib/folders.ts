@@ -0,0 +1,166 @@
+/**
+ * Helpers for sending and receiving whole folders.
+ *
+ * Dropped or selected folders are flattened into files that remember their path
+ * relative to the dropped item, so the receiver can rebuild the same tree inside
+ * a directory it picks (File System Access API) or keep the files grouped.
+ */
+import { ChunkSink, createFileHandleSink } from './chunkSink';
+
+export interface FolderFile {
+  file: File;
+  relativePath?: string; // Set for files that came from inside a folder
+}
+
+// Entries API used for drag and drop of folders; typed loosely across browsers
+function readAllEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => {
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in batches, keep reading until it returns nothing
+    const readBatch = () => {
+      reader.readEntries(batch => {
+        if (batch.length === 0) {
+          resolve(entries);
+          return;
+        }
+        entries.push(...batch);
+        readBatch();
+      }, reject);
+    };
+    readBatch();
+  });
+}
+
+function entryToFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function collectEntry(entry: FileSystemEntry, path: string, files: FolderFile[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await entryToFile(entry as FileSystemFileEntry);
+    files.push({ file, relativePath: path.includes('/') ? path : undefined });
+  } else if (entry.isDirectory) {
+    const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+    for (const child of children) {
+      await collectEntry(child, `${path}/${child.name}`, files);
+    }
+  }
+}
+
+/**
+ * Collect every file from a drop, walking into dropped folders. Entries have to
+ * be taken from the DataTransfer synchronously, before the drop event returns.
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<FolderFile[]> {
+  const items = Array.from(dataTransfer.items).filter(item => item.kind === 'file');
+  const entries = items.map(item => item.webkitGetAsEntry?.() ?? null);
+
+  // Browsers without the entries API only give us the top-level files
+  if (entries.every(entry => entry === null)) {
+    return Array.from(dataTransfer.files).map(file => ({ file }));
+  }
+
+  const files: FolderFile[] = [];
+  const looseFiles = items.map(item => item.getAsFile());
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    if (entry) {
+      await collectEntry(entry, entry.name, files);
+    } else if (looseFiles[index]) {
+      files.push({ file: looseFiles[index]! });
+    }
+  }
+  return files;
+}
+
+// Files picked through an <input webkitdirectory> carry their path already
+export function collectSelectedFiles(fileList: FileList): FolderFile[] {
+  return Array.from(fileList).map(file => ({
+    file,
+    relativePath: file.webkitRelativePath || undefined
+  }));
+}
+
+// Top-level folder of a relative path, used to group the files of one folder
+export function getRootFolder(relativePath: string): string {
+  return splitRelativePath(relativePath)[0] ?? '';
+}
+
+/**
+ * Split a relative path into safe segments. Paths come from the remote peer, so
+ * empty, '.' and '..' segments are dropped to keep writes inside the chosen folder.
+ */
+export function splitRelativePath(relativePath: string): string[] {
+  return relativePath
+    .split(/[\\/]/)
+    .filter(segment => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+// File System Access API (Chromium); not yet part of TypeScript's DOM typings
+interface WindowWithDirectoryPicker {
+  showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+}
+
+export function supportsDirectoryPicker(): boolean {
+  return typeof window !== 'undefined' &&
+    typeof (window as WindowWithDirectoryPicker).showDirectoryPicker === 'function';
+}
+
+// Ask the user for a folder to save into. Must be called from a user gesture.
+export async function pickDirectory(): Promise<FileSystemDirectoryHandle> {
+  const picker = (window as WindowWithDirectoryPicker).showDirectoryPicker;
+  if (!picker) {
+    throw new Error('File System Access API is not available');
+  }
+  return picker({ mode: 'readwrite' });
+}
+
+const MAX_NUMBERED_NAMES = 1000;
+
+// A name no file or folder in the directory has yet: "notes.txt", then "notes (1).txt" and so on
+async function findFreeName(parent: FileSystemDirectoryHandle, fileName: string): Promise<string> {
+  const dot = fileName.lastIndexOf('.');
+  const [base, extension] = dot > 0 ? [fileName.slice(0, dot), fileName.slice(dot)] : [fileName, ''];
+  for (let attempt = 0; attempt < MAX_NUMBERED_NAMES; attempt++) {
+    const candidate = attempt === 0 ? fileName : `${base} (${attempt})${extension}`;
+    try {
+      await parent.getFileHandle(candidate);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'NotFoundError') return candidate;
+      // A folder by that name is taken as well
+      if (!(error instanceof DOMException && error.name === 'TypeMismatchError')) throw error;
+    }
+  }
+  throw new Error(`No free name for ${fileName}`);
+}
+
+// Sinks are created one at a time, so two files cannot both pick the same free name
+let creatingSink: Promise<unknown> = Promise.resolve();
+
+/**
+ * Create the file at relativePath under a directory, making folders as needed.
+ * Files already there are never overwritten, whether they were there before or
+ * the peer sent the same path twice: the new file gets a numbered name instead.
+ */
+export function createDirectorySink(directory: FileSystemDirectoryHandle, relativePath: string): Promise<ChunkSink> {
+  const created = creatingSink.then(async () => {
+    const segments = splitRelativePath(relativePath);
+    const fileName = segments.pop();
+    if (!fileName) {
+      throw new Error(`Invalid file path: ${relativePath}`);
+    }
+
+    let parent = directory;
+    for (const segment of segments) {
+      parent = await parent.getDirectoryHandle(segment, { create: true });
+    }
+    const freeName = await findFreeName(parent, fileName);
+    if (freeName !== fileName) {
+      console.warn(`${relativePath} already exists, saving it as ${freeName}`);
+    }
+    const handle = await parent.getFileHandle(freeName, { create: true });
+    return createFileHandleSink(handle);
+  });
+  creatingSink = created.catch(() => undefined);
+  return created;
+}
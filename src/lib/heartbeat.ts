@@ -0,0 +1,92 @@
+/**
+ * Liveness checks for one connection.
+ *
+ * A ping goes out every couple of seconds and the round trip of its pong is
+ * measured. Any message from the peer counts as a sign of life, so a busy
+ * connection whose pongs queue behind file chunks is not mistaken for a dead
+ * one; a connection that stays silent is reported degraded, then lost.
+ */
+
+export const PING_INTERVAL_MS = 2000;
+export const DEGRADED_AFTER_MS = 6000; // Silence before the connection counts as degraded
+export const LOST_AFTER_MS = 20000; // Silence before it is given up on
+
+export type ConnectionHealth = 'healthy' | 'degraded' | 'lost';
+
+export interface Heartbeat {
+  // Call for every message received from the peer
+  heard(): void;
+  // Call with the ID of every pong received
+  pong(id: number): void;
+  stop(): void;
+}
+
+export interface HeartbeatOptions {
+  ping: (id: number) => void;
+  onRtt: (rtt: number) => void; // Smoothed round trip in milliseconds
+  // Called when the health changes; nothing is called after 'lost'
+  onHealth: (health: ConnectionHealth) => void;
+  intervalMs?: number;
+  degradedAfterMs?: number;
+  lostAfterMs?: number;
+}
+
+export function createHeartbeat({
+  ping,
+  onRtt,
+  onHealth,
+  intervalMs = PING_INTERVAL_MS,
+  degradedAfterMs = DEGRADED_AFTER_MS,
+  lostAfterMs = LOST_AFTER_MS
+}: HeartbeatOptions): Heartbeat {
+  const sentAt = new Map<number, number>(); // Pings not answered yet, by ID
+  let nextId = 0;
+  let lastHeard = performance.now();
+  let health: ConnectionHealth = 'healthy';
+  let rtt: number | undefined;
+
+  const setHealth = (next: ConnectionHealth) => {
+    if (next === health) return;
+    health = next;
+    onHealth(next);
+  };
+
+  const beat = () => {
+    const now = performance.now();
+    const silence = now - lastHeard;
+    if (silence >= lostAfterMs) {
+      clearInterval(timer);
+      setHealth('lost');
+      return;
+    }
+    if (silence >= degradedAfterMs) {
+      setHealth('degraded');
+    }
+    // Pings this old will not be answered any more
+    sentAt.forEach((at, id) => {
+      if (now - at > lostAfterMs) sentAt.delete(id);
+    });
+    const id = nextId++;
+    sentAt.set(id, now);
+    ping(id);
+  };
+
+  const timer = setInterval(beat, intervalMs);
+
+  return {
+    heard: () => {
+      if (health === 'lost') return;
+      lastHeard = performance.now();
+      setHealth('healthy');
+    },
+    pong: (id) => {
+      const at = sentAt.get(id);
+      if (at === undefined) return;
+      sentAt.delete(id);
+      const sample = performance.now() - at;
+      rtt = rtt === undefined ? sample : rtt * 0.8 + sample * 0.2;
+      onRtt(rtt);
+    },
+    stop: () => clearInterval(timer)
+  };
+}
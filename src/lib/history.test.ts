@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { FileTransfer } from '../types';
+import { ConnectionRegistry, ConnectionRegistryEvents } from './connectionRegistry';
+import { createEmitter } from './emitter';
+import { createHistoryStore } from './history';
+import { TransferEngine, TransferEngineEvents } from './transferEngine';
+
+// Just enough of a registry and its engines to feed the history transfer events
+function createFakeRegistry() {
+  const emitter = createEmitter<ConnectionRegistryEvents>();
+  const registry = { on: emitter.on, off: emitter.off, connectedPeerIds: () => [] } as unknown as ConnectionRegistry;
+  const connect = (peerId: string) => {
+    const engineEmitter = createEmitter<TransferEngineEvents>();
+    const engine = { peerId, on: engineEmitter.on, off: engineEmitter.off } as unknown as TransferEngine;
+    emitter.emit('engine', engine);
+    return engineEmitter;
+  };
+  return { registry, connect };
+}
+
+const finishedTransfer = (peerId: string, id: string, name: string): FileTransfer => ({
+  id,
+  name,
+  size: 100,
+  type: 'text/plain',
+  progress: 100,
+  status: 'completed',
+  peerId,
+  direction: 'receive'
+});
+
+describe('createHistoryStore', () => {
+  it('keeps transfers from different peers apart even if their file IDs match', () => {
+    const { registry, connect } = createFakeRegistry();
+    const history = createHistoryStore(registry, { persist: false });
+    const alice = connect('alice');
+    const mallory = connect('mallory');
+
+    alice.emit('transfer', finishedTransfer('alice', 'file-1', 'report.pdf'));
+    mallory.emit('transfer', finishedTransfer('mallory', 'file-1', 'report.pdf.exe'));
+    mallory.emit('transfer-time', { fileId: 'file-1', time: { start: 0, end: 500 } });
+
+    const entries = history.list();
+    expect(entries.map(entry => [entry.peerId, entry.name]).sort()).toEqual([
+      ['alice', 'report.pdf'],
+      ['mallory', 'report.pdf.exe']
+    ]);
+    expect(entries.find(entry => entry.peerId === 'alice')?.durationMs).toBeUndefined();
+    expect(entries.find(entry => entry.peerId === 'mallory')?.durationMs).toBe(500);
+  });
+});
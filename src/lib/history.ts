@@ -0,0 +1,210 @@
+/**
+ * History of finished transfers, kept in IndexedDB so it survives a reload.
+ *
+ * Every transfer to or from any peer is recorded once it completes, fails or is
+ * rejected or cancelled. Received files can be kept as well, for downloading
+ * again later, up to a total size; the oldest kept files make room for new ones.
+ */
+import { FileTransfer, HistoryEntry, TransferTime } from '../types';
+import { ConnectionRegistry } from './connectionRegistry';
+import { createEmitter, Emitter } from './emitter';
+import { idbClear, idbDelete, idbGet, idbGetAll, idbPut, supportsIndexedDb } from './idb';
+import { TransferEngine, transferKey } from './transferEngine';
+
+// Total sizes of kept received files the user can choose from; 0 keeps none
+export const HISTORY_BLOB_QUOTAS = [0, 100 * 1024 * 1024, 500 * 1024 * 1024, 1024 * 1024 * 1024, 5 * 1024 * 1024 * 1024];
+
+export interface HistoryStoreEvents {
+  // Every entry, newest first
+  change: HistoryEntry[];
+}
+
+export interface HistoryStore {
+  on: Emitter<HistoryStoreEvents>['on'];
+  off: Emitter<HistoryStoreEvents>['off'];
+  // Resolves once the history has been loaded from storage
+  ready: Promise<void>;
+  list(): HistoryEntry[];
+  // A received file that was kept, if it still is
+  getBlob(id: string): Promise<Blob | undefined>;
+  remove(id: string): void;
+  clear(): void;
+  // Keep received files up to this many bytes in total; 0 keeps none
+  setBlobQuota(bytes: number): void;
+  // Every entry as JSON, without the kept files
+  exportJson(): string;
+}
+
+export interface HistoryStoreOptions {
+  persist?: boolean;
+  blobQuota?: number;
+}
+
+interface StoredBlob {
+  id: string;
+  blob: Blob;
+}
+
+const FINISHED: HistoryEntry['status'][] = ['completed', 'error', 'rejected', 'cancelled'];
+
+const isFinished = (status: FileTransfer['status']): status is HistoryEntry['status'] =>
+  (FINISHED as string[]).includes(status);
+
+const durationOf = (time?: TransferTime) =>
+  time?.end === undefined ? undefined : Math.max(0, time.end - time.start - (time.pausedMs ?? 0));
+
+export function createHistoryStore(
+  registry: ConnectionRegistry,
+  { persist = supportsIndexedDb(), blobQuota: initialQuota = 0 }: HistoryStoreOptions = {}
+): HistoryStore {
+  const emitter = createEmitter<HistoryStoreEvents>();
+  const entries = new Map<string, HistoryEntry>();
+  const times = new Map<string, TransferTime>(); // Of transfers not recorded yet, by transfer key
+  const peerNames = new Map<string, string>(); // Contact nicknames by peer ID
+  let blobQuota = initialQuota;
+
+  const list = () => [...entries.values()].sort((a, b) => b.finishedAt - a.finishedAt);
+
+  const notify = () => emitter.emit('change', list());
+
+  const save = (entry: HistoryEntry) => {
+    entries.set(entry.id, entry);
+    notify();
+    if (persist) {
+      idbPut('history', entry).catch(error => console.error('Error saving history entry:', error));
+    }
+  };
+
+  const dropBlob = (entry: HistoryEntry) => {
+    save({ ...entry, retained: false });
+    idbDelete('historyBlobs', entry.id).catch(error => console.error('Error removing kept file:', error));
+  };
+
+  // Drop the oldest kept files until `bytes` more fit in the quota
+  const makeRoom = (bytes: number) => {
+    const kept = list().filter(entry => entry.retained).reverse();
+    let total = kept.reduce((sum, entry) => sum + entry.size, 0);
+    kept.forEach(entry => {
+      if (total + bytes <= blobQuota) return;
+      console.log(`Dropping kept file ${entry.name} to stay within the history quota`);
+      dropBlob(entry);
+      total -= entry.size;
+    });
+  };
+
+  const retain = (entry: HistoryEntry, blob: Blob) => {
+    if (!persist || entry.size > blobQuota) return;
+    makeRoom(entry.size);
+    save({ ...entry, retained: true });
+    const stored: StoredBlob = { id: entry.id, blob };
+    idbPut('historyBlobs', stored).catch(error => {
+      console.error(`Error keeping ${entry.name}:`, error);
+      const current = entries.get(entry.id);
+      if (current) save({ ...current, retained: false });
+    });
+  };
+
+  const record = (peerId: string, transfer: FileTransfer) => {
+    if (!isFinished(transfer.status)) return;
+    const id = transferKey(peerId, transfer.id);
+    const existing = entries.get(id);
+    const entry: HistoryEntry = {
+      id,
+      name: transfer.name,
+      size: transfer.size,
+      type: transfer.type,
+      relativePath: transfer.relativePath,
+      peerId,
+      peerName: existing?.peerName ?? peerNames.get(peerId),
+      direction: transfer.direction ?? 'receive',
+      encryption: transfer.encryption,
+      sha256: transfer.sha256,
+      verified: transfer.verified,
+      durationMs: existing?.durationMs ?? durationOf(times.get(id)),
+      status: transfer.status,
+      finishedAt: existing?.finishedAt ?? Date.now(),
+      retained: existing?.retained
+    };
+    times.delete(id);
+    save(entry);
+
+    // Files saved straight to disk have no blob to keep
+    if (!existing?.retained && entry.direction === 'receive' && entry.status === 'completed' && transfer.blob) {
+      retain(entry, transfer.blob);
+    }
+  };
+
+  // The end time can arrive before or after the final status
+  const recordTime = (id: string, time: TransferTime) => {
+    const entry = entries.get(id);
+    if (!entry) {
+      times.set(id, time);
+      return;
+    }
+    const durationMs = durationOf(time);
+    if (durationMs !== undefined && durationMs !== entry.durationMs) {
+      save({ ...entry, durationMs });
+    }
+  };
+
+  const subscribe = (engine: TransferEngine) => {
+    engine.on('transfer', transfer => record(engine.peerId, transfer));
+    engine.on('transfer-time', ({ fileId, time }) => recordTime(transferKey(engine.peerId, fileId), time));
+  };
+
+  registry.connectedPeerIds().forEach(peerId => {
+    const engine = registry.get(peerId);
+    if (engine) subscribe(engine);
+  });
+  registry.on('engine', subscribe);
+  registry.on('peer', peer => {
+    if (peer.contactName) {
+      peerNames.set(peer.id, peer.contactName);
+    }
+  });
+
+  const ready = persist
+    ? idbGetAll<HistoryEntry>('history')
+        .then(stored => {
+          // Entries recorded while loading are newer
+          stored.forEach(entry => {
+            if (!entries.has(entry.id)) entries.set(entry.id, entry);
+          });
+          notify();
+        })
+        .catch(error => console.error('Error loading transfer history:', error))
+    : Promise.resolve();
+
+  return {
+    on: emitter.on,
+    off: emitter.off,
+    ready,
+    list,
+    getBlob: async (id) => {
+      if (!persist || !entries.get(id)?.retained) return undefined;
+      const stored = await idbGet<StoredBlob>('historyBlobs', id);
+      return stored?.blob;
+    },
+    remove: (id) => {
+      if (!entries.delete(id)) return;
+      notify();
+      if (persist) {
+        idbDelete('history', id).catch(error => console.error('Error removing history entry:', error));
+        idbDelete('historyBlobs', id).catch(error => console.error('Error removing kept file:', error));
+      }
+    },
+    clear: () => {
+      entries.clear();
+      notify();
+      if (persist) {
+        idbClear('history').catch(error => console.error('Error clearing transfer history:', error));
+        idbClear('historyBlobs').catch(error => console.error('Error clearing kept files:', error));
+      }
+    },
+    setBlobQuota: (bytes) => {
+      blobQuota = Math.max(0, bytes);
+      makeRoom(0);
+    },
+    exportJson: () => JSON.stringify(list().map(entry => ({ ...entry, retained: undefined })), null, 2)
+  };
+}
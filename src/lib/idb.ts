@@ -0,0 +1,83 @@
+/**
+ * Small promise wrapper around the app's IndexedDB database.
+ * Each feature that persists data gets its own object store here.
+ */
+
+const DB_NAME = 'p2p-file-sharing';
+const DB_VERSION = 3;
+
+// Object stores and their key paths
+const STORES = {
+  resume: 'fileId',
+  identity: 'id',
+  contacts: 'fingerprint',
+  history: 'id',
+  historyBlobs: 'id'
+} as const;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function supportsIndexedDb(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.entries(STORES).forEach(([name, keyPath]) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisify(operation(transaction.objectStore(storeName)));
+}
+
+export function idbGet<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+}
+
+export function idbGetAll<T>(storeName: StoreName): Promise<T[]> {
+  return withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+}
+
+export async function idbPut<T>(storeName: StoreName, value: T): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.put(value));
+}
+
+export async function idbDelete(storeName: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+}
+
+export async function idbClear(storeName: StoreName): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.clear());
+}
@@ -0,0 +1,107 @@
+/**
+ * Long-term device identity.
+ *
+ * Each browser gets an ECDSA P-256 signing key that is generated once and kept
+ * in IndexedDB with a non-extractable private key. It signs the ECDH public
+ * keys sent during key exchange, so a peer that has pinned our identity (see
+ * contacts.ts) knows the keys really come from us.
+ */
+import { idbGet, idbPut, supportsIndexedDb } from './idb';
+
+export interface DeviceIdentity {
+  privateKey: CryptoKey; // Non-extractable, signing only
+  publicKey: string; // Base64 SPKI
+  fingerprint: string; // Hex SHA-256 of the public key
+}
+
+interface StoredIdentity {
+  id: string;
+  privateKey: CryptoKey;
+  publicKey: CryptoKey;
+}
+
+const IDENTITY_RECORD_ID = 'device';
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' };
+
+const toBase64 = (buffer: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buffer)));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+// Fingerprint of an identity public key, as shown to users and pinned in contacts
+export async function computeKeyFingerprint(publicKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', fromBase64(publicKey));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Short form of a fingerprint for display, e.g. "3f2a 91bc 07de 44a1"
+export function formatFingerprint(fingerprint: string, groups = 4): string {
+  return (fingerprint.match(/.{1,4}/g) ?? []).slice(0, groups).join(' ');
+}
+
+async function toIdentity(privateKey: CryptoKey, publicKey: CryptoKey): Promise<DeviceIdentity> {
+  const exported = toBase64(await crypto.subtle.exportKey('spki', publicKey));
+  return {
+    privateKey,
+    publicKey: exported,
+    fingerprint: await computeKeyFingerprint(exported)
+  };
+}
+
+async function generateIdentityKeys(): Promise<CryptoKeyPair> {
+  // The public half of a key pair is always exportable
+  return crypto.subtle.generateKey(SIGNING_ALGORITHM, false, ['sign', 'verify']);
+}
+
+let deviceIdentity: Promise<DeviceIdentity> | null = null;
+
+async function loadOrCreateIdentity(): Promise<DeviceIdentity> {
+  const stored = await idbGet<StoredIdentity>('identity', IDENTITY_RECORD_ID);
+  if (stored) {
+    return toIdentity(stored.privateKey, stored.publicKey);
+  }
+
+  const keys = await generateIdentityKeys();
+  await idbPut<StoredIdentity>('identity', {
+    id: IDENTITY_RECORD_ID,
+    privateKey: keys.privateKey,
+    publicKey: keys.publicKey
+  });
+  return toIdentity(keys.privateKey, keys.publicKey);
+}
+
+// Identity that only lives as long as the page, used where IndexedDB is unavailable
+export async function createEphemeralIdentity(): Promise<DeviceIdentity> {
+  const keys = await generateIdentityKeys();
+  return toIdentity(keys.privateKey, keys.publicKey);
+}
+
+/**
+ * This browser's identity, created on first use. Falls back to an ephemeral
+ * identity if it cannot be persisted.
+ */
+export function getDeviceIdentity(): Promise<DeviceIdentity> {
+  if (!deviceIdentity) {
+    deviceIdentity = supportsIndexedDb()
+      ? loadOrCreateIdentity().catch(error => {
+          console.error('Could not load device identity, using a temporary one:', error);
+          return createEphemeralIdentity();
+        })
+      : createEphemeralIdentity();
+  }
+  return deviceIdentity;
+}
+
+export async function signData(identity: DeviceIdentity, data: string): Promise<string> {
+  const signature = await crypto.subtle.sign(SIGNATURE_PARAMS, identity.privateKey, new TextEncoder().encode(data));
+  return toBase64(signature);
+}
+
+export async function verifySignature(publicKey: string, data: string, signature: string): Promise<boolean> {
+  try {
+    const key = await crypto.subtle.importKey('spki', fromBase64(publicKey), SIGNING_ALGORITHM, false, ['verify']);
+    return await crypto.subtle.verify(SIGNATURE_PARAMS, key, fromBase64(signature), new TextEncoder().encode(data));
+  } catch (error) {
+    console.error('Error verifying signature:', error);
+    return false;
+  }
+}
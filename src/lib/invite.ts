@@ -0,0 +1,85 @@
+/**
+ * Invite links that connect to a peer when opened.
+ *
+ * An invite is the app's own URL with the peer ID, the fingerprint of the
+ * peer's identity key and an expiry time in the fragment, e.g.
+ * "https://example.com/#join=<peerId>&fp=<fingerprint>&exp=<timestamp>". The
+ * fragment never reaches a server. The connection is refused if the peer that
+ * answers presents a different identity key than the invite names.
+ */
+
+// Peer IDs only last as long as the other side's page, so invites need not last long
+export const INVITE_LIFETIME_MS = 60 * 60 * 1000;
+
+export interface Invite {
+  peerId: string;
+  fingerprint?: string; // Identity key the peer must present; any if absent
+  expiresAt?: number; // Plain peer IDs do not expire
+}
+
+export const MAX_PEER_ID_LENGTH = 50;
+// Same rule PeerJS applies to IDs
+const PEER_ID_PATTERN = /^[A-Za-z0-9]+(?:[ _-][A-Za-z0-9]+)*$/;
+const FINGERPRINT_PATTERN = /^[0-9a-f]{64}$/;
+
+export const isValidPeerId = (id: string) => id.length <= MAX_PEER_ID_LENGTH && PEER_ID_PATTERN.test(id);
+
+export function createInvite(peerId: string, fingerprint?: string, lifetimeMs = INVITE_LIFETIME_MS): Invite {
+  return { peerId, fingerprint: fingerprint || undefined, expiresAt: Date.now() + lifetimeMs };
+}
+
+// The fragment alone, e.g. "join=<peerId>&fp=<fingerprint>&exp=<timestamp>"
+export function toInviteFragment({ peerId, fingerprint, expiresAt }: Invite): string {
+  const params = new URLSearchParams({ join: peerId });
+  if (fingerprint) params.set('fp', fingerprint);
+  if (expiresAt) params.set('exp', String(expiresAt));
+  return params.toString();
+}
+
+export function toInviteLink(invite: Invite, base = window.location.href): string {
+  const url = new URL(base);
+  url.hash = toInviteFragment(invite);
+  return url.toString();
+}
+
+/**
+ * Read an invite link, its fragment or a bare peer ID, as typed, pasted or
+ * scanned. Throws if it is malformed or has expired, saying which.
+ */
+export function parseInvite(text: string, now = Date.now()): Invite {
+  const trimmed = text.trim();
+  const hashIndex = trimmed.indexOf('#');
+  const fragment = hashIndex >= 0 ? trimmed.slice(hashIndex + 1) : trimmed.startsWith('join=') ? trimmed : undefined;
+
+  if (fragment === undefined) {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(trimmed)) throw new Error('This link is not an invite');
+    if (!isValidPeerId(trimmed)) throw new Error(`"${trimmed}" is not a peer ID or invite link`);
+    return { peerId: trimmed };
+  }
+
+  const params = new URLSearchParams(fragment);
+  const peerId = params.get('join');
+  if (!peerId) throw new Error('This link is not an invite');
+  if (!isValidPeerId(peerId)) throw new Error('The invite has an invalid peer ID');
+
+  const fingerprint = params.get('fp')?.toLowerCase() || undefined;
+  if (fingerprint && !FINGERPRINT_PATTERN.test(fingerprint)) throw new Error('The invite has an invalid key fingerprint');
+
+  const exp = params.get('exp');
+  const expiresAt = exp ? Number(exp) : undefined;
+  if (expiresAt !== undefined && !Number.isFinite(expiresAt)) throw new Error('The invite has an invalid expiry time');
+  if (expiresAt !== undefined && expiresAt < now) {
+    throw new Error(`The invite expired at ${new Date(expiresAt).toLocaleString()}; ask for a new one`);
+  }
+
+  return { peerId, fingerprint, expiresAt };
+}
+
+// The invite fragment the page was opened with, if any. It is removed from the
+// address bar, so reloading does not follow it again
+export function takeInviteFromLocation(): string | undefined {
+  const { hash, pathname, search } = window.location;
+  if (!new URLSearchParams(hash.slice(1)).has('join')) return undefined;
+  window.history.replaceState(null, '', pathname + search);
+  return hash;
+}
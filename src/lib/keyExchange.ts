@@ -1,23 +1,32 @@
 /**
  * Key exchange module using Diffie-Hellman with ECDH (Elliptic Curve Diffie-Hellman)
- * This provides Perfect Forward Secrecy for file transfers
+ * Every session uses fresh ephemeral key pairs, and the shared secret is run
+ * through HKDF with a per-session salt, which provides Perfect Forward Secrecy
+ * for file transfers
  */
 
-// Generate a key pair for ECDH key exchange
+// Session keys nobody has used are wiped after this long
+export const SESSION_KEY_TTL_MS = 10 * 60 * 1000;
+// Transfers starting later than this after the key exchange negotiate a fresh key
+export const SESSION_KEY_ROTATE_MS = 5 * 60 * 1000;
+
+const HKDF_SALT_BYTES = 32;
+
+// Generate an ephemeral key pair for a single ECDH key exchange
 export async function generateKeyPair(): Promise<CryptoKeyPair> {
-  return await window.crypto.subtle.generateKey(
+  return await crypto.subtle.generateKey(
     {
       name: 'ECDH',
       namedCurve: 'P-256' // Using P-256 curve for good security and performance
     },
-    true, // extractable
+    false, // The private key never leaves this session; the public key is always exportable
     ['deriveKey', 'deriveBits'] // key usages
   );
 }
 
 // Export the public key to share with the peer
 export async function exportPublicKey(publicKey: CryptoKey): Promise<string> {
-  const exported = await window.crypto.subtle.exportKey('spki', publicKey);
+  const exported = await crypto.subtle.exportKey('spki', publicKey);
   // Convert to base64 for transmission
   return btoa(String.fromCharCode(...new Uint8Array(exported)));
 }
@@ -25,7 +34,7 @@ export async function exportPublicKey(publicKey: CryptoKey): Promise<string> {
 // Import a peer's public key
 export async function importPublicKey(publicKeyStr: string): Promise<CryptoKey> {
   const keyData = Uint8Array.from(atob(publicKeyStr), c => c.charCodeAt(0));
-  return await window.crypto.subtle.importKey(
+  return await crypto.subtle.importKey(
     'spki',
     keyData,
     {
@@ -37,59 +46,183 @@ export async function importPublicKey(publicKeyStr: string): Promise<CryptoKey>
   );
 }
 
-// Derive a shared secret using our private key and the peer's public key
-export async function deriveSharedSecret(
+// Random HKDF salt for one session, base64 encoded for transmission
+export function generateSalt(): string {
+  const salt = crypto.getRandomValues(new Uint8Array(HKDF_SALT_BYTES));
+  return btoa(String.fromCharCode(...salt));
+}
+
+// HKDF context binding a session key to its session and both ends of the connection
+export function sessionKeyInfo(sessionId: string, initiatorId: string, responderId: string): string {
+  return `p2p-file-sharing session key v1|${sessionId}|${initiatorId}|${responderId}`;
+}
+
+// HKDF-SHA-256 over the raw ECDH output, which is not uniformly random enough to use as a key itself
+async function deriveFromSharedSecret(
   privateKey: CryptoKey,
-  peerPublicKey: CryptoKey
+  peerPublicKey: CryptoKey,
+  salt: Uint8Array,
+  info: string,
+  algorithm: AesKeyGenParams | HmacKeyGenParams,
+  usages: KeyUsage[]
 ): Promise<CryptoKey> {
-  return await window.crypto.subtle.deriveKey(
+  const sharedSecret = await crypto.subtle.deriveBits(
     {
       name: 'ECDH',
       public: peerPublicKey
     },
     privateKey,
+    256
+  );
+  const keyMaterial = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+  return await crypto.subtle.deriveKey(
     {
-      name: 'AES-GCM',
-      length: 256
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt,
+      info: new TextEncoder().encode(info)
     },
+    keyMaterial,
+    algorithm,
     false, // not extractable - for security
+    usages
+  );
+}
+
+// Derive the AES-GCM session key from our private key and the peer's public key
+export async function deriveSessionKey(
+  privateKey: CryptoKey,
+  peerPublicKey: CryptoKey,
+  salt: string,
+  info: string
+): Promise<CryptoKey> {
+  return deriveFromSharedSecret(
+    privateKey,
+    peerPublicKey,
+    Uint8Array.from(atob(salt), c => c.charCodeAt(0)),
+    info,
+    { name: 'AES-GCM', length: 256 },
     ['encrypt', 'decrypt']
   );
 }
 
+/**
+ * Derive the HMAC key that authenticates every message on a connection. Both
+ * sides get the same key whichever of them connected first.
+ */
+export async function deriveChannelKey(
+  privateKey: CryptoKey,
+  peerPublicKey: CryptoKey,
+  connectionIds: [string, string],
+  peerIds: [string, string]
+): Promise<CryptoKey> {
+  const salt = new TextEncoder().encode([...connectionIds].sort().join('|'));
+  const info = `p2p-file-sharing channel key v1|${[...peerIds].sort().join('|')}`;
+  return deriveFromSharedSecret(
+    privateKey,
+    peerPublicKey,
+    salt,
+    info,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    ['sign', 'verify']
+  );
+}
+
 // Generate a session ID to identify this key exchange session
 export function generateSessionId(): string {
   const array = new Uint8Array(16);
-  window.crypto.getRandomValues(array);
+  crypto.getRandomValues(array);
   return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
 }
 
-// Store for session keys
-interface SessionKeyStore {
-  [sessionId: string]: CryptoKey;
+interface StoredSessionKey {
+  key: CryptoKey;
+  createdAt: number;
+  expiry: ReturnType<typeof setTimeout>;
 }
 
-// Global store for session keys
-const sessionKeys: SessionKeyStore = {};
-
-// Store a derived key with its session ID
-export function storeSessionKey(sessionId: string, key: CryptoKey): void {
-  sessionKeys[sessionId] = key;
+export interface SessionKeyStore {
+  // Store a derived key with its session ID; it is wiped after ttlMs
+  store(sessionId: string, key: CryptoKey): void;
+  get(sessionId: string): CryptoKey | undefined;
+  // Whether a key is young enough to start a new transfer with
+  isFresh(sessionId: string): boolean;
+  // Remove a session key when it's no longer needed
+  remove(sessionId: string): void;
+  clear(): void;
+  // List all available session keys (for debugging)
+  list(): string[];
 }
 
-// Get a stored session key
-export function getSessionKey(sessionId: string): CryptoKey | undefined {
-  return sessionKeys[sessionId];
-}
+// Session keys for one connection, so they go away with it
+export function createSessionKeyStore(
+  ttlMs = SESSION_KEY_TTL_MS,
+  rotateMs = SESSION_KEY_ROTATE_MS
+): SessionKeyStore {
+  const sessionKeys = new Map<string, StoredSessionKey>();
 
-// Remove a session key when it's no longer needed
-export function removeSessionKey(sessionId: string): void {
-  if (sessionKeys[sessionId]) {
-    delete sessionKeys[sessionId];
-  }
+  const remove = (sessionId: string) => {
+    const stored = sessionKeys.get(sessionId);
+    if (!stored) return;
+    clearTimeout(stored.expiry);
+    sessionKeys.delete(sessionId);
+  };
+
+  return {
+    store: (sessionId, key) => {
+      remove(sessionId);
+      sessionKeys.set(sessionId, {
+        key,
+        createdAt: Date.now(),
+        expiry: setTimeout(() => {
+          console.log('Session key expired for sessionId:', sessionId);
+          sessionKeys.delete(sessionId);
+        }, ttlMs)
+      });
+    },
+    get: (sessionId) => sessionKeys.get(sessionId)?.key,
+    isFresh: (sessionId) => {
+      const stored = sessionKeys.get(sessionId);
+      return !!stored && Date.now() - stored.createdAt < rotateMs;
+    },
+    remove,
+    clear: () => {
+      sessionKeys.forEach(stored => clearTimeout(stored.expiry));
+      sessionKeys.clear();
+    },
+    list: () => [...sessionKeys.keys()]
+  };
 }
 
-// List all available session keys (for debugging)
-export function listSessionKeys(): string[] {
-  return Object.keys(sessionKeys);
+// Number of 5-digit groups in a safety number
+const SAFETY_NUMBER_GROUPS = 6;
+
+/**
+ * Derive a safety number from both peers' identity keys. Both sides get the same
+ * digits regardless of who is "local", so users can compare them out of band;
+ * a man in the middle would have swapped in its own keys and the digits differ.
+ */
+export async function computeSafetyNumber(publicKeyA: string, publicKeyB: string): Promise<string[]> {
+  const [first, second] = [publicKeyA, publicKeyB].sort();
+  const decode = (key: string) => Uint8Array.from(atob(key), c => c.charCodeAt(0));
+  const label = new TextEncoder().encode('p2p-file-sharing safety number v1');
+  const a = decode(first);
+  const b = decode(second);
+
+  const input = new Uint8Array(label.length + a.length + b.length);
+  input.set(label, 0);
+  input.set(a, label.length);
+  input.set(b, label.length + a.length);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+
+  // Each group is 5 bytes of the digest reduced to 5 digits, as in Signal's safety numbers
+  const groups: string[] = [];
+  for (let group = 0; group < SAFETY_NUMBER_GROUPS; group++) {
+    let value = 0;
+    for (let i = 0; i < 5; i++) {
+      value = value * 256 + digest[group * 5 + i];
+    }
+    groups.push(String(value % 100000).padStart(5, '0'));
+  }
+  return groups;
 }
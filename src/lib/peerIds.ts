@@ -0,0 +1,173 @@
+/**
+ * Peer IDs people can read out, and short pairing codes that stand in for them.
+ *
+ * A custom ID is asked for from the signalling server as is; if it is taken,
+ * numbered variants are tried. A pairing code such as "tiger-lamp-42" is
+ * registered with the signalling server as a second, short-lived peer. Whoever
+ * connects to it is sent an invite for our real ID and identity key, and
+ * connects to that instead; the code stops working after a few minutes.
+ */
+import Peer, { PeerOptions } from 'peerjs';
+import { Invite, isValidPeerId, MAX_PEER_ID_LENGTH, parseInvite, toInviteFragment } from './invite';
+
+// Numbered variants of a taken custom ID tried before falling back to a random one
+export const MAX_CUSTOM_ID_ATTEMPTS = 5;
+export const PAIRING_CODE_LIFETIME_MS = 5 * 60 * 1000;
+// Codes already taken on the signalling server tried before giving up
+const MAX_PAIRING_CODE_ATTEMPTS = 5;
+const PAIRING_TIMEOUT_MS = 15000;
+// Keeps pairing peers apart from real IDs on a shared signalling server
+const PAIRING_ID_PREFIX = 'p2pfs-pair-';
+
+const PAIRING_CODE_PATTERN = /^([a-z]+)-([a-z]+)-(\d{2})$/;
+
+// Short, distinct and easy to spell
+const PAIRING_WORDS = [
+  'acorn', 'amber', 'apple', 'arrow', 'aspen', 'badge', 'bagel', 'basil', 'beach', 'bell',
+  'berry', 'birch', 'bison', 'blade', 'bloom', 'boat', 'bolt', 'brick', 'brook', 'cabin',
+  'cable', 'camel', 'candy', 'canoe', 'cedar', 'chalk', 'cherry', 'cider', 'cliff', 'clock',
+  'cloud', 'clover', 'coast', 'cobra', 'comet', 'coral', 'crane', 'crown', 'daisy', 'delta',
+  'desk', 'dingo', 'dolphin', 'dome', 'dove', 'dune', 'eagle', 'ember', 'fable', 'falcon',
+  'fern', 'field', 'flame', 'flute', 'forest', 'fox', 'frost', 'garden', 'gecko', 'ginger',
+  'glade', 'globe', 'grape', 'hazel', 'heron', 'honey', 'igloo', 'iris', 'island', 'ivy',
+  'jade', 'jazz', 'jelly', 'kayak', 'kiwi', 'koala', 'lake', 'lamp', 'lemon', 'lily',
+  'lion', 'llama', 'lotus', 'mango', 'maple', 'marble', 'meadow', 'melon', 'mint', 'moon',
+  'moss', 'nest', 'noodle', 'oak', 'ocean', 'olive', 'orbit', 'otter', 'owl', 'palm',
+  'panda', 'pearl', 'pepper', 'piano', 'pine', 'plum', 'pony', 'quartz', 'rabbit', 'raven',
+  'reef', 'river', 'robin', 'rocket', 'rose', 'ruby', 'sage', 'salmon', 'sand', 'shell',
+  'silver', 'sky', 'snow', 'spark', 'star', 'stone', 'storm', 'sun', 'swan', 'tiger',
+  'toast', 'topaz', 'tulip', 'violet', 'walnut', 'whale', 'willow', 'wolf', 'zebra'
+];
+
+// Throws if the signalling server would refuse the ID, saying why
+export function checkPeerId(id: string): string {
+  if (id.length > MAX_PEER_ID_LENGTH) throw new Error(`A peer ID can have at most ${MAX_PEER_ID_LENGTH} characters`);
+  if (!isValidPeerId(id)) {
+    throw new Error('A peer ID can only have letters, digits and single spaces, dashes or underscores between them');
+  }
+  return id;
+}
+
+// The ID to ask for on the given attempt: "alice", then "alice-2", "alice-3"...
+export function customIdCandidate(id: string, attempt: number): string {
+  return attempt === 0 ? id : `${id}-${attempt + 1}`;
+}
+
+const randomInt = (max: number) => crypto.getRandomValues(new Uint32Array(1))[0] % max;
+
+export function generatePairingCode(): string {
+  const word = () => PAIRING_WORDS[randomInt(PAIRING_WORDS.length)];
+  return `${word()}-${word()}-${String(randomInt(100)).padStart(2, '0')}`;
+}
+
+// Typed on a phone, codes may come with capitals, spaces or stray punctuation
+export function normalizePairingCode(text: string): string | undefined {
+  const words = text.trim().toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const code = words.join('-');
+  const match = PAIRING_CODE_PATTERN.exec(code);
+  if (!match || !PAIRING_WORDS.includes(match[1]) || !PAIRING_WORDS.includes(match[2])) return undefined;
+  return code;
+}
+
+const pairingPeerId = (code: string) => PAIRING_ID_PREFIX + code;
+
+export interface PairingCode {
+  code: string;
+  expiresAt: number;
+  close(): void;
+}
+
+/**
+ * Register a pairing code that hands out an invite to the given peer until it
+ * expires or is closed. Resolves once the code can be used; rejects if no free
+ * code was found or the signalling server cannot be reached.
+ */
+export function openPairingCode(options: PeerOptions, invite: Invite, onExpire: () => void): Promise<PairingCode> {
+  return new Promise((resolve, reject) => {
+    const tryCode = (attempt: number) => {
+      const code = generatePairingCode();
+      const peer = new Peer(pairingPeerId(code), options);
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const close = () => {
+        clearTimeout(timer);
+        peer.destroy();
+      };
+
+      peer.on('open', () => {
+        const expiresAt = Date.now() + PAIRING_CODE_LIFETIME_MS;
+        timer = setTimeout(() => {
+          console.log(`Pairing code ${code} expired`);
+          close();
+          onExpire();
+        }, PAIRING_CODE_LIFETIME_MS);
+        console.log(`Pairing code ${code} is ready`);
+        resolve({ code, expiresAt, close });
+      });
+
+      peer.on('connection', (conn) => {
+        conn.on('open', () => {
+          console.log(`Sending our peer ID to ${conn.peer} for pairing code ${code}`);
+          conn.send(toInviteFragment(invite));
+          // The other side closes once it has the invite; don't keep stragglers around
+          setTimeout(() => conn.close(), PAIRING_TIMEOUT_MS);
+        });
+      });
+
+      peer.on('error', (error) => {
+        if (error.type === 'unavailable-id' && attempt + 1 < MAX_PAIRING_CODE_ATTEMPTS) {
+          close();
+          tryCode(attempt + 1);
+          return;
+        }
+        console.error(`Pairing code ${code} error:`, error);
+        if (!peer.open) {
+          close();
+          reject(new Error(`Could not register a pairing code: ${error.message}`));
+        }
+      });
+    };
+    tryCode(0);
+  });
+}
+
+/**
+ * Ask the peer behind a pairing code for its invite, through our own peer.
+ * Rejects if nobody has that code or it does not answer in time.
+ */
+export function resolvePairingCode(peer: Peer, code: string): Promise<Invite> {
+  return new Promise((resolve, reject) => {
+    const pairingId = pairingPeerId(code);
+    const conn = peer.connect(pairingId, { serialization: 'json' });
+
+    // Unreachable peers are reported on our peer, not the connection
+    const handlePeerError = (error: { type: string; message: string }) => {
+      if (error.type === 'peer-unavailable' && error.message.endsWith(pairingId)) {
+        finish(new Error(`Nobody is using pairing code ${code}; it may have expired`));
+      }
+    };
+
+    const timer = setTimeout(() => finish(new Error(`Pairing code ${code} did not answer`)), PAIRING_TIMEOUT_MS);
+
+    const finish = (result: Invite | Error) => {
+      clearTimeout(timer);
+      peer.off('error', handlePeerError);
+      conn.close();
+      if (result instanceof Error) {
+        reject(result);
+      } else {
+        resolve(result);
+      }
+    };
+
+    peer.on('error', handlePeerError);
+    conn.on('data', (data) => {
+      try {
+        finish(parseInvite(String(data)));
+      } catch (error) {
+        finish(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+    conn.on('error', (error) => finish(error));
+  });
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { checkCompatibility, negotiate, parseEnvelope, parseMessage, PROTOCOL_VERSION } from './protocol';
+
+const fileRequest = {
+  type: 'file-request',
+  fileId: 'file-1',
+  fileName: 'notes.txt',
+  fileSize: 1234,
+  fileType: 'text/plain',
+  iv: Array.from({ length: 12 }, (_, i) => i),
+  encryption: 'ecdh'
+};
+
+describe('parseMessage', () => {
+  it('keeps the fields of a valid message and drops unknown ones', () => {
+    expect(parseMessage({ ...fileRequest, extra: 'ignored' })).toEqual(fileRequest);
+  });
+
+  it('treats null optional fields as missing', () => {
+    expect(parseMessage({ type: 'file-cancel', fileId: 'file-1', reason: null })).toEqual({ type: 'file-cancel', fileId: 'file-1' });
+  });
+
+  it('parses nested objects', () => {
+    const cancel = { type: 'file-cancel', fileId: 'file-1', reason: { code: 'quota', message: 'Too big' } };
+    expect(parseMessage(cancel)).toEqual(cancel);
+  });
+
+  it('copies binary views into an ArrayBuffer', () => {
+    const data = new Uint8Array([1, 2, 3, 4]);
+    const parsed = parseMessage({
+      type: 'file-chunk',
+      fileId: 'file-1',
+      chunk: 0,
+      total: 1,
+      data: data.subarray(1, 3),
+      digest: '0'.repeat(64)
+    });
+    expect(parsed.type === 'file-chunk' && new Uint8Array(parsed.data)).toEqual(new Uint8Array([2, 3]));
+  });
+
+  it('rejects unknown message types', () => {
+    expect(() => parseMessage({ type: 'self-destruct' })).toThrow('unknown message type self-destruct');
+    expect(() => parseMessage('file-request')).toThrow('unknown message type undefined');
+  });
+
+  it('says which field is malformed', () => {
+    expect(() => parseMessage({ ...fileRequest, fileSize: -1 })).toThrow('file-request.fileSize is outside');
+    expect(() => parseMessage({ ...fileRequest, fileName: 42 })).toThrow('file-request.fileName is not a string');
+    expect(() => parseMessage({ ...fileRequest, iv: [1, 2, 3] })).toThrow('file-request.iv does not have 12..12 items');
+    expect(() => parseMessage({ ...fileRequest, iv: [...fileRequest.iv.slice(1), 256] })).toThrow('file-request.iv[11] is outside');
+    expect(() => parseMessage({ ...fileRequest, type: 'file-start', encryption: 'rot13' }))
+      .toThrow('file-start.encryption is not one of');
+    expect(() => parseMessage({ type: 'file-complete', fileId: 'file-1', sha256: 'not-a-digest' }))
+      .toThrow('file-complete.sha256 is not a hex SHA-256 digest');
+  });
+
+  it('rejects missing required fields', () => {
+    expect(() => parseMessage({ type: 'chunk-ack', fileId: 'file-1' })).toThrow('chunk-ack.chunk is not an integer');
+  });
+});
+
+describe('parseEnvelope', () => {
+  const mac = 'A'.repeat(43) + '=';
+
+  it('leaves the message unparsed until the MAC is checked', () => {
+    const message = { type: 'self-destruct' };
+    expect(parseEnvelope({ type: 'envelope', seq: 1, message, mac })).toEqual({ type: 'envelope', seq: 1, message, mac });
+  });
+
+  it('rejects anything that is not an envelope', () => {
+    expect(() => parseEnvelope({ type: 'file-request' })).toThrow('not an envelope');
+  });
+
+  it('rejects sequence numbers below 1 and malformed MACs', () => {
+    expect(() => parseEnvelope({ type: 'envelope', seq: 0, message: {}, mac })).toThrow('envelope.seq is outside');
+    expect(() => parseEnvelope({ type: 'envelope', seq: 1, message: {}, mac: 'not base64!' })).toThrow('envelope.mac is not base64');
+  });
+});
+
+describe('checkCompatibility', () => {
+  it('accepts peers speaking our version', () => {
+    expect(checkCompatibility(PROTOCOL_VERSION, PROTOCOL_VERSION)).toBeUndefined();
+  });
+
+  it('explains which side needs to update', () => {
+    expect(checkCompatibility(1, 1)).toMatch('older version');
+    expect(checkCompatibility(PROTOCOL_VERSION + 1, PROTOCOL_VERSION + 1)).toMatch('newer version');
+  });
+});
+
+describe('negotiate', () => {
+  it('agrees on the shared capabilities and the smaller lane count', () => {
+    const result = negotiate(PROTOCOL_VERSION, ['resume', 'from-the-future'], 2, 4);
+    expect(result.capabilities).toEqual(['resume']);
+    expect(result.lanes).toBe(2);
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Wire protocol definition.
+ *
+ * Every message peers exchange is described once in MESSAGE_SCHEMAS; the
+ * ProtocolMessage union is derived from it and incoming messages are parsed
+ * against it, so handlers never see a field of the wrong type or size.
+ *
+ * Peers open with a hello that carries the protocol version they speak and the
+ * optional features they support. The type, version and minVersion fields of
+ * the hello must never change, so that clients of any version can tell they
+ * cannot talk to each other.
+ */
+import { EncryptionMode, TransferErrorCode } from '../types';
+
+// Version 1 had an unversioned key-exchange-hello and unauthenticated messages
+export const PROTOCOL_VERSION = 2;
+export const MIN_PROTOCOL_VERSION = 2; // Oldest version we still talk to
+
+// Optional features we support; a feature is only used if both peers list it
+export const CAPABILITIES = ['resume', 'folders', 'passphrase', 'chunk-size', 'pause', 'heartbeat', 'error-reasons'] as const;
+export type Capability = typeof CAPABILITIES[number];
+
+export const ENCRYPTION_MODES: readonly EncryptionMode[] = ['ecdh', 'passphrase'];
+export const MAX_FILE_SIZE = 2 ** 40; // 1 TiB
+
+export const TRANSFER_ERROR_CODES: readonly TransferErrorCode[] = [
+  'declined', 'too-large', 'type-not-allowed', 'quota-exceeded', 'unsupported', 'key-missing',
+  'decrypt-failed', 'hash-mismatch', 'disk-full', 'timeout', 'connection-lost', 'failed'
+];
+export const MAX_ERROR_MESSAGE_LENGTH = 200;
+
+// Files are split into chunks of one size, chosen per file by the sender. Peers
+// without the chunk-size capability always use the default.
+export const DEFAULT_CHUNK_SIZE = 2 * 1024 * 1024;
+export const MIN_CHUNK_SIZE = 64 * 1024;
+export const MAX_CHUNK_SIZE = 2 * 1024 * 1024;
+export const MAX_CHUNKS = 2 ** 20; // Keeps resume bitmaps small
+
+// Data channels per peer that chunks can be striped across; peers use the smaller
+// of the two counts in their hellos
+export const MAX_LANES = 4;
+
+// Parses a field, throwing with the field's path if it is malformed
+type Parser<T> = (value: unknown, path: string) => T;
+
+interface OptionalField<T> {
+  optional: Parser<T>;
+}
+
+type Field = Parser<unknown> | OptionalField<unknown>;
+type Shape = Record<string, Field>;
+
+type Parsed<F> = F extends OptionalField<infer T> ? T : F extends Parser<infer T> ? T : never;
+type Simplify<T> = { [K in keyof T]: T[K] };
+type Infer<S extends Shape> = Simplify<
+  { [K in keyof S as S[K] extends OptionalField<unknown> ? never : K]: Parsed<S[K]> } &
+  { [K in keyof S as S[K] extends OptionalField<unknown> ? K : never]?: Parsed<S[K]> }
+>;
+
+const fail = (path: string, problem: string): never => {
+  throw new Error(`${path} ${problem}`);
+};
+
+const string = (maxLength = 1024): Parser<string> => (value, path) => {
+  if (typeof value !== 'string') return fail(path, 'is not a string');
+  if (value.length > maxLength) return fail(path, `is longer than ${maxLength} characters`);
+  return value;
+};
+
+const pattern = (regex: RegExp, maxLength: number, description: string): Parser<string> => (value, path) => {
+  const parsed = string(maxLength)(value, path);
+  return regex.test(parsed) ? parsed : fail(path, `is not ${description}`);
+};
+
+const base64 = (maxLength = 1024) => pattern(/^[A-Za-z0-9+/]*={0,2}$/, maxLength, 'base64');
+const sha256Hex = pattern(/^[0-9a-f]{64}$/, 64, 'a hex SHA-256 digest');
+
+const integer = (min = 0, max = Number.MAX_SAFE_INTEGER): Parser<number> => (value, path) => {
+  if (!Number.isSafeInteger(value)) return fail(path, 'is not an integer');
+  const parsed = value as number;
+  return parsed >= min && parsed <= max ? parsed : fail(path, `is outside ${min}..${max}`);
+};
+
+const boolean: Parser<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : fail(path, 'is not a boolean');
+
+const oneOf = <T extends string>(values: readonly T[]): Parser<T> => (value, path) =>
+  values.includes(value as T) ? value as T : fail(path, `is not one of ${values.join(', ')}`);
+
+const bytes: Parser<ArrayBuffer> = (value, path) => {
+  if (value instanceof ArrayBuffer) return value;
+  if (ArrayBuffer.isView(value)) {
+    return value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength) as ArrayBuffer;
+  }
+  return fail(path, 'is not binary data');
+};
+
+const arrayOf = <T>(item: Parser<T>, minLength: number, maxLength: number): Parser<T[]> => (value, path) => {
+  if (!Array.isArray(value)) return fail(path, 'is not an array');
+  if (value.length < minLength || value.length > maxLength) {
+    return fail(path, `does not have ${minLength}..${maxLength} items`);
+  }
+  return value.map((entry, index) => item(entry, `${path}[${index}]`));
+};
+
+const optional = <T>(parser: Parser<T>): OptionalField<T> => ({ optional: parser });
+
+// Unknown fields are dropped; null counts as missing since the data channel may turn undefined into null
+const object = <S extends Shape>(shape: S): Parser<Infer<S>> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(path, 'is not an object');
+  }
+  const input = value as Record<string, unknown>;
+  const parsed: Record<string, unknown> = {};
+  Object.entries(shape).forEach(([key, field]) => {
+    const fieldPath = `${path}.${key}`;
+    if (typeof field === 'function') {
+      parsed[key] = field(input[key], fieldPath);
+    } else if (input[key] !== undefined && input[key] !== null) {
+      parsed[key] = field.optional(input[key], fieldPath);
+    }
+  });
+  return parsed as Infer<S>;
+};
+
+const fileId = string(128);
+const sessionId = string(128);
+const chunkIndex = integer(0, MAX_CHUNKS - 1);
+const fileSize = integer(0, MAX_FILE_SIZE);
+
+const transferGroup = object({
+  id: string(128),
+  name: string(1024),
+  fileCount: integer(),
+  totalSize: integer()
+});
+
+const transferBatch = object({
+  id: string(128),
+  fileCount: integer(1),
+  totalSize: integer()
+});
+
+const passphraseParams = object({
+  salt: base64(),
+  iterations: integer(1),
+  check: base64()
+});
+
+// Why a file was rejected or cancelled; only sent to peers with the error-reasons capability
+const transferError = object({
+  code: string(32), // Not checked against TRANSFER_ERROR_CODES, codes from newer peers count as 'failed'
+  message: optional(string(MAX_ERROR_MESSAGE_LENGTH))
+});
+
+// Describes the file in file-request and file-start
+const fileInfo = {
+  fileId,
+  fileName: string(1024),
+  fileSize,
+  fileType: string(256),
+  relativePath: optional(string(4096)),
+  group: optional(transferGroup),
+  fingerprint: optional(string(256)),
+  iv: arrayOf(integer(0, 255), 12, 12),
+  sessionId: optional(sessionId),
+  passphrase: optional(passphraseParams),
+  chunkSize: optional(integer(MIN_CHUNK_SIZE, MAX_CHUNK_SIZE)) // DEFAULT_CHUNK_SIZE if absent
+};
+
+const MESSAGE_SCHEMAS = {
+  // Sent unauthenticated on connection open; signed by the identity key instead
+  hello: {
+    version: integer(1),
+    minVersion: integer(1),
+    capabilities: arrayOf(string(64), 0, 64),
+    lanes: optional(integer(1, MAX_LANES)), // Data channels the peer is willing to open; 1 if absent
+    sessionId, // Connection ID, mixed into the channel key
+    publicKey: base64(), // ECDH key for the channel key
+    identityKey: base64(),
+    signature: base64()
+  },
+  'key-exchange-init': {
+    sessionId,
+    publicKey: base64(),
+    salt: base64(),
+    identityKey: base64(),
+    signature: base64()
+  },
+  'key-exchange-reply': {
+    sessionId,
+    publicKey: base64(),
+    identityKey: base64(),
+    signature: base64()
+  },
+  'key-exchange-complete': {
+    sessionId
+  },
+  'file-request': {
+    ...fileInfo,
+    batch: optional(transferBatch), // Other files sent along with this one, for accepting them all at once
+    // Not checked against ENCRYPTION_MODES so a request using an unknown mode can be refused
+    encryption: string(32)
+  },
+  'file-accepted': {
+    fileId,
+    received: optional(base64(Math.ceil(MAX_CHUNKS / 8 / 3) * 4)) // Bitmap of chunks the receiver already has
+  },
+  'file-rejected': {
+    fileId,
+    reason: optional(transferError) // Shown to the sender, e.g. why a rule refused the file
+  },
+  'file-start': {
+    ...fileInfo,
+    encryption: oneOf(ENCRYPTION_MODES),
+    resume: optional(boolean)
+  },
+  'file-chunk': {
+    fileId,
+    chunk: chunkIndex,
+    total: integer(1, MAX_CHUNKS),
+    data: bytes,
+    digest: sha256Hex // SHA-256 of the chunk's plaintext
+  },
+  'chunk-ack': { fileId, chunk: chunkIndex },
+  'chunk-retry': { fileId, chunk: chunkIndex },
+  'file-complete': {
+    fileId,
+    sha256: optional(sha256Hex)
+  },
+  'file-verified': {
+    fileId,
+    verified: optional(boolean)
+  },
+  'file-cancel': {
+    fileId,
+    reason: optional(transferError) // Absent when the user cancelled
+  },
+  // Either side can pause a running transfer; the receiver keeps what it has
+  'file-pause': { fileId },
+  'file-resume': { fileId },
+  'file-cancel-ack': { fileId },
+  // Liveness checks; the pong echoes the ping's ID so its round trip can be timed
+  ping: { id: integer() },
+  pong: { id: integer() },
+  // Sent before closing on purpose, so the peer does not try to reconnect
+  goodbye: {}
+} satisfies Record<string, Shape>;
+
+type MessageSchemas = typeof MESSAGE_SCHEMAS;
+export type MessageType = keyof MessageSchemas;
+
+export type ProtocolMessage = {
+  [T in MessageType]: Simplify<{ type: T } & Infer<MessageSchemas[T]>>
+}[MessageType];
+
+export type MessageOf<T extends MessageType> = Extract<ProtocolMessage, { type: T }>;
+
+// Every message but the hello travels inside one of these once the channel key exists
+export interface ProtocolEnvelope {
+  type: 'envelope';
+  seq: number; // Increases with every message a peer sends; anything not above the last one is a replay
+  message: ProtocolMessage;
+  mac: string; // Base64 HMAC-SHA-256 under the channel key over sender, seq and message
+}
+
+// An envelope as received: its message is only parsed once the MAC checks out
+export type ReceivedEnvelope = Omit<ProtocolEnvelope, 'message'> & { message: unknown };
+
+const parseEnvelopeFields = object({
+  seq: integer(1),
+  message: (value: unknown) => value,
+  mac: base64(64)
+});
+
+const typeOf = (data: unknown) =>
+  typeof data === 'object' && data !== null ? (data as { type?: unknown }).type : undefined;
+
+const isMessageType = (type: unknown): type is MessageType =>
+  typeof type === 'string' && Object.prototype.hasOwnProperty.call(MESSAGE_SCHEMAS, type);
+
+// Parse a message, throwing an Error that says what is wrong with it
+export function parseMessage(data: unknown): ProtocolMessage {
+  const type = typeOf(data);
+  if (!isMessageType(type)) {
+    throw new Error(`unknown message type ${String(type)}`);
+  }
+  const shape: Shape = MESSAGE_SCHEMAS[type];
+  return { type, ...object(shape)(data, type) } as ProtocolMessage;
+}
+
+export function parseEnvelope(data: unknown): ReceivedEnvelope {
+  if (typeOf(data) !== 'envelope') {
+    throw new Error('not an envelope');
+  }
+  return { type: 'envelope', ...parseEnvelopeFields(data, 'envelope') };
+}
+
+// Whatever a client of any version sends in its hello: type, version and minVersion
+export function parseHelloVersion(data: unknown): { version: number; minVersion: number } {
+  if (typeOf(data) !== 'hello') {
+    throw new Error('not a hello');
+  }
+  return object({ version: integer(1), minVersion: integer(1) })(data, 'hello');
+}
+
+export function isHello(data: unknown): boolean {
+  return typeOf(data) === 'hello';
+}
+
+export function isEnvelope(data: unknown): boolean {
+  return typeOf(data) === 'envelope';
+}
+
+// Why we cannot talk to a peer speaking the given versions, if we cannot
+export function checkCompatibility(version: number, minVersion: number): string | undefined {
+  if (version < MIN_PROTOCOL_VERSION) {
+    return `This peer is running an older version of the app (protocol v${version}) and needs to update`;
+  }
+  if (minVersion > PROTOCOL_VERSION) {
+    return `This peer needs a newer version of the app (protocol v${minVersion}); reload the page to update`;
+  }
+  return undefined;
+}
+
+// Version, capabilities and number of data channels both peers share
+export function negotiate(
+  version: number,
+  capabilities: string[],
+  lanes: number,
+  peerLanes = 1
+): { version: number; capabilities: Capability[]; lanes: number } {
+  return {
+    version: Math.min(version, PROTOCOL_VERSION),
+    capabilities: CAPABILITIES.filter(capability => capabilities.includes(capability)),
+    lanes: Math.max(1, Math.min(lanes, peerLanes, MAX_LANES))
+  };
+}
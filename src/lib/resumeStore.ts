@@ -0,0 +1,161 @@
+/**
+ * Bookkeeping for resuming transfers after a dropped connection.
+ *
+ * Receiving side: each incoming file has a chunk bitmap keyed by fileId together
+ * with the sender's file fingerprint. When a connection drops, the half-written
+ * sink is suspended here; when the same peer offers the same file again (matched
+ * by fingerprint) only the missing chunks are requested. Bitmaps are persisted, and
+ * for files streamed to disk the file handle is persisted too so they can be
+ * resumed after a reload.
+ *
+ * Sending side: files that were still being sent are remembered per peer so they
+ * can be offered again as soon as that peer reconnects.
+ */
+import { ChunkSink } from './chunkSink';
+import type { SendFileOptions } from './transferEngine';
+import { idbDelete, idbGetAll, idbPut, supportsIndexedDb } from './idb';
+
+export interface ResumeRecord {
+  fileId: string;
+  fingerprint: string;
+  peerId?: string; // Sender; records without one are never resumed
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  totalChunks: number;
+  chunkSize?: number; // Absent in records from before chunk sizes varied, which used DEFAULT_CHUNK_SIZE
+  received: Uint8Array; // 1 for every chunk already written to the sink
+  fileHandle?: FileSystemFileHandle; // Present when the file is being streamed to disk
+  updatedAt: number;
+}
+
+export interface SuspendedDownload {
+  record: ResumeRecord;
+  sink?: ChunkSink; // Still open if the page has not been reloaded since
+}
+
+export interface InterruptedUpload {
+  fileId: string;
+  peerId: string;
+  file: File;
+  options: SendFileOptions;
+}
+
+export interface ResumeStore {
+  // Record progress of an incoming file (persisted, throttled)
+  saveProgress(record: ResumeRecord): void;
+  suspendDownload(record: ResumeRecord, sink: ChunkSink): void;
+  // Find and remove a resumable download of a file from the given peer
+  takeDownload(peerId: string, fingerprint: string): SuspendedDownload | undefined;
+  removeDownload(fileId: string): void;
+  saveUpload(upload: InterruptedUpload): void;
+  takeUploads(peerId: string): InterruptedUpload[];
+  removeUpload(fileId: string): void;
+}
+
+// Minimum time between persisting bitmap updates for the same file
+const SAVE_INTERVAL_MS = 1000;
+
+export function countReceived(received: Uint8Array): number {
+  return received.reduce((count, bit) => count + bit, 0);
+}
+
+// Pack a chunk bitmap into a base64 string for the wire
+export function encodeBitmap(received: Uint8Array): string {
+  const packed = new Uint8Array(Math.ceil(received.length / 8));
+  received.forEach((bit, index) => {
+    if (bit) {
+      packed[index >> 3] |= 1 << (index & 7);
+    }
+  });
+  return btoa(String.fromCharCode(...packed));
+}
+
+export function decodeBitmap(encoded: string, totalChunks: number): Uint8Array {
+  const packed = Uint8Array.from(atob(encoded), c => c.charCodeAt(0));
+  const received = new Uint8Array(totalChunks);
+  for (let index = 0; index < totalChunks; index++) {
+    received[index] = (packed[index >> 3] >> (index & 7)) & 1;
+  }
+  return received;
+}
+
+// Identify a file by its metadata so a re-offered file can be matched to a partial download
+export async function computeFileFingerprint(file: File): Promise<string> {
+  const metadata = new TextEncoder().encode(`${file.name}:${file.size}:${file.lastModified}:${file.type}`);
+  const digest = await crypto.subtle.digest('SHA-256', metadata);
+  return Array.from(new Uint8Array(digest).slice(0, 16), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function createResumeStore(persist = supportsIndexedDb()): ResumeStore {
+  const downloads = new Map<string, SuspendedDownload>();
+  const uploads = new Map<string, InterruptedUpload>();
+  const lastSaved = new Map<string, number>();
+
+  const persistRecord = (record: ResumeRecord) => {
+    if (!persist) return;
+    idbPut('resume', record).catch(error => console.error('Error saving resume state:', error));
+  };
+
+  const forgetRecord = (fileId: string) => {
+    lastSaved.delete(fileId);
+    if (!persist) return;
+    idbDelete('resume', fileId).catch(error => console.error('Error removing resume state:', error));
+  };
+
+  if (persist) {
+    // Only downloads streamed to disk survive a reload, in-memory data is gone
+    idbGetAll<ResumeRecord>('resume').then(records => {
+      records.forEach(record => {
+        if (record.fileHandle) {
+          if (!downloads.has(record.fileId)) {
+            downloads.set(record.fileId, { record });
+          }
+        } else {
+          forgetRecord(record.fileId);
+        }
+      });
+    }).catch(error => console.error('Error loading resume state:', error));
+  }
+
+  return {
+    saveProgress(record) {
+      const now = Date.now();
+      if (now - (lastSaved.get(record.fileId) ?? 0) < SAVE_INTERVAL_MS) return;
+      lastSaved.set(record.fileId, now);
+      persistRecord({ ...record, updatedAt: now });
+    },
+    suspendDownload(record, sink) {
+      const suspended = { ...record, updatedAt: Date.now() };
+      downloads.set(record.fileId, { record: suspended, sink });
+      persistRecord(suspended);
+    },
+    takeDownload(peerId, fingerprint) {
+      // Another peer offering a file with the same metadata must not write into this one
+      const match = [...downloads.values()].find(download =>
+        download.record.peerId === peerId && download.record.fingerprint === fingerprint);
+      if (match) {
+        downloads.delete(match.record.fileId);
+        forgetRecord(match.record.fileId);
+      }
+      return match;
+    },
+    removeDownload(fileId) {
+      const download = downloads.get(fileId);
+      downloads.delete(fileId);
+      download?.sink?.abort('Discarded').catch(() => undefined);
+      forgetRecord(fileId);
+    },
+    saveUpload(upload) {
+      uploads.set(upload.fileId, upload);
+    },
+    takeUploads(peerId) {
+      const matches = [...uploads.values()].filter(upload => upload.peerId === peerId);
+      matches.forEach(upload => uploads.delete(upload.fileId));
+      return matches;
+    },
+    removeUpload(fileId) {
+      uploads.delete(fileId);
+    }
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Queue of files waiting to be sent to peers.
+ *
+ * Up to `concurrency` files per peer are in progress at once, from being offered
+ * until their transfer ends, so one slow receiver does not hold up the rest of a
+ * batch. Waiting files can be paused, reordered or removed. Files for a peer that
+ * is not connected wait until it (re)connects; files that were being offered when
+ * it dropped go back in the queue. Files whose transfer failed for a reason that
+ * may not last (a timeout, a full disk...) are kept so they can be retried.
+ */
+import { FileTransfer, PeerConnection, TransferErrorCode } from '../types';
+import { ConnectionRegistry } from './connectionRegistry';
+import { createEmitter, Emitter } from './emitter';
+import { SendFileOptions, TransferEngine, transferKey } from './transferEngine';
+
+export const MAX_CONCURRENT_SENDS = 4;
+
+// queued and paused files wait; offering ones wait for the receiver to answer
+export type SendQueueState = 'queued' | 'paused' | 'offering' | 'sending';
+
+export interface SendQueueItem {
+  id: string; // File ID of the transfer
+  peerId: string;
+  file: File;
+  options: SendFileOptions;
+  state: SendQueueState;
+}
+
+export interface SendQueueEvents {
+  // Every item in queue order, as a new array whenever anything changes
+  change: SendQueueItem[];
+}
+
+export interface SendQueue {
+  on: Emitter<SendQueueEvents>['on'];
+  off: Emitter<SendQueueEvents>['off'];
+  enqueue(items: Omit<SendQueueItem, 'state'>[]): void;
+  // Hold a waiting file back until it is resumed
+  pause(id: string): void;
+  resume(id: string): void;
+  // Drop a file that has not been offered yet
+  remove(id: string): void;
+  // Move a file in front of another, or to the end of the queue
+  move(id: string, beforeId?: string): void;
+  setConcurrency(concurrency: number): void;
+  items(): SendQueueItem[];
+  // Whether a failed file can be queued again, by peer and file ID (see transferKey)
+  canRetry(key: string): boolean;
+  // Queue a failed file again, under a new file ID
+  retry(key: string, newId: string): void;
+}
+
+export interface SendQueueOptions {
+  concurrency?: number; // Files in progress at once per peer
+}
+
+const FINISHED: FileTransfer['status'][] = ['completed', 'error', 'rejected', 'cancelled', 'interrupted'];
+// Failures that may not happen again; the rest would be refused the same way
+const RETRYABLE_ERRORS: TransferErrorCode[] = [
+  'key-missing', 'decrypt-failed', 'hash-mismatch', 'disk-full', 'timeout', 'connection-lost', 'failed'
+];
+
+const isWaiting = (item: SendQueueItem) => item.state === 'queued' || item.state === 'paused';
+const clampConcurrency = (value: number) => Math.max(1, Math.min(MAX_CONCURRENT_SENDS, value));
+
+export function createSendQueue(
+  registry: ConnectionRegistry,
+  { concurrency: initialConcurrency = 1 }: SendQueueOptions = {}
+): SendQueue {
+  const emitter = createEmitter<SendQueueEvents>();
+  let items: SendQueueItem[] = [];
+  const failed = new Map<string, SendQueueItem>(); // Files that can be retried, by transfer key
+  // Files sent in full that the receiver has not confirmed yet; it may still fail to save them
+  const unconfirmed = new Map<string, SendQueueItem>();
+  let concurrency = clampConcurrency(initialConcurrency);
+
+  const find = (id: string) => items.find(item => item.id === id);
+
+  // Items are replaced rather than changed, so every snapshot stays as it was
+  const update = (id: string, changes: Partial<SendQueueItem>) => {
+    items = items.map(item => item.id === id ? { ...item, ...changes } : item);
+  };
+
+  const drop = (predicate: (item: SendQueueItem) => boolean) => {
+    items = items.filter(item => !predicate(item));
+  };
+
+  const offer = (item: SendQueueItem, engine: TransferEngine) => {
+    update(item.id, { state: 'offering' });
+    console.log(`Offering ${item.file.name} to ${item.peerId} with ID ${item.id}`);
+    engine.sendFile(item.file, item.id, item.options)
+      .then(accepted => {
+        if (!find(item.id)) return;
+        if (accepted) {
+          update(item.id, { state: 'sending' });
+          return;
+        }
+        if (registry.get(item.peerId) !== engine) {
+          console.log(`${item.peerId} disconnected before answering, ${item.file.name} is queued again`);
+          update(item.id, { state: 'queued' });
+          return;
+        }
+        console.log(`${item.file.name} was rejected by ${item.peerId}`);
+        // A rejected folder is rejected as a whole, so the rest of it is not offered
+        const group = item.options.group;
+        drop(other => other.id === item.id ||
+          (!!group && isWaiting(other) && other.peerId === item.peerId && other.options.group?.id === group.id));
+      })
+      .catch(error => {
+        console.error(`Error sending ${item.file.name} to ${item.peerId}:`, error);
+        drop(other => other.id === item.id);
+      })
+      .finally(pump);
+  };
+
+  // Offer queued files to every connected peer with a free slot, in queue order
+  const pump = () => {
+    const connected = new Set(registry.connectedPeerIds());
+    const active = new Map<string, number>();
+    items.forEach(item => {
+      if (item.state === 'offering' || item.state === 'sending') {
+        active.set(item.peerId, (active.get(item.peerId) ?? 0) + 1);
+      }
+    });
+    items.forEach(item => {
+      const engine = registry.get(item.peerId);
+      const count = active.get(item.peerId) ?? 0;
+      if (item.state !== 'queued' || !connected.has(item.peerId) || !engine || count >= concurrency) return;
+      active.set(item.peerId, count + 1);
+      offer(item, engine);
+    });
+    emitter.emit('change', items);
+  };
+
+  // A file's slot is free once its transfer is over. Another peer may use the same
+  // file ID for a file it sends us, so only transfers with the item's peer count
+  const handleTransfer = (peerId: string, transfer: FileTransfer) => {
+    const key = transferKey(peerId, transfer.id);
+    const isItem = (item: SendQueueItem) => item.peerId === peerId && item.id === transfer.id;
+    const item = items.find(isItem) ?? unconfirmed.get(key);
+    if (!item) return;
+    if (transfer.errorReason && RETRYABLE_ERRORS.includes(transfer.errorReason.code)) {
+      failed.set(key, item);
+    }
+    if (transfer.status === 'completed' && !transfer.confirmed) {
+      unconfirmed.set(key, item);
+    } else {
+      unconfirmed.delete(key);
+    }
+    if (item.state !== 'sending' || !FINISHED.includes(transfer.status)) return;
+    drop(isItem);
+    pump();
+  };
+
+  const subscribe = (engine: TransferEngine) =>
+    engine.on('transfer', transfer => handleTransfer(engine.peerId, transfer));
+
+  const handlePeer = (peer: PeerConnection) => {
+    if (peer.status === 'connected') return;
+    // The engine offers interrupted uploads again itself when the peer reconnects
+    const before = items.length;
+    drop(item => item.peerId === peer.id && item.state === 'sending');
+    if (items.length !== before) pump();
+  };
+
+  registry.connectedPeerIds().forEach(peerId => {
+    const engine = registry.get(peerId);
+    if (engine) subscribe(engine);
+  });
+  registry.on('engine', engine => {
+    subscribe(engine);
+    pump();
+  });
+  registry.on('peer', handlePeer);
+  registry.on('peer-removed', peerId => {
+    [failed, unconfirmed].forEach(kept => kept.forEach((item, id) => {
+      if (item.peerId === peerId) kept.delete(id);
+    }));
+    drop(item => item.peerId === peerId && item.state !== 'offering');
+    pump();
+  });
+
+  return {
+    on: emitter.on,
+    off: emitter.off,
+    enqueue: (added) => {
+      items = [...items, ...added.map(item => ({ ...item, state: 'queued' as const }))];
+      pump();
+    },
+    pause: (id) => {
+      if (find(id)?.state !== 'queued') return;
+      update(id, { state: 'paused' });
+      pump();
+    },
+    resume: (id) => {
+      if (find(id)?.state !== 'paused') return;
+      update(id, { state: 'queued' });
+      pump();
+    },
+    remove: (id) => {
+      const item = find(id);
+      if (!item || !isWaiting(item)) return;
+      drop(other => other === item);
+      pump();
+    },
+    move: (id, beforeId) => {
+      const item = find(id);
+      if (!item || id === beforeId) return;
+      const rest = items.filter(other => other !== item);
+      const index = beforeId ? rest.findIndex(other => other.id === beforeId) : -1;
+      rest.splice(index < 0 ? rest.length : index, 0, item);
+      items = rest;
+      pump();
+    },
+    setConcurrency: (value) => {
+      concurrency = clampConcurrency(value);
+      pump();
+    },
+    items: () => items,
+    canRetry: (key) => failed.has(key),
+    retry: (key, newId) => {
+      const item = failed.get(key);
+      if (!item) return;
+      failed.delete(key);
+      console.log(`Retrying ${item.file.name} for ${item.peerId} with ID ${newId}`);
+      items = [...items, { ...item, id: newId, state: 'queued' }];
+      pump();
+    }
+  };
+}
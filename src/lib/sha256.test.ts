@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createChunkedSha256, createSha256, sha256Blob, sha256Chunk } from './sha256';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const digestOf = (...parts: Uint8Array[]) => {
+  const hash = createSha256();
+  parts.forEach(part => hash.update(part));
+  return hash.digest();
+};
+
+// Deterministic bytes that are not all the same
+const sampleBytes = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff);
+
+describe('createSha256', () => {
+  it('matches the published test vectors', () => {
+    expect(digestOf(encode(''))).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(digestOf(encode('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(digestOf(encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('gives the same digest however the input is split', async () => {
+    // Sizes around the 64-byte block and the 56-byte padding boundary
+    for (const length of [55, 56, 63, 64, 65, 1000]) {
+      const data = sampleBytes(length);
+      const expected = await sha256Chunk(data.slice().buffer);
+      expect(digestOf(data)).toBe(expected);
+      expect(digestOf(data.subarray(0, 1), data.subarray(1, 60), data.subarray(60))).toBe(expected);
+    }
+  });
+
+  it('cannot be updated after the digest', () => {
+    const hash = createSha256();
+    hash.update(encode('abc'));
+    hash.digest();
+    expect(() => hash.update(encode('d'))).toThrow();
+  });
+});
+
+describe('createChunkedSha256', () => {
+  it('hashes chunks in order even if they arrive out of order or twice', async () => {
+    const data = sampleBytes(300);
+    const chunks = [0, 100, 200].map(start => data.slice(start, start + 100).buffer);
+    const hash = createChunkedSha256(3);
+
+    hash.add(2, chunks[2]);
+    hash.add(0, chunks[0]);
+    expect(hash.digest()).toBeUndefined();
+    hash.add(0, chunks[0]);
+    hash.add(1, chunks[1]);
+
+    expect(hash.digest()).toBe(await sha256Chunk(data.slice().buffer));
+  });
+});
+
+describe('sha256Blob', () => {
+  it('matches a single digest of the whole blob', async () => {
+    const data = sampleBytes(10000);
+    expect(await sha256Blob(new Blob([data]), 4096)).toBe(await sha256Chunk(data.slice().buffer));
+  });
+});
@@ -0,0 +1,202 @@
+import type { BufferedConnection, DataConnection } from 'peerjs';
+import { IceRoute } from '../types';
+
+/**
+ * Abstract duplex channel the transfer engine talks to.
+ * In the app this wraps a PeerJS DataConnection; in tests it can be one end
+ * of an in-memory pair.
+ */
+export interface TransferChannel {
+  // ID of the peer on the other end
+  readonly peerId: string;
+  // Our own peer ID
+  readonly localPeerId: string;
+  isOpen(): boolean;
+  send(message: unknown): void;
+  // Bytes handed to send() that have not gone out over the network yet
+  bufferedAmount(): number;
+  // Called whenever bufferedAmount drops to the threshold or below
+  onBufferedAmountLow(threshold: number, handler: () => void): () => void;
+  // Each subscription returns its own unsubscribe function
+  onData(handler: (data: unknown) => void): () => void;
+  onClose(handler: () => void): () => void;
+  close(): void;
+}
+
+// Approximate size of the packets PeerJS splits binary messages into
+const PEERJS_PACKET_BYTES = 16 * 1024;
+
+// Adapt a PeerJS data connection to the TransferChannel interface
+export function createPeerChannel(conn: DataConnection): TransferChannel {
+  return {
+    peerId: conn.peer,
+    localPeerId: conn.provider.id,
+    isOpen: () => conn.open,
+    send: (message) => {
+      conn.send(message);
+    },
+    // PeerJS queues packets itself once the data channel holds more than 8MB
+    bufferedAmount: () => (conn.dataChannel?.bufferedAmount ?? 0) +
+      ('bufferSize' in conn ? (conn as BufferedConnection).bufferSize * PEERJS_PACKET_BYTES : 0),
+    onBufferedAmountLow: (threshold, handler) => {
+      const { dataChannel } = conn;
+      if (!dataChannel) return () => undefined;
+      dataChannel.bufferedAmountLowThreshold = threshold;
+      dataChannel.addEventListener('bufferedamountlow', handler);
+      return () => {
+        dataChannel.removeEventListener('bufferedamountlow', handler);
+      };
+    },
+    onData: (handler) => {
+      conn.on('data', handler);
+      return () => {
+        conn.off('data', handler);
+      };
+    },
+    onClose: (handler) => {
+      const onError = (err: unknown) => {
+        console.error('Connection error:', err);
+        handler();
+      };
+      conn.on('close', handler);
+      conn.on('error', onError);
+      return () => {
+        conn.off('close', handler);
+        conn.off('error', onError);
+      };
+    },
+    close: () => conn.close()
+  };
+}
+
+// Whether the path ICE picked for a connection goes through a TURN server
+export async function getIceRoute(pc: RTCPeerConnection): Promise<IceRoute | undefined> {
+  try {
+    const stats = await pc.getStats();
+    let pair: RTCIceCandidatePairStats | undefined;
+    stats.forEach(report => {
+      if (report.type === 'transport' && report.selectedCandidatePairId) {
+        pair = stats.get(report.selectedCandidatePairId);
+      }
+    });
+    // Firefox has no transport stats, but marks the pair instead
+    stats.forEach(report => {
+      if (!pair && report.type === 'candidate-pair' && report.nominated && report.state === 'succeeded') {
+        pair = report;
+      }
+    });
+    if (!pair) return undefined;
+    const candidates = [stats.get(pair.localCandidateId), stats.get(pair.remoteCandidateId)];
+    return candidates.some(candidate => candidate?.candidateType === 'relay') ? 'relayed' : 'direct';
+  } catch (error) {
+    console.error('Error reading connection stats:', error);
+    return undefined;
+  }
+}
+
+// Simulated link for an in-memory pair; unlimited and instant if omitted
+export interface MemoryLink {
+  bytesPerSecond?: number;
+  latencyMs?: number;
+}
+
+// Rough wire size of a message, dominated by its binary fields
+function estimateSize(value: unknown): number {
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) return value.byteLength;
+  if (typeof value === 'string') return value.length;
+  if (typeof value === 'object' && value !== null) {
+    return Object.values(value).reduce((sum: number, field) => sum + estimateSize(field), 8);
+  }
+  return 8;
+}
+
+interface LowThresholdHandler {
+  threshold: number;
+  handler: () => void;
+}
+
+/**
+ * Create two connected in-memory channels. Messages are structured-cloned and
+ * delivered asynchronously so ordering and timing resemble a real data channel;
+ * with a link, each direction also sends at a limited rate and buffers like one.
+ */
+export function createMemoryChannelPair(
+  peerIdA = 'peer-a',
+  peerIdB = 'peer-b',
+  { bytesPerSecond, latencyMs = 0 }: MemoryLink = {}
+): [TransferChannel, TransferChannel] {
+  let open = true;
+  const dataHandlers: [Set<(data: unknown) => void>, Set<(data: unknown) => void>] = [new Set(), new Set()];
+  const closeHandlers: [Set<() => void>, Set<() => void>] = [new Set(), new Set()];
+  const lowHandlers: [Set<LowThresholdHandler>, Set<LowThresholdHandler>] = [new Set(), new Set()];
+  const buffered = [0, 0];
+  const busyUntil = [0, 0]; // When each direction finishes sending what it has buffered
+  // Messages on their way, in order; timers can fire out of order once delays are rounded
+  const inFlight: [{ copy: unknown; size: number }[], { copy: unknown; size: number }[]] = [[], []];
+
+  const close = () => {
+    if (!open) return;
+    open = false;
+    setTimeout(() => {
+      closeHandlers.forEach(handlers => [...handlers].forEach(handler => handler()));
+    }, 0);
+  };
+
+  const makeEnd = (self: 0 | 1, peerId: string, localPeerId: string): TransferChannel => {
+    const other = self === 0 ? 1 : 0;
+    return {
+      peerId,
+      localPeerId,
+      isOpen: () => open,
+      send: (message) => {
+        if (!open) {
+          throw new Error('Channel is closed');
+        }
+        const copy = structuredClone(message);
+        const size = estimateSize(copy);
+        const now = performance.now();
+        busyUntil[self] = Math.max(now, busyUntil[self]) + (bytesPerSecond ? size * 1000 / bytesPerSecond : 0);
+        buffered[self] += size;
+        inFlight[self].push({ copy, size });
+
+        // Every timer sends whichever message is next
+        setTimeout(() => {
+          const next = inFlight[self].shift()!;
+          const before = buffered[self];
+          buffered[self] -= next.size;
+          [...lowHandlers[self]].forEach(({ threshold, handler }) => {
+            if (before > threshold && buffered[self] <= threshold) handler();
+          });
+          setTimeout(() => {
+            if (!open) return;
+            [...dataHandlers[other]].forEach(handler => handler(next.copy));
+          }, latencyMs);
+        }, busyUntil[self] - now);
+      },
+      bufferedAmount: () => buffered[self],
+      onBufferedAmountLow: (threshold, handler) => {
+        const entry = { threshold, handler };
+        lowHandlers[self].add(entry);
+        return () => {
+          lowHandlers[self].delete(entry);
+        };
+      },
+      onData: (handler) => {
+        dataHandlers[self].add(handler);
+        return () => {
+          dataHandlers[self].delete(handler);
+        };
+      },
+      onClose: (handler) => {
+        closeHandlers[self].add(handler);
+        return () => {
+          closeHandlers[self].delete(handler);
+        };
+      },
+      close
+    };
+  };
+
+  // Each end reports the ID of the peer on the other side
+  return [makeEnd(0, peerIdB, peerIdA), makeEnd(1, peerIdA, peerIdB)];
+}
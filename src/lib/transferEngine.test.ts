@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FileTransfer } from '../types';
+import { ProtocolMessage } from './protocol';
+import { createResumeStore } from './resumeStore';
+import { createMemoryChannelPair, MemoryLink, TransferChannel } from './transferChannel';
+import { createTransferEngine, TransferEngine } from './transferEngine';
+
+// Lets a test change a message as a peer seals it, as a misbehaving peer would
+const tampering = vi.hoisted(() => ({
+  rewrite: undefined as ((from: string, message: ProtocolMessage) => ProtocolMessage) | undefined,
+  sealed: [] as { from: string; seq: number }[]
+}));
+
+vi.mock('./envelope', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./envelope')>();
+  return {
+    ...actual,
+    sealMessage: (key: CryptoKey, from: string, seq: number, message: ProtocolMessage) => {
+      tampering.sealed.push({ from, seq });
+      return actual.sealMessage(key, from, seq, tampering.rewrite?.(from, message) ?? message);
+    }
+  };
+});
+
+const engines: TransferEngine[] = [];
+
+afterEach(async () => {
+  await Promise.all(engines.splice(0).map(engine => engine.dispose()));
+  tampering.rewrite = undefined;
+  tampering.sealed = [];
+  vi.restoreAllMocks();
+});
+
+// Sender on peer-a, receiver on peer-b
+function connect(link?: MemoryLink, wrapReceiver = (channel: TransferChannel) => channel) {
+  const [a, b] = createMemoryChannelPair('peer-a', 'peer-b', link);
+  const sender = createTransferEngine(a, { resumeStore: createResumeStore(false) });
+  const receiver = createTransferEngine(wrapReceiver(b), { resumeStore: createResumeStore(false) });
+  engines.push(sender, receiver);
+  return { sender, receiver };
+}
+
+// Every status a transfer goes through
+function track(engine: TransferEngine, fileId: string) {
+  const statuses: FileTransfer['status'][] = [];
+  engine.on('transfer', transfer => {
+    if (transfer.id === fileId && statuses[statuses.length - 1] !== transfer.status) statuses.push(transfer.status);
+  });
+  return statuses;
+}
+
+function until(engine: TransferEngine, fileId: string, done: (transfer: FileTransfer) => boolean) {
+  return new Promise<FileTransfer>(resolve => {
+    const off = engine.on('transfer', transfer => {
+      if (transfer.id === fileId && done(transfer)) {
+        off();
+        resolve(transfer);
+      }
+    });
+  });
+}
+
+const finished = (transfer: FileTransfer) => ['completed', 'error', 'rejected', 'cancelled'].includes(transfer.status);
+
+const sampleFile = (size: number, name = 'sample.bin') =>
+  new File([Uint8Array.from({ length: size }, (_, i) => (i * 31 + 7) & 0xff)], name);
+
+describe('transfer engine', () => {
+  it('delivers an accepted file and confirms its hash', async () => {
+    const { sender, receiver } = connect();
+    receiver.on('request', request => receiver.acceptTransfer(request.fileId));
+    const file = sampleFile(300 * 1024);
+
+    const received = until(receiver, 'file-1', finished);
+    const confirmed = until(sender, 'file-1', transfer => !!transfer.confirmed);
+    expect(await sender.sendFile(file, 'file-1', { encryption: 'ecdh' })).toBe(true);
+
+    const transfer = await received;
+    expect(transfer).toMatchObject({ status: 'completed', verified: true, direction: 'receive' });
+    expect(new Uint8Array(await transfer.blob!.arrayBuffer())).toEqual(new Uint8Array(await file.arrayBuffer()));
+    expect(await confirmed).toMatchObject({ status: 'completed', verified: true, sha256: transfer.sha256 });
+  });
+
+  it('tells the sender why a file was rejected', async () => {
+    const { sender, receiver } = connect();
+    receiver.on('request', request => receiver.rejectTransfer(request.fileId, { code: 'quota-exceeded', message: 'Not enough space' }));
+
+    const rejected = until(sender, 'file-1', finished);
+    expect(await sender.sendFile(sampleFile(1024), 'file-1', { encryption: 'ecdh' })).toBe(false);
+    expect(await rejected).toMatchObject({ status: 'rejected', errorReason: { code: 'quota-exceeded', message: 'Not enough space' } });
+  });
+
+  it('stops both sides when the receiver cancels a running transfer', async () => {
+    const { sender, receiver } = connect({ bytesPerSecond: 1024 * 1024 });
+    receiver.on('request', request => receiver.acceptTransfer(request.fileId));
+    const sent = track(sender, 'file-1');
+    const received = track(receiver, 'file-1');
+
+    const running = until(receiver, 'file-1', transfer => transfer.status === 'transferring' && transfer.progress > 0);
+    const cancelledByPeer = until(sender, 'file-1', finished);
+    sender.sendFile(sampleFile(4 * 1024 * 1024), 'file-1', { encryption: 'ecdh' });
+    await running;
+    receiver.cancelTransfer('file-1');
+
+    expect((await cancelledByPeer).status).toBe('cancelled');
+    expect(sent).not.toContain('completed');
+    expect(received[received.length - 1]).toBe('cancelled');
+  });
+
+  it('refuses a file-start for a file that was not accepted', async () => {
+    const { sender, receiver } = connect();
+    receiver.on('request', request => receiver.rejectTransfer(request.fileId));
+    const received = track(receiver, 'file-1');
+    // The receiver's rejection reaches the sender as an acceptance
+    tampering.rewrite = (from, message) => from === 'peer-b' && message.type === 'file-rejected'
+      ? { type: 'file-accepted', fileId: message.fileId }
+      : message;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    // Small files count as sent before the receiver's refusal arrives
+    const refused = until(sender, 'file-1', transfer => transfer.status === 'error');
+    expect(await sender.sendFile(sampleFile(1024), 'file-1', { encryption: 'ecdh' })).toBe(true);
+
+    expect(await refused).toMatchObject({ status: 'error', errorReason: { code: 'declined' } });
+    await receiver.received();
+    expect(received).not.toContain('transferring');
+    expect(received).not.toContain('completed');
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('which was not accepted'));
+  });
+
+  it('numbers each peer\'s envelopes and drops replayed ones', async () => {
+    const warn = vi.spyOn(console, 'warn');
+    // Every message the receiver sends arrives twice
+    const { sender, receiver } = connect(undefined, channel => ({
+      ...channel,
+      send: message => {
+        channel.send(message);
+        channel.send(message);
+      }
+    }));
+    receiver.on('request', request => receiver.acceptTransfer(request.fileId));
+
+    const confirmed = until(sender, 'file-1', transfer => !!transfer.confirmed);
+    await sender.sendFile(sampleFile(1024), 'file-1', { encryption: 'ecdh' });
+    expect(await confirmed).toMatchObject({ status: 'completed', verified: true });
+
+    ['peer-a', 'peer-b'].forEach(peerId => {
+      const seqs = tampering.sealed.filter(({ from }) => from === peerId).map(({ seq }) => seq);
+      expect(seqs.length).toBeGreaterThan(0);
+      expect(seqs).toEqual(seqs.map((_, index) => index + 1));
+    });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Dropping replayed message'));
+  });
+});
@@ -0,0 +1,2025 @@
+/**
+ * Framework-agnostic file transfer engine.
+ *
+ * Owns the file transfer state machine for a single peer connection:
+ * file-request -> file-accepted/file-rejected -> file-start -> file-chunk* -> file-complete,
+ * with file-cancel possible at any point and file-pause/file-resume while chunks
+ * flow. Key exchange messages are handled here as well since secure transfers
+ * depend on them. The UI only subscribes to events.
+ * Messages are defined, and checked on arrival, in protocol.ts. Chunks can be
+ * striped across extra channels to the same peer, see addLane. Heartbeats tell
+ * a silently dead connection from a busy one; a dead one is closed, see heartbeat.ts.
+ */
+import {
+  ConnectionQuality,
+  EncryptionMode,
+  FileTransfer,
+  PassphraseParams,
+  PeerProtocol,
+  PendingTransfer,
+  TransferBatch,
+  TransferErrorCode,
+  TransferErrorReason,
+  TransferGroup,
+  TransferTime
+} from '../types';
+import { createEmitter, Emitter } from './emitter';
+import {
+  createPassphraseCheck,
+  decryptChunk,
+  deriveKeyFromPassphrase,
+  encryptChunk,
+  generateBaseIv,
+  generatePassphraseSalt,
+  MAX_PBKDF2_ITERATIONS,
+  MIN_PBKDF2_ITERATIONS,
+  PBKDF2_ITERATIONS,
+  verifyPassphraseCheck
+} from './encryption';
+import {
+  generateKeyPair,
+  exportPublicKey,
+  importPublicKey,
+  deriveChannelKey,
+  deriveSessionKey,
+  generateSalt,
+  sessionKeyInfo,
+  generateSessionId,
+  createSessionKeyStore,
+  computeSafetyNumber
+} from './keyExchange';
+import { TransferChannel } from './transferChannel';
+import { sealMessage, verifyEnvelope } from './envelope';
+import {
+  CAPABILITIES,
+  checkCompatibility,
+  DEFAULT_CHUNK_SIZE,
+  ENCRYPTION_MODES,
+  isEnvelope,
+  isHello,
+  MAX_ERROR_MESSAGE_LENGTH,
+  MAX_FILE_SIZE,
+  MAX_LANES,
+  MessageOf,
+  MIN_PROTOCOL_VERSION,
+  negotiate,
+  parseEnvelope,
+  parseHelloVersion,
+  parseMessage,
+  PROTOCOL_VERSION,
+  ProtocolMessage,
+  ReceivedEnvelope,
+  TRANSFER_ERROR_CODES
+} from './protocol';
+import { checkConnectionQuality, createFlowController } from './flowControl';
+import { ConnectionHealth, createHeartbeat, Heartbeat } from './heartbeat';
+import { ChunkSink, createFileHandleSink, createMemorySink, createOrderedSink } from './chunkSink';
+import {
+  computeFileFingerprint,
+  countReceived,
+  createResumeStore,
+  decodeBitmap,
+  encodeBitmap,
+  InterruptedUpload,
+  ResumeRecord,
+  ResumeStore
+} from './resumeStore';
+import { ChunkedSha256, createChunkedSha256, sha256Blob, sha256Chunk } from './sha256';
+import { computeKeyFingerprint, createEphemeralIdentity, DeviceIdentity, signData, verifySignature } from './identity';
+
+// Chunks wait while the channel has more than this queued, until it is down to the low mark
+export const MAX_BUFFERED_BYTES = 4 * 1024 * 1024;
+export const LOW_BUFFERED_BYTES = 1024 * 1024;
+const BUFFER_RECHECK_MS = 250;
+export const MAX_CHUNK_RETRIES = 3; // Times a chunk that fails verification is requested again
+export const KEY_EXCHANGE_TIMEOUT_MS = 10000;
+const LANE_SPEED_INTERVAL_MS = 1000;
+
+export interface TransferEngineEvents {
+  // Emitted with the latest snapshot whenever a transfer is added or changes
+  transfer: FileTransfer;
+  'transfer-time': { fileId: string; time: TransferTime };
+  // Incoming file request waiting for acceptTransfer/rejectTransfer
+  request: PendingTransfer;
+  // Aggregate transfer speed in bytes per second
+  speed: number;
+  // Speed of each open data channel, the primary first; emitted along with speed
+  'lane-speeds': number[];
+  quality: ConnectionQuality;
+  // The peer proved its identity key, see PeerIdentity
+  'peer-identity': PeerIdentity;
+  // The peer's identity key is not the expected one; its fingerprint. Nothing is exchanged with it
+  'identity-mismatch': string;
+  // Protocol version and capabilities agreed in the hellos
+  'peer-protocol': PeerProtocol;
+  // The peer's app speaks a protocol version we cannot talk to; says why, for the user
+  incompatible: string;
+  // Smoothed heartbeat round trip in milliseconds
+  rtt: number;
+  // Whether the peer is still heard from; once lost the engine closes its channel
+  health: ConnectionHealth;
+  // The peer is closing the connection on purpose
+  goodbye: void;
+}
+
+export interface PeerIdentity {
+  publicKey: string; // Base64 SPKI of the peer's identity key
+  fingerprint: string;
+  safetyNumber: string[]; // Derived from both identity keys
+}
+
+export interface SendFileOptions {
+  encryption: EncryptionMode;
+  passphrase?: string; // Required for passphrase encryption; never sent to the peer
+  relativePath?: string; // Path inside a folder being sent
+  group?: TransferGroup;
+  batch?: TransferBatch;
+  chunkSize?: number; // Picked from the measured link unless re-offering an interrupted upload
+}
+
+export interface TransferEngineOptions {
+  // Shared across engines so transfers can resume when a peer reconnects
+  resumeStore?: ResumeStore;
+  // Signs our key exchange keys; a temporary identity is used if omitted
+  identity?: Promise<DeviceIdentity>;
+  // Receive policy: requests using other modes are refused; everything is accepted if omitted
+  acceptsEncryption?: (mode: EncryptionMode) => boolean;
+  // Data channels we are willing to stripe chunks across, see addLane; 1 if omitted
+  lanes?: number;
+  // Fingerprint of the identity key the peer must present, e.g. from an invite; its hello
+  // is refused otherwise, before any key is agreed
+  expectedFingerprint?: string;
+}
+
+export interface TransferEngine {
+  readonly peerId: string;
+  on: Emitter<TransferEngineEvents>['on'];
+  off: Emitter<TransferEngineEvents>['off'];
+  // Resolves true once the peer accepts the file and sending has started
+  sendFile(file: File, fileId: string, options: SendFileOptions): Promise<boolean>;
+  // Check the passphrase of a passphrase-encrypted request; resolves false if it is wrong
+  unlockTransfer(fileId: string, passphrase: string): Promise<boolean>;
+  // Decrypted chunks go to the given sink, or to memory if none is provided.
+  // Passphrase-encrypted requests must be unlocked first.
+  acceptTransfer(fileId: string, sink?: ChunkSink): void;
+  // The reason is shown to the sender; 'declined' if not given
+  rejectTransfer(fileId: string, reason?: TransferErrorReason): void;
+  // A transfer cancelled with a reason counts as failed, on both sides
+  cancelTransfer(fileId: string, reason?: TransferErrorReason): void;
+  // Stop sending chunks of a running transfer without losing what has been received,
+  // on both sides, until either side resumes it
+  pauseTransfer(fileId: string): void;
+  resumeTransfer(fileId: string): void;
+  // Offer files again that were still being sent when this peer last disconnected
+  resumeInterruptedUploads(): void;
+  // Use another channel to the same peer for chunks. Lanes are numbered from 1 up to
+  // the negotiated count; the engine closes them when it is disposed.
+  addLane(channel: TransferChannel, lane: number): void;
+  // Resolves once the messages received so far on the main channel have been handled
+  received(): Promise<void>;
+  // Resolves once messages queued before disposal (e.g. cancels) have been sent
+  dispose(): Promise<void>;
+}
+
+type SignedMessageType = 'hello' | 'key-exchange-init' | 'key-exchange-reply';
+type UnsignedMessage<T extends SignedMessageType> = T extends SignedMessageType
+  ? Omit<MessageOf<T>, 'identityKey' | 'signature'>
+  : never;
+
+// What an identity key signs in key exchange messages
+function signedKeyData(message: UnsignedMessage<SignedMessageType>): string {
+  const data = `${message.type}:${message.sessionId}:${message.publicKey}:${'salt' in message ? message.salt : ''}`;
+  // The hello's signature covers what it negotiates, so it cannot be downgraded unnoticed
+  return message.type === 'hello'
+    ? `${data}:${message.version}:${message.minVersion}:${message.capabilities.join(',')}` +
+      (message.lanes ? `:${message.lanes}` : '')
+    : data;
+}
+
+// Number of chunks a file is split into; empty files still send one (empty) chunk
+export function getTotalChunks(fileSize: number, chunkSize = DEFAULT_CHUNK_SIZE): number {
+  return Math.max(1, Math.ceil(fileSize / chunkSize));
+}
+
+// File IDs are picked by whoever sends the file, so they are only unique per peer
+export function transferKey(peerId: string | undefined, fileId: string): string {
+  return `${peerId ?? ''}:${fileId}`;
+}
+
+// Why something failed; a full disk or a timeout says more than the code the caller expected
+function describeFailure(error: unknown, code: TransferErrorCode): TransferErrorReason {
+  if (!(error instanceof Error)) return { code };
+  const named = error.name === 'QuotaExceededError' ? 'disk-full' : error.name === 'TimeoutError' ? 'timeout' : code;
+  return { code: named, message: error.message || undefined };
+}
+
+// A reason from the peer; codes we do not know count as 'failed'
+const readErrorReason = (reason?: { code: string; message?: string }): TransferErrorReason | undefined =>
+  reason && { code: TRANSFER_ERROR_CODES.find(code => code === reason.code) ?? 'failed', message: reason.message };
+
+interface OutgoingPayload {
+  file: File;
+  fingerprint: string;
+  options: SendFileOptions; // Kept so an interrupted upload is re-offered the same way
+  key: CryptoKey;
+  iv: number[]; // Base IV for per-chunk nonces
+  sessionId?: string; // Only for ECDH encryption
+  passphrase?: PassphraseParams; // Only for passphrase encryption
+}
+
+interface IncomingFile {
+  key: Promise<CryptoKey>;
+  iv: number[];
+  chunkSize: number;
+  totalChunks: number;
+  sink: ChunkSink;
+  received: Uint8Array; // 1 for each chunk that has been decrypted
+  record: ResumeRecord; // record.received marks chunks written to the sink
+  writtenCount: number;
+  digest?: ChunkedSha256; // Whole-file digest; absent if part of the file arrived before a resume
+  expectedSha256?: string | null; // From the sender's file-complete; undefined until it arrives
+  retries: Map<number, number>; // Re-requests per chunk that failed verification
+}
+
+// Our half of a key exchange we started, waiting for the peer's reply
+interface PendingKeyExchange {
+  resolve: (success: boolean) => void;
+  reject: (error: Error) => void; // Only for a timeout
+  privateKey: CryptoKey; // Ephemeral, dropped once the session key is derived
+  salt: string;
+}
+
+// A data channel to the peer. Lane 0 is the channel the engine was created with and
+// carries every message; other lanes only carry chunks.
+interface Lane {
+  index: number;
+  channel: TransferChannel;
+  sendSeq: number;
+  receiveSeq: number;
+  // Sealing and verifying are async; chaining them keeps messages in order
+  outgoing: Promise<void>;
+  incoming: Promise<void>;
+  chunksInFlight: Map<string, Set<number>>; // Chunks sent on this lane and not acknowledged yet, by file
+  bytes: number; // Chunk bytes sent or received since speeds were last reported
+  unsubscribe: () => void;
+}
+
+// A transfer on hold; the upload loop waits for `resumed`
+interface PausedTransfer {
+  since: number;
+  resumed: Promise<void>;
+  resume: () => void;
+}
+
+// A partial download matched to a re-offered file, waiting for its file-start
+interface ResumedDownload {
+  record: ResumeRecord;
+  sink: ChunkSink;
+}
+
+export function createTransferEngine(
+  channel: TransferChannel,
+  {
+    resumeStore = createResumeStore(false),
+    identity = createEphemeralIdentity(),
+    acceptsEncryption = () => true,
+    lanes: maxLanes = 1,
+    expectedFingerprint
+  }: TransferEngineOptions = {}
+): TransferEngine {
+  const emitter = createEmitter<TransferEngineEvents>();
+
+  const transfers = new Map<string, FileTransfer>();
+  const transferTimes = new Map<string, TransferTime>();
+  const transferSpeeds = new Map<string, number>();
+  const pendingRequests = new Map<string, PendingTransfer>();
+  const pendingResponses = new Map<string, (response: MessageOf<'file-accepted' | 'file-rejected'> | null) => void>();
+  const pendingKeyExchanges = new Map<string, PendingKeyExchange>();
+  const sessionKeys = createSessionKeyStore();
+  const incomingFiles = new Map<string, IncomingFile>();
+  const acceptedSinks = new Map<string, ChunkSink>();
+  const acceptedFiles = new Set<string>(); // Accepted and waiting for their file-start
+  const resumableRequests = new Map<string, ResumeRecord>(); // Partial downloads needing the user to reopen the file
+  const resumedDownloads = new Map<string, ResumedDownload>();
+  const lockedResumes = new Map<string, ResumedDownload>(); // Open partial downloads waiting for the passphrase
+  // Passphrase keys we send with, by passphrase. One salt per passphrase per connection keeps
+  // folders from paying for a PBKDF2 derivation per file; per-file IVs keep nonces unique.
+  const passphraseKeys = new Map<string, Promise<{ key: CryptoKey; params: PassphraseParams }>>();
+  const unlockedKeys = new Map<string, CryptoKey>(); // Passphrase keys we receive with, by salt
+  const activeUploads = new Map<string, InterruptedUpload>();
+  const sendingChunks = new Set<string>(); // Uploads that have not sent all their chunks yet
+  const flow = createFlowController();
+  const chunkResenders = new Map<string, (chunkIndex: number) => Promise<void>>(); // Uploads waiting for file-verified
+  const cancelledTransfers = new Set<string>();
+  const pausedTransfers = new Map<string, PausedTransfer>();
+
+  let peerIdentityKey: string | undefined; // Peer's identity key, which signs its ECDH keys
+  let peerHello: Promise<boolean> | null = null; // Resolves once the peer's hello has been checked
+  let incompatibility: string | undefined; // Set if the peer's protocol version does not match ours
+  let peerCapabilities: string[] = []; // Optional features both sides support
+  let heartbeat: Heartbeat | undefined; // Once the channel key exists, with peers that answer pings
+  const connectionId = generateSessionId();
+  const connectionKeyPair = generateKeyPair(); // Ephemeral, only used to agree on the channel key
+  // Authenticates every message but the hellos; resolved once the peer's hello checks out
+  let resolveChannelKey: (key: CryptoKey) => void = () => undefined;
+  const channelKey = new Promise<CryptoKey>(resolve => {
+    resolveChannelKey = resolve;
+  });
+  let channelReady = false;
+  let negotiatedLanes = 1;
+  // Lanes that arrived before the peer's hello was checked, opened once it is
+  const waitingLanes: { channel: TransferChannel; open: () => void }[] = [];
+  const createLane = (laneChannel: TransferChannel, index: number): Lane => ({
+    index,
+    channel: laneChannel,
+    sendSeq: 0,
+    receiveSeq: 0,
+    outgoing: Promise.resolve(),
+    incoming: Promise.resolve(),
+    chunksInFlight: new Map(),
+    bytes: 0,
+    unsubscribe: () => undefined
+  });
+  const primary = createLane(channel, 0);
+  const lanes: Lane[] = [primary]; // Open lanes, by index
+  const stripedFiles = new Set<string>(); // Uploads whose chunks may use any lane
+  let lastLaneReport = performance.now();
+  let disposed = false;
+  let lastChunkTime = 0;
+  let downloadBytes = 0;
+
+  // Envelopes on other lanes name the lane as their sender, so they cannot be moved between lanes
+  const laneSender = (peerId: string, lane: Lane) => lane.index ? `${peerId}#${lane.index}` : peerId;
+
+  // Messages sent before the channel key exists wait for it
+  const sendOnLane = (lane: Lane, message: ProtocolMessage) => {
+    if (!lane.channel.isOpen()) {
+      console.warn(`Dropping ${message.type} message, channel is closed`);
+      return;
+    }
+    const seq = ++lane.sendSeq;
+    lane.outgoing = lane.outgoing
+      .then(async () => {
+        const envelope = await sealMessage(await channelKey, laneSender(channel.localPeerId, lane), seq, message);
+        if (lane.channel.isOpen()) {
+          lane.channel.send(envelope);
+        }
+      })
+      .catch(error => console.error(`Error sending ${message.type} message:`, error));
+  };
+
+  // A reason as sent to the peer: only to peers that understand reasons, and cut to what
+  // the protocol allows
+  const toWireReason = (reason?: TransferErrorReason) =>
+    reason && peerCapabilities.includes('error-reasons')
+      ? { code: reason.code, message: reason.message?.slice(0, MAX_ERROR_MESSAGE_LENGTH) }
+      : undefined;
+
+  const send = (message: ProtocolMessage) => {
+    if (message.type === 'hello') {
+      // Signed by the identity key instead
+      if (channel.isOpen()) {
+        channel.send(message);
+      }
+      return;
+    }
+    sendOnLane(primary, message);
+  };
+
+  // Chunks of a file stay on the primary lane until the receiver has acknowledged
+  // one, so they cannot overtake its file-start; then they go wherever least is queued
+  const pickLane = (fileId: string) => stripedFiles.has(fileId)
+    ? lanes.reduce((best, lane) => lane.channel.bufferedAmount() < best.channel.bufferedAmount() ? lane : best)
+    : primary;
+
+  // Report per-lane and total speed about once a second
+  const countLaneBytes = (lane: Lane, bytes: number) => {
+    lane.bytes += bytes;
+    const now = performance.now();
+    const elapsed = now - lastLaneReport;
+    if (elapsed < LANE_SPEED_INTERVAL_MS) return;
+    const speeds = lanes.map(({ bytes: laneBytes }) => laneBytes * 1000 / elapsed);
+    lanes.forEach(open => {
+      open.bytes = 0;
+    });
+    lastLaneReport = now;
+    emitter.emit('lane-speeds', speeds);
+    emitter.emit('speed', speeds.reduce((total, speed) => total + speed, 0));
+  };
+
+  // Remember which lane a chunk went out on, so it can be resent if that lane closes
+  const trackChunk = (lane: Lane, fileId: string, chunk: number) => {
+    lanes.forEach(open => open.chunksInFlight.get(fileId)?.delete(chunk));
+    const chunks = lane.chunksInFlight.get(fileId) ?? new Set<number>();
+    chunks.add(chunk);
+    lane.chunksInFlight.set(fileId, chunks);
+  };
+
+  // Stop tracking the chunks of an upload that is cancelled or verified
+  const releaseUpload = (fileId: string) => {
+    flow.release(fileId);
+    stripedFiles.delete(fileId);
+    lanes.forEach(lane => lane.chunksInFlight.delete(fileId));
+  };
+
+  const addTransfer = (transfer: FileTransfer) => {
+    const withPeer = { ...transfer, peerId: channel.peerId };
+    transfers.set(transfer.id, withPeer);
+    emitter.emit('transfer', withPeer);
+  };
+
+  const updateTransfer = (fileId: string, changes: Partial<FileTransfer>) => {
+    const existing = transfers.get(fileId);
+    if (!existing) return;
+    const updated = { ...existing, ...changes };
+    transfers.set(fileId, updated);
+    emitter.emit('transfer', updated);
+  };
+
+  // Resolves once the channel is down to the low mark. Also rechecks now and then,
+  // since the event can be missed while PeerJS holds packets back itself.
+  const waitForBufferDrain = (target: TransferChannel) => new Promise<void>(resolve => {
+    const check = () => {
+      if (disposed || !target.isOpen() || target.bufferedAmount() <= LOW_BUFFERED_BYTES) {
+        clearInterval(timer);
+        unsubscribe();
+        resolve();
+      }
+    };
+    const unsubscribe = target.onBufferedAmountLow(LOW_BUFFERED_BYTES, check);
+    const timer = setInterval(check, BUFFER_RECHECK_MS);
+    check();
+  });
+
+  const markStart = (fileId: string) => {
+    const time = { start: Date.now() };
+    transferTimes.set(fileId, time);
+    emitter.emit('transfer-time', { fileId, time });
+  };
+
+  // Lift a pause, adding its length to the time the transfer spent paused
+  const endPause = (fileId: string) => {
+    const paused = pausedTransfers.get(fileId);
+    if (!paused) return;
+    pausedTransfers.delete(fileId);
+    paused.resume();
+    const time = transferTimes.get(fileId);
+    if (time) {
+      transferTimes.set(fileId, { ...time, pausedMs: (time.pausedMs ?? 0) + Date.now() - paused.since });
+    }
+  };
+
+  const markEnd = (fileId: string) => {
+    endPause(fileId);
+    const previous = transferTimes.get(fileId);
+    const time = { ...previous, start: previous?.start ?? Date.now(), end: Date.now() };
+    transferTimes.set(fileId, time);
+    emitter.emit('transfer-time', { fileId, time });
+  };
+
+  // Running transfers show as paused while on hold
+  const activeStatus = (fileId: string) => pausedTransfers.has(fileId) ? 'paused' : 'transferring';
+
+  // Estimate time remaining based on current speed and remaining bytes
+  const calculateEstimatedTimeRemaining = (fileId: string, currentProgress: number, totalSize: number) => {
+    if (pausedTransfers.has(fileId)) return undefined;
+    const speed = transferSpeeds.get(fileId) || 0;
+    if (speed <= 0) return undefined;
+
+    const remainingBytes = totalSize * (1 - currentProgress / 100);
+    const estimatedTimeMs = (remainingBytes / speed) * 1000;
+
+    return Math.max(0, Math.round(estimatedTimeMs));
+  };
+
+  // Initiate key exchange with peer; resolves once the shared key is stored
+  const initiateKeyExchange = async (sessionId: string) => {
+    if (!channel.isOpen()) {
+      throw new Error('No active connection');
+    }
+
+    // A fresh key pair per session, so one leaked session key says nothing about the others
+    const { privateKey, publicKey } = await generateKeyPair();
+    const salt = generateSalt();
+
+    const result = new Promise<boolean>((resolve, reject) => {
+      pendingKeyExchanges.set(sessionId, { resolve, reject, privateKey, salt });
+    });
+    setTimeout(() => {
+      const pending = pendingKeyExchanges.get(sessionId);
+      if (pending) {
+        console.warn('Key exchange timed out for sessionId:', sessionId);
+        pendingKeyExchanges.delete(sessionId);
+        pending.reject(new DOMException(`${channel.peerId} did not answer the key exchange in time`, 'TimeoutError'));
+      }
+    }, KEY_EXCHANGE_TIMEOUT_MS);
+
+    send(await signKeyMessage<'key-exchange-init'>({
+      type: 'key-exchange-init',
+      publicKey: await exportPublicKey(publicKey),
+      sessionId,
+      salt
+    }));
+    console.log('Sent key-exchange-init for sessionId:', sessionId);
+
+    return result;
+  };
+
+  const resolveKeyExchange = (sessionId: string, success: boolean) => {
+    const pending = pendingKeyExchanges.get(sessionId);
+    if (pending) {
+      pendingKeyExchanges.delete(sessionId);
+      pending.resolve(success);
+    } else {
+      console.warn('No pending key exchange found for sessionId:', sessionId);
+    }
+  };
+
+  // Forget the session key of a finished, cancelled or rejected transfer
+  const wipeSessionKey = (sessionId?: string) => {
+    if (sessionId) {
+      sessionKeys.remove(sessionId);
+    }
+  };
+
+  const signKeyMessage = async <T extends SignedMessageType>(message: UnsignedMessage<T>): Promise<MessageOf<T>> => {
+    const ownIdentity = await identity;
+    return {
+      ...message,
+      identityKey: ownIdentity.publicKey,
+      signature: await signData(ownIdentity, signedKeyData(message))
+    } as MessageOf<T>;
+  };
+
+  // Announce our protocol version, our identity key so both sides can show the
+  // safety number, and our connection key so both can derive the channel key
+  const sendHello = async () => {
+    const { publicKey } = await connectionKeyPair;
+    send(await signKeyMessage<'hello'>({
+      type: 'hello',
+      version: PROTOCOL_VERSION,
+      minVersion: MIN_PROTOCOL_VERSION,
+      capabilities: [...CAPABILITIES],
+      lanes: maxLanes > 1 ? Math.min(maxLanes, MAX_LANES) : undefined,
+      publicKey: await exportPublicKey(publicKey),
+      sessionId: connectionId
+    }));
+  };
+
+  // Stop talking to a peer whose app we cannot understand, and let the user know why
+  const markIncompatible = (reason: string) => {
+    if (incompatibility) return;
+    console.error(`Incompatible peer ${channel.peerId}: ${reason}`);
+    incompatibility = reason;
+    pendingResponses.forEach(resolve => resolve(null));
+    pendingResponses.clear();
+    [...pendingKeyExchanges.keys()].forEach(sessionId => resolveKeyExchange(sessionId, false));
+    emitter.emit('incompatible', reason);
+  };
+
+  const startHeartbeat = () => {
+    heartbeat = createHeartbeat({
+      ping: (id) => send({ type: 'ping', id }),
+      onRtt: (rtt) => emitter.emit('rtt', rtt),
+      onHealth: (health) => {
+        console.log(`Connection to ${channel.peerId} is ${health}`);
+        emitter.emit('health', health);
+        if (health === 'lost') {
+          // Nothing has come through for a long time; treat the connection as dropped
+          channel.close();
+        }
+      }
+    });
+  };
+
+  // Pin the peer's identity key for this connection if its signature checks out
+  const acceptPeerHello = async (message: MessageOf<'hello'>) => {
+    const { identityKey, signature, publicKey } = message;
+    if (!await verifySignature(identityKey, signedKeyData(message), signature)) {
+      console.error('Peer hello is missing a valid identity signature');
+      return false;
+    }
+    const fingerprint = await computeKeyFingerprint(identityKey);
+    if (expectedFingerprint && fingerprint !== expectedFingerprint) {
+      console.error(`${channel.peerId} presented identity key ${fingerprint}, expected ${expectedFingerprint}`);
+      emitter.emit('identity-mismatch', fingerprint);
+      return false;
+    }
+    peerIdentityKey = identityKey;
+
+    const { privateKey } = await connectionKeyPair;
+    resolveChannelKey(await deriveChannelKey(
+      privateKey,
+      await importPublicKey(publicKey),
+      [connectionId, message.sessionId],
+      [channel.localPeerId, channel.peerId]
+    ));
+    channelReady = true;
+    const protocol = negotiate(message.version, message.capabilities, maxLanes, message.lanes);
+    peerCapabilities = protocol.capabilities;
+    negotiatedLanes = protocol.lanes;
+    waitingLanes.splice(0).forEach(waiting => waiting.open());
+    emitter.emit('peer-protocol', protocol);
+    if (peerCapabilities.includes('heartbeat') && !disposed) {
+      startHeartbeat();
+    }
+
+    const ownIdentity = await identity;
+    emitter.emit('peer-identity', {
+      publicKey: identityKey,
+      fingerprint,
+      safetyNumber: await computeSafetyNumber(ownIdentity.publicKey, identityKey)
+    });
+    return true;
+  };
+
+  // Ephemeral keys must be signed by the pinned identity, otherwise comparing
+  // safety numbers would not rule out a man in the middle
+  const verifyPeerKey = async (message: MessageOf<'key-exchange-init' | 'key-exchange-reply'>) => {
+    if (!peerHello || !await peerHello || !peerIdentityKey) return false;
+    return verifySignature(peerIdentityKey, signedKeyData(message), message.signature);
+  };
+
+  // Only the version fields are read before the compatibility check, since
+  // other versions may lay out the rest of the hello differently
+  const handleHello = async (data: unknown) => {
+    if (peerHello) {
+      if (await peerHello && (data as { identityKey?: unknown }).identityKey !== peerIdentityKey) {
+        console.error('Peer presented a different identity key during the connection, ignoring it');
+      }
+      return;
+    }
+
+    let message: MessageOf<'hello'>;
+    try {
+      const { version, minVersion } = parseHelloVersion(data);
+      const reason = checkCompatibility(version, minVersion);
+      if (reason) {
+        peerHello = Promise.resolve(false);
+        markIncompatible(reason);
+        // Answer anyway so the peer can tell the user too
+        sendHello().catch(error => console.error('Error sending hello:', error));
+        return;
+      }
+      message = parseMessage(data) as MessageOf<'hello'>;
+    } catch (error) {
+      console.error('Dropping malformed hello:', error instanceof Error ? error.message : error);
+      return;
+    }
+
+    peerHello = acceptPeerHello(message);
+    if (!await peerHello) {
+      return;
+    }
+    // Answer once in case our own hello was sent before the peer was listening
+    sendHello().catch(error => console.error('Error sending hello:', error));
+  };
+
+  const handleKeyExchangeMessage = async (message: MessageOf<'key-exchange-init' | 'key-exchange-reply' | 'key-exchange-complete'>) => {
+    if (message.type === 'key-exchange-init') {
+      try {
+        console.log('Received key-exchange-init with sessionId:', message.sessionId);
+        if (!await verifyPeerKey(message)) {
+          throw new Error('Key exchange message is not signed by the peer\'s identity key');
+        }
+        const { privateKey, publicKey } = await generateKeyPair();
+        const peerPublicKey = await importPublicKey(message.publicKey);
+        const info = sessionKeyInfo(message.sessionId, channel.peerId, channel.localPeerId);
+        sessionKeys.store(message.sessionId, await deriveSessionKey(privateKey, peerPublicKey, message.salt, info));
+
+        send(await signKeyMessage<'key-exchange-reply'>({
+          type: 'key-exchange-reply',
+          publicKey: await exportPublicKey(publicKey),
+          sessionId: message.sessionId
+        }));
+      } catch (error) {
+        console.error('Error handling key exchange init:', error);
+      }
+    } else if (message.type === 'key-exchange-reply') {
+      const pending = pendingKeyExchanges.get(message.sessionId);
+      if (!pending) {
+        console.warn('No pending key exchange found for sessionId:', message.sessionId);
+        return;
+      }
+      try {
+        console.log('Received key-exchange-reply for sessionId:', message.sessionId);
+        if (!await verifyPeerKey(message)) {
+          throw new Error('Key exchange message is not signed by the peer\'s identity key');
+        }
+        const peerPublicKey = await importPublicKey(message.publicKey);
+        const info = sessionKeyInfo(message.sessionId, channel.localPeerId, channel.peerId);
+        sessionKeys.store(message.sessionId, await deriveSessionKey(pending.privateKey, peerPublicKey, pending.salt, info));
+
+        send({
+          type: 'key-exchange-complete',
+          sessionId: message.sessionId
+        });
+        resolveKeyExchange(message.sessionId, true);
+      } catch (error) {
+        console.error('Error handling key exchange reply:', error);
+        resolveKeyExchange(message.sessionId, false);
+      }
+    } else if (message.type === 'key-exchange-complete') {
+      // Key exchange is complete, nothing more to do
+      console.log('Received key-exchange-complete for sessionId:', message.sessionId);
+    }
+  };
+
+  // Why an incoming request is refused without asking the user, if it is
+  const getRefusalReason = (request: PendingTransfer): TransferErrorReason | undefined => {
+    if (request.encryption !== 'ecdh' && request.encryption !== 'passphrase') {
+      return { code: 'unsupported', message: 'Unsupported encryption' };
+    }
+    if (!acceptsEncryption(request.encryption)) {
+      return { code: 'unsupported', message: `${request.encryption} encryption is not accepted` };
+    }
+    if (request.encryption === 'ecdh' && !request.sessionId) {
+      return { code: 'key-missing', message: 'Missing session ID' };
+    }
+    const params = request.passphrase;
+    if (request.encryption === 'passphrase' &&
+        (!params || !(params.iterations >= MIN_PBKDF2_ITERATIONS && params.iterations <= MAX_PBKDF2_ITERATIONS))) {
+      return { code: 'unsupported', message: 'Invalid passphrase parameters' };
+    }
+    return undefined;
+  };
+
+  // A passphrase request nobody has entered the passphrase for yet
+  const isLocked = (request: PendingTransfer) =>
+    request.encryption === 'passphrase' && !unlockedKeys.has(request.passphrase!.salt);
+
+  const handleFileRequest = (message: MessageOf<'file-request'>) => {
+    console.log(`Received file-request for ${message.fileName} (${message.fileId}), encryption: ${message.encryption}`);
+
+    const request: PendingTransfer = {
+      fileId: message.fileId,
+      peerId: channel.peerId,
+      fileName: message.fileName,
+      fileSize: message.fileSize,
+      fileType: message.fileType,
+      relativePath: message.relativePath,
+      group: message.group,
+      batch: message.batch,
+      fingerprint: message.fingerprint,
+      encryption: ENCRYPTION_MODES.find(mode => mode === message.encryption),
+      passphrase: message.passphrase,
+      iv: message.iv,
+      sessionId: message.sessionId
+    };
+
+    const refusal = getRefusalReason(request);
+    if (refusal) {
+      console.warn(`Refusing ${request.fileName} (${message.fileId}): ${refusal.message}`);
+      send({
+        type: 'file-rejected',
+        fileId: message.fileId,
+        reason: toWireReason(refusal)
+      });
+      addTransfer({
+        id: message.fileId,
+        name: request.fileName,
+        size: request.fileSize,
+        type: request.fileType,
+        progress: 0,
+        status: 'rejected',
+        encryption: request.encryption,
+        direction: 'receive',
+        relativePath: request.relativePath,
+        group: request.group,
+        errorReason: refusal
+      });
+      return;
+    }
+
+    // A file we already received part of is being offered again, split into chunks the same way
+    const suspended = message.fingerprint ? resumeStore.takeDownload(channel.peerId, message.fingerprint) : undefined;
+    if (suspended && suspended.record.fileSize === request.fileSize &&
+        (suspended.record.chunkSize ?? DEFAULT_CHUNK_SIZE) === (message.chunkSize ?? DEFAULT_CHUNK_SIZE)) {
+      if (suspended.sink && !isLocked(request)) {
+        // Still open from before the connection dropped, carry on without asking again
+        console.log(`Resuming ${request.fileName} (${message.fileId}) automatically`);
+        pendingRequests.set(message.fileId, request);
+        resumeDownload(message.fileId, suspended.record, suspended.sink);
+        return;
+      }
+      if (suspended.sink) {
+        // Still open, but the receiver has to enter the passphrase again
+        lockedResumes.set(message.fileId, { record: suspended.record, sink: suspended.sink });
+        request.resume = true;
+        request.resumeProgress = Math.round(countReceived(suspended.record.received) * 100 / suspended.record.totalChunks);
+      }
+      if (suspended.record.fileHandle) {
+        // Reopening the file on disk needs a user gesture
+        resumableRequests.set(message.fileId, suspended.record);
+        request.resume = true;
+        request.resumeProgress = Math.round(countReceived(suspended.record.received) * 100 / suspended.record.totalChunks);
+      }
+    } else if (suspended) {
+      resumeStore.removeDownload(suspended.record.fileId);
+    }
+
+    pendingRequests.set(message.fileId, request);
+    emitter.emit('request', request);
+  };
+
+  // Accept a re-offered file, telling the sender which chunks we already have
+  const resumeDownload = (fileId: string, record: ResumeRecord, sink: ChunkSink) => {
+    const request = pendingRequests.get(fileId);
+    if (!request) {
+      sink.abort('Transfer is no longer pending').catch(() => undefined);
+      return;
+    }
+    pendingRequests.delete(fileId);
+    resumedDownloads.set(fileId, { record: { ...record, fileId }, sink });
+
+    send({
+      type: 'file-accepted',
+      fileId,
+      received: encodeBitmap(record.received)
+    });
+  };
+
+  const handleFileStart = (message: MessageOf<'file-start'>) => {
+    const { fileId, fileSize } = message;
+
+    // Only files we accepted may start; anything else would skip the user and the drop-box rules
+    if (!acceptedFiles.has(fileId) && !resumedDownloads.has(fileId)) {
+      console.warn(`Refusing file-start for ${message.fileName} (${fileId}), which was not accepted`);
+      send({
+        type: 'file-cancel',
+        fileId,
+        reason: toWireReason({ code: 'declined', message: 'The file was not accepted' })
+      });
+      return;
+    }
+    acceptedFiles.delete(fileId);
+
+    let key: Promise<CryptoKey>;
+    if (message.encryption === 'ecdh' && message.sessionId) {
+      const sessionKey = sessionKeys.get(message.sessionId);
+      key = sessionKey
+        ? Promise.resolve(sessionKey)
+        : Promise.reject(new Error('Missing encryption information: No session key found for this session ID'));
+    } else if (message.encryption === 'passphrase' && message.passphrase) {
+      const passphraseKey = unlockedKeys.get(message.passphrase.salt);
+      key = passphraseKey
+        ? Promise.resolve(passphraseKey)
+        : Promise.reject(new Error('Missing encryption information: The passphrase has not been entered'));
+    } else {
+      key = Promise.reject(new Error('Missing encryption information'));
+    }
+    // Failures surface when the first chunk is decrypted
+    key.catch(() => undefined);
+
+    const chunkSize = message.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const totalChunks = getTotalChunks(fileSize, chunkSize);
+    const resumed = resumedDownloads.get(fileId);
+    resumedDownloads.delete(fileId);
+
+    let incoming: IncomingFile;
+    if (resumed && resumed.record.totalChunks === totalChunks &&
+        (resumed.record.chunkSize ?? DEFAULT_CHUNK_SIZE) === chunkSize) {
+      incoming = {
+        key,
+        iv: message.iv,
+        chunkSize,
+        totalChunks,
+        sink: resumed.sink,
+        received: resumed.record.received.slice(),
+        record: resumed.record,
+        writtenCount: countReceived(resumed.record.received),
+        retries: new Map()
+      };
+    } else {
+      const accepted = resumed?.sink ?? acceptedSinks.get(fileId) ?? createMemorySink(message.fileType);
+      acceptedSinks.delete(fileId);
+      const sink = accepted.sequential ? createOrderedSink(accepted) : accepted;
+
+      incoming = {
+        key,
+        iv: message.iv,
+        chunkSize,
+        totalChunks,
+        sink,
+        received: new Uint8Array(totalChunks),
+        record: {
+          fileId,
+          fingerprint: message.fingerprint ?? '',
+          peerId: channel.peerId,
+          fileName: message.fileName,
+          fileSize,
+          fileType: message.fileType,
+          totalChunks,
+          chunkSize,
+          received: new Uint8Array(totalChunks),
+          fileHandle: sink.fileHandle,
+          updatedAt: Date.now()
+        },
+        writtenCount: 0,
+        digest: createChunkedSha256(totalChunks),
+        retries: new Map()
+      };
+    }
+    incomingFiles.set(fileId, incoming);
+    markStart(fileId);
+    transferSpeeds.set(fileId, 0);
+
+    addTransfer({
+      id: fileId,
+      name: message.fileName,
+      size: fileSize,
+      type: message.fileType,
+      progress: Math.round(incoming.writtenCount * 100 / totalChunks),
+      status: 'pending',
+      sessionId: message.sessionId,
+      encryption: message.encryption,
+      direction: 'receive',
+      relativePath: message.relativePath,
+      group: message.group
+    });
+
+    // Everything may already have been written before the connection dropped
+    completeIfDone(fileId, incoming);
+  };
+
+  // SHA-256 of a received file, read back from the sink if it was not hashed as it arrived
+  const computeReceivedSha256 = async (incoming: IncomingFile, blob?: Blob) => {
+    const streamed = incoming.digest?.digest();
+    if (streamed) return streamed;
+    if (blob) return sha256Blob(blob);
+    const handle = incoming.sink.fileHandle ?? incoming.record.fileHandle;
+    if (handle) return sha256Blob(await handle.getFile());
+    // Streamed downloads cannot be read back
+    return undefined;
+  };
+
+  // Finish once every chunk is written and the sender's file-complete has arrived
+  const completeIfDone = async (fileId: string, incoming: IncomingFile) => {
+    if (incoming.writtenCount !== incoming.totalChunks ||
+        incoming.expectedSha256 === undefined ||
+        incomingFiles.get(fileId) !== incoming) {
+      return;
+    }
+    incomingFiles.delete(fileId);
+    resumeStore.removeDownload(fileId);
+    wipeSessionKey(transfers.get(fileId)?.sessionId);
+
+    let blob: Blob | undefined;
+    let sha256: string | undefined;
+    try {
+      blob = await incoming.sink.close();
+      sha256 = await computeReceivedSha256(incoming, blob);
+    } catch (error) {
+      failIncomingTransfer(fileId, error, describeFailure(error, 'failed'));
+      return;
+    }
+    markEnd(fileId);
+
+    const expected = incoming.expectedSha256;
+    if (expected && sha256 && sha256 !== expected) {
+      console.error(`SHA-256 mismatch for ${fileId}: expected ${expected}, got ${sha256}`);
+      updateTransfer(fileId, { status: 'error', verified: false, sha256, errorReason: { code: 'hash-mismatch' } });
+      send({
+        type: 'file-verified',
+        fileId,
+        verified: false
+      });
+      return;
+    }
+
+    const verified = !!expected && sha256 === expected;
+    updateTransfer(fileId, { blob, savedToDisk: !blob, progress: 100, status: 'completed', verified, sha256 });
+    send({
+      type: 'file-verified',
+      fileId,
+      verified: verified || undefined // Omitted when the file could not be checked
+    });
+  };
+
+  // Stop receiving a file and discard whatever was written so far
+  const discardIncomingFile = (fileId: string, reason: string) => {
+    const incoming = incomingFiles.get(fileId);
+    resumeStore.removeDownload(fileId);
+    wipeSessionKey(transfers.get(fileId)?.sessionId);
+    if (!incoming) return;
+    incomingFiles.delete(fileId);
+    incoming.sink.abort(reason).catch(error => console.error(`Error aborting sink for ${fileId}:`, error));
+  };
+
+  const failIncomingTransfer = (fileId: string, error: unknown, reason: TransferErrorReason) => {
+    console.error(`Error receiving file ${fileId} (${reason.code}):`, error);
+    cancelledTransfers.add(fileId);
+    discardIncomingFile(fileId, error instanceof Error ? error.message : 'Transfer failed');
+
+    updateTransfer(fileId, { status: 'error', errorReason: reason });
+    markEnd(fileId);
+
+    // Stop the sender from pushing any more chunks, and tell it why
+    send({
+      type: 'file-cancel',
+      fileId,
+      reason: toWireReason(reason)
+    });
+  };
+
+  const handleFileChunk = async (message: MessageOf<'file-chunk'>, lane: Lane) => {
+    const { fileId, chunk, data } = message;
+    if (cancelledTransfers.has(fileId)) {
+      console.log(`Ignoring chunk for cancelled transfer ${fileId}`);
+      return;
+    }
+    const incoming = incomingFiles.get(fileId);
+    if (!incoming || chunk >= incoming.totalChunks) {
+      console.warn(`Ignoring unexpected chunk for transfer ${fileId}`);
+      return;
+    }
+
+    let key: CryptoKey;
+    try {
+      key = await incoming.key;
+    } catch (error) {
+      // Asking for the chunk again would not help
+      if (incomingFiles.get(fileId) === incoming) {
+        failIncomingTransfer(fileId, error, describeFailure(error, 'key-missing'));
+      }
+      return;
+    }
+
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await decryptChunk(key, incoming.iv, fileId, chunk, incoming.totalChunks, data);
+      if (await sha256Chunk(plaintext) !== message.digest) {
+        throw new Error(`Chunk ${chunk} does not match its SHA-256 digest`);
+      }
+    } catch (error) {
+      retryChunk(fileId, incoming, chunk, error);
+      return;
+    }
+
+    // The transfer may have been cancelled while decrypting
+    if (incomingFiles.get(fileId) !== incoming || incoming.received[chunk]) {
+      return;
+    }
+    incoming.received[chunk] = 1;
+    // Hash before writing, streaming sinks take ownership of the buffer
+    incoming.digest?.add(chunk, plaintext);
+
+    try {
+      await incoming.sink.write(chunk, chunk * incoming.chunkSize, plaintext);
+    } catch (error) {
+      failIncomingTransfer(fileId, error, describeFailure(error, 'failed'));
+      return;
+    }
+    if (incomingFiles.get(fileId) !== incoming) {
+      return;
+    }
+    incoming.record.received[chunk] = 1;
+    incoming.writtenCount++;
+    if (incoming.record.fingerprint) {
+      resumeStore.saveProgress(incoming.record);
+    }
+
+    // Calculate download speed
+    const now = performance.now();
+    downloadBytes += data.byteLength;
+    countLaneBytes(lane, data.byteLength);
+
+    // Update more frequently for the first few chunks to get an initial estimate quickly
+    if (incoming.writtenCount <= 5 || now - lastChunkTime > 1000) {
+      const elapsedSeconds = (now - lastChunkTime) / 1000;
+      if (elapsedSeconds > 0) {
+        transferSpeeds.set(fileId, downloadBytes / elapsedSeconds);
+      }
+      downloadBytes = 0;
+      lastChunkTime = now;
+    }
+
+    const progress = Math.round(incoming.writtenCount * 100 / incoming.totalChunks);
+    const transfer = transfers.get(fileId);
+    updateTransfer(fileId, {
+      progress,
+      status: activeStatus(fileId),
+      estimatedTimeRemaining: transfer
+        ? calculateEstimatedTimeRemaining(fileId, progress, transfer.size)
+        : undefined
+    });
+
+    send({
+      type: 'chunk-ack',
+      fileId,
+      chunk
+    });
+
+    completeIfDone(fileId, incoming);
+  };
+  // Ask the sender for a chunk again, failing the transfer once it has been retried too often
+  const retryChunk = (fileId: string, incoming: IncomingFile, chunk: number, error: unknown) => {
+    if (incomingFiles.get(fileId) !== incoming || incoming.received[chunk]) {
+      return;
+    }
+    const attempts = (incoming.retries.get(chunk) ?? 0) + 1;
+    if (attempts > MAX_CHUNK_RETRIES) {
+      failIncomingTransfer(fileId, error, describeFailure(error, 'decrypt-failed'));
+      return;
+    }
+    incoming.retries.set(chunk, attempts);
+    console.warn(`Chunk ${chunk} of ${fileId} failed verification, requesting it again (attempt ${attempts}):`, error);
+    send({
+      type: 'chunk-retry',
+      fileId,
+      chunk
+    });
+  };
+
+  const handleFileComplete = (message: MessageOf<'file-complete'>) => {
+    const incoming = incomingFiles.get(message.fileId);
+    if (!incoming) return;
+    incoming.expectedSha256 = message.sha256 ?? null;
+    completeIfDone(message.fileId, incoming);
+  };
+
+  const resendChunk = (fileId: string, chunk: number) => {
+    const resend = chunkResenders.get(fileId);
+    if (!resend) {
+      console.warn(`Cannot resend chunk ${chunk} of unknown upload ${fileId}`);
+      return;
+    }
+    resend(chunk).catch(error => {
+      console.error(`Error resending chunk ${chunk} of ${fileId}:`, error);
+      cancelTransfer(fileId, describeFailure(error, 'failed'));
+    });
+  };
+
+  const handleChunkRetry = (message: MessageOf<'chunk-retry'>) => {
+    console.warn(`Peer asked for chunk ${message.chunk} of ${message.fileId} again`);
+    resendChunk(message.fileId, message.chunk);
+  };
+
+  const handleFileVerified = (message: MessageOf<'file-verified'>) => {
+    const { fileId, verified } = message;
+    activeUploads.delete(fileId);
+    chunkResenders.delete(fileId);
+    releaseUpload(fileId);
+    wipeSessionKey(transfers.get(fileId)?.sessionId);
+    if (verified === false) {
+      console.error(`Peer reported a SHA-256 mismatch for ${fileId}`);
+      updateTransfer(fileId, { status: 'error', verified: false, confirmed: true, errorReason: { code: 'hash-mismatch' } });
+    } else {
+      updateTransfer(fileId, { verified, confirmed: true });
+    }
+  };
+
+  const handleChunkAck = (message: MessageOf<'chunk-ack'>) => {
+    // Frees room in the window; its round trip tells us about the link
+    if (!flow.acked(message.fileId, message.chunk)) return;
+    lanes.forEach(lane => lane.chunksInFlight.get(message.fileId)?.delete(message.chunk));
+    // The receiver has the file-start, so the rest of the file can use every lane
+    stripedFiles.add(message.fileId);
+    const estimate = flow.estimate();
+    if (estimate) {
+      emitter.emit('quality', checkConnectionQuality(estimate));
+    }
+  };
+
+  const handleFileCancel = (message: MessageOf<'file-cancel'>) => {
+    const reason = readErrorReason(message.reason);
+    console.log(`Received cancellation request for file ${message.fileId}${reason ? ` (${reason.code})` : ''}`);
+    cancelledTransfers.add(message.fileId);
+
+    // A peer that gives a reason could not go on, rather than changing its mind
+    updateTransfer(message.fileId, reason ? { status: 'error', errorReason: reason } : { status: 'cancelled' });
+    markEnd(message.fileId);
+
+    activeUploads.delete(message.fileId);
+    chunkResenders.delete(message.fileId);
+    acceptedFiles.delete(message.fileId);
+    discardIncomingFile(message.fileId, 'Cancelled by peer');
+    wipeSessionKey(pendingRequests.get(message.fileId)?.sessionId);
+    sendingChunks.delete(message.fileId);
+    releaseUpload(message.fileId);
+
+    send({
+      type: 'file-cancel-ack',
+      fileId: message.fileId
+    });
+  };
+
+  // Only transfers whose chunks are still flowing can be paused
+  const setPaused = (fileId: string, paused: boolean, notifyPeer: boolean) => {
+    if (paused === pausedTransfers.has(fileId)) return;
+    if (!sendingChunks.has(fileId) && !incomingFiles.has(fileId)) {
+      console.warn(`Cannot ${paused ? 'pause' : 'resume'} ${fileId}, it is not running`);
+      return;
+    }
+    console.log(`${paused ? 'Pausing' : 'Resuming'} transfer ${fileId}${notifyPeer ? '' : ' at the peer\'s request'}`);
+
+    if (paused) {
+      let resume: () => void = () => undefined;
+      const resumed = new Promise<void>(resolve => {
+        resume = resolve;
+      });
+      pausedTransfers.set(fileId, { since: Date.now(), resumed, resume });
+    } else {
+      endPause(fileId);
+      const time = transferTimes.get(fileId);
+      if (time) {
+        emitter.emit('transfer-time', { fileId, time });
+      }
+      // Received speed is measured afresh too
+      if (incomingFiles.has(fileId)) {
+        lastChunkTime = performance.now();
+        downloadBytes = 0;
+      }
+    }
+    updateTransfer(fileId, { status: activeStatus(fileId), estimatedTimeRemaining: undefined });
+
+    if (notifyPeer) {
+      send({
+        type: paused ? 'file-pause' : 'file-resume',
+        fileId
+      });
+    }
+  };
+
+  const handleFileResponse = (message: MessageOf<'file-accepted' | 'file-rejected'>) => {
+    const resolve = pendingResponses.get(message.fileId);
+    if (!resolve) {
+      console.warn(`Unexpected ${message.type} for file ${message.fileId}`);
+      return;
+    }
+    pendingResponses.delete(message.fileId);
+    resolve(message);
+  };
+
+  // Check an envelope and hand its message on; anything forged, replayed or malformed is dropped
+  const openEnvelope = async (lane: Lane, envelope: ReceivedEnvelope) => {
+    const key = await channelKey;
+    if (disposed) return;
+    if (envelope.seq <= lane.receiveSeq) {
+      console.warn(`Dropping replayed message (seq ${envelope.seq})`);
+      return;
+    }
+    if (!await verifyEnvelope(key, laneSender(channel.peerId, lane), envelope)) {
+      console.error('Dropping message with an invalid MAC');
+      return;
+    }
+    lane.receiveSeq = envelope.seq;
+    // Only authenticated traffic shows the peer is still there
+    heartbeat?.heard();
+
+    let message: ProtocolMessage;
+    try {
+      message = parseMessage(envelope.message);
+    } catch (error) {
+      console.error('Dropping malformed message:', error instanceof Error ? error.message : error);
+      return;
+    }
+    if (lane !== primary && message.type !== 'file-chunk') {
+      console.warn(`Dropping ${message.type} message sent on data channel ${lane.index}`);
+      return;
+    }
+    handleMessage(message, lane);
+  };
+
+  const receiveEnvelope = (lane: Lane, data: unknown) => {
+    let envelope: ReceivedEnvelope;
+    try {
+      envelope = parseEnvelope(data);
+    } catch (error) {
+      console.error('Dropping malformed envelope:', error instanceof Error ? error.message : error);
+      return;
+    }
+    lane.incoming = lane.incoming
+      .then(() => openEnvelope(lane, envelope))
+      .catch(error => console.error('Error opening message envelope:', error));
+  };
+
+  const handleIncomingData = (data: unknown) => {
+    if (disposed || incompatibility) return;
+    if (isHello(data)) {
+      handleHello(data);
+      return;
+    }
+    if (!isEnvelope(data)) {
+      // Clients from before protocol versions send unwrapped messages and no hello
+      if (!peerHello) {
+        markIncompatible('This peer is running an older version of the app and needs to update');
+        return;
+      }
+      console.warn(`Dropping unauthenticated ${String((data as { type?: unknown } | null)?.type)} message`);
+      return;
+    }
+    receiveEnvelope(primary, data);
+  };
+
+  const handleMessage = (data: ProtocolMessage, lane: Lane) => {
+    switch (data.type) {
+      case 'hello':
+        console.warn('Ignoring hello sent inside an envelope');
+        break;
+      case 'key-exchange-init':
+      case 'key-exchange-reply':
+      case 'key-exchange-complete':
+        handleKeyExchangeMessage(data);
+        break;
+      case 'file-request':
+        handleFileRequest(data);
+        break;
+      case 'file-accepted':
+      case 'file-rejected':
+        handleFileResponse(data);
+        break;
+      case 'file-start':
+        handleFileStart(data);
+        break;
+      case 'file-chunk':
+        handleFileChunk(data, lane);
+        break;
+      case 'chunk-ack':
+        handleChunkAck(data);
+        break;
+      case 'chunk-retry':
+        handleChunkRetry(data);
+        break;
+      case 'file-verified':
+        handleFileVerified(data);
+        break;
+      case 'file-cancel':
+        handleFileCancel(data);
+        break;
+      case 'file-pause':
+      case 'file-resume':
+        setPaused(data.fileId, data.type === 'file-pause', false);
+        break;
+      case 'file-cancel-ack':
+        console.log(`Received cancellation acknowledgment for file ${data.fileId}`);
+        break;
+      case 'file-complete':
+        handleFileComplete(data);
+        break;
+      case 'ping':
+        send({ type: 'pong', id: data.id });
+        break;
+      case 'pong':
+        heartbeat?.pong(data.id);
+        break;
+      case 'goodbye':
+        console.log(`${channel.peerId} is closing the connection`);
+        emitter.emit('goodbye', undefined);
+        break;
+    }
+  };
+
+  // Send every chunk the receiver does not already have
+  const startTransfer = (fileId: string, payload: OutgoingPayload, alreadyReceived?: Uint8Array) => {
+    const { file, fingerprint, key, iv, sessionId, passphrase, options } = payload;
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const totalChunks = getTotalChunks(file.size, chunkSize);
+    const chunksToSend: number[] = [];
+    for (let index = 0; index < totalChunks; index++) {
+      if (!alreadyReceived?.[index]) {
+        chunksToSend.push(index);
+      }
+    }
+    const skippedChunks = totalChunks - chunksToSend.length;
+
+    console.log(`Starting ${options.encryption} encrypted file transfer for ${file.name} (${fileId})` +
+                (skippedChunks > 0 ? `, resuming with ${skippedChunks}/${totalChunks} chunks already received` : ''));
+
+    activeUploads.set(fileId, { fileId, peerId: channel.peerId, file, options });
+    markStart(fileId);
+    addTransfer({
+      id: fileId,
+      name: file.name,
+      size: file.size,
+      type: file.type,
+      progress: Math.round(skippedChunks * 100 / totalChunks),
+      status: 'pending',
+      sessionId,
+      encryption: options.encryption,
+      direction: 'send',
+      relativePath: options.relativePath,
+      group: options.group
+    });
+
+    send({
+      type: 'file-start',
+      fileId,
+      fileName: file.name,
+      fileSize: file.size,
+      fileType: file.type,
+      relativePath: options.relativePath,
+      group: options.group,
+      fingerprint,
+      sessionId,
+      passphrase,
+      iv,
+      encryption: options.encryption,
+      chunkSize,
+      resume: skippedChunks > 0
+    });
+
+    sendingChunks.add(fileId);
+    // Whole-file digest, fed as chunks are read in order
+    const digest = createChunkedSha256(totalChunks);
+    let position = 0; // Index into chunksToSend
+    let lastUpdateTime = performance.now();
+    let bytesTransferred = 0;
+
+    // Read and encrypt a single chunk straight from the file
+    const sendChunk = async (chunkIndex: number, resend = false) => {
+      const start = chunkIndex * chunkSize;
+      const end = Math.min(start + chunkSize, file.size);
+      const plaintext = await file.slice(start, end).arrayBuffer();
+      digest.add(chunkIndex, plaintext);
+      const chunkDigest = await sha256Chunk(plaintext);
+      const buffer = await encryptChunk(key, iv, fileId, chunkIndex, totalChunks, plaintext);
+
+      const lane = pickLane(fileId);
+      sendOnLane(lane, {
+        type: 'file-chunk',
+        fileId,
+        chunk: chunkIndex,
+        total: totalChunks,
+        data: buffer,
+        digest: chunkDigest
+      });
+      flow.sent(fileId, chunkIndex, buffer.byteLength);
+      trackChunk(lane, fileId, chunkIndex);
+      countLaneBytes(lane, buffer.byteLength);
+
+      // A resent chunk replaces one that was counted but never acknowledged
+      if (resend) return;
+
+      // Update bytes transferred and calculate speed
+      bytesTransferred += buffer.byteLength;
+      const now = performance.now();
+
+      // Update more frequently for the first few chunks to get an initial estimate quickly
+      if (position < 5 || now - lastUpdateTime > 1000) {
+        const elapsedSeconds = (now - lastUpdateTime) / 1000;
+        if (elapsedSeconds > 0) {
+          transferSpeeds.set(fileId, bytesTransferred / elapsedSeconds);
+        }
+        bytesTransferred = 0;
+        lastUpdateTime = now;
+      }
+    };
+
+    // Chunks stay available for re-requests until the receiver has verified the file
+    chunkResenders.set(fileId, async chunkIndex => {
+      if (chunkIndex >= totalChunks) {
+        console.warn(`Ignoring request for chunk ${chunkIndex} of ${fileId}, which only has ${totalChunks}`);
+        return;
+      }
+      await sendChunk(chunkIndex, true);
+    });
+
+    const finish = async () => {
+      sendingChunks.delete(fileId);
+
+      let sha256: string | undefined;
+      try {
+        // Resumed uploads skip chunks, so the file has to be read again to hash it
+        sha256 = digest.digest() ?? await sha256Blob(file);
+      } catch (error) {
+        console.error(`Error computing SHA-256 of ${file.name}:`, error);
+      }
+      if (disposed || cancelledTransfers.has(fileId)) return;
+
+      send({
+        type: 'file-complete',
+        fileId,
+        sha256
+      });
+
+      markEnd(fileId);
+      updateTransfer(fileId, { progress: 100, status: 'completed', sha256 });
+    };
+
+    const processChunks = async () => {
+      while (position < chunksToSend.length) {
+        if (disposed || cancelledTransfers.has(fileId)) {
+          console.log(`Transfer ${fileId} was cancelled, stopping chunk processing`);
+          return;
+        }
+        const paused = pausedTransfers.get(fileId);
+        if (paused) {
+          await paused.resumed;
+          // Measure speed afresh, so the pause does not count
+          lastUpdateTime = performance.now();
+          bytesTransferred = 0;
+          continue;
+        }
+        // Wait for room in the congestion window, then for the channel the chunk will use to drain
+        if (!flow.canSend(chunkSize)) {
+          await flow.waitForWindow();
+          continue;
+        }
+        const { channel: laneChannel } = pickLane(fileId);
+        if (laneChannel.bufferedAmount() > MAX_BUFFERED_BYTES) {
+          await waitForBufferDrain(laneChannel);
+          continue;
+        }
+
+        const chunkIndex = chunksToSend[position];
+        try {
+          await sendChunk(chunkIndex);
+        } catch (error) {
+          console.error(`Error sending chunk ${chunkIndex} of ${file.name}:`, error);
+          cancelTransfer(fileId, describeFailure(error, 'failed'));
+          return;
+        }
+        position++;
+
+        const progress = Math.round((skippedChunks + position) * 100 / totalChunks);
+        updateTransfer(fileId, {
+          progress,
+          status: activeStatus(fileId),
+          estimatedTimeRemaining: calculateEstimatedTimeRemaining(fileId, progress, file.size)
+        });
+      }
+      finish();
+    };
+
+    processChunks();
+  };
+
+  // Derive (once per connection) the key and parameters for sending with a passphrase
+  const getPassphraseKey = (passphrase: string) => {
+    let derived = passphraseKeys.get(passphrase);
+    if (!derived) {
+      derived = (async () => {
+        const params = { salt: generatePassphraseSalt(), iterations: PBKDF2_ITERATIONS };
+        const key = await deriveKeyFromPassphrase(passphrase, params.salt, params.iterations);
+        return { key, params: { ...params, check: await createPassphraseCheck(key) } };
+      })();
+      passphraseKeys.set(passphrase, derived);
+      // Let a failed derivation be retried
+      derived.catch(() => passphraseKeys.delete(passphrase));
+    }
+    return derived;
+  };
+
+  // Show an upload that never got as far as being offered to the peer
+  const addFailedUpload = (fileId: string, file: File, options: SendFileOptions, reason: TransferErrorReason) => {
+    console.error(`Could not send ${file.name} (${fileId}): ${reason.message ?? reason.code}`);
+    addTransfer({
+      id: fileId,
+      name: file.name,
+      size: file.size,
+      type: file.type,
+      progress: 0,
+      status: 'error',
+      encryption: options.encryption,
+      direction: 'send',
+      relativePath: options.relativePath,
+      group: options.group,
+      errorReason: reason
+    });
+  };
+
+  // Replace a transfer's session key with a newly negotiated one; file-start carries the new session ID
+  const rotateSessionKey = async (payload: OutgoingPayload): Promise<OutgoingPayload | null> => {
+    wipeSessionKey(payload.sessionId);
+    const sessionId = generateSessionId();
+    console.log(`Rotating session key ${payload.sessionId} to ${sessionId}`);
+    try {
+      const key = await initiateKeyExchange(sessionId) && sessionKeys.get(sessionId);
+      return key ? { ...payload, key, sessionId } : null;
+    } catch (error) {
+      console.error('Error during key exchange:', error);
+      return null;
+    }
+  };
+
+  const offerFile = async (file: File, fileId: string, options: SendFileOptions) => {
+    if (!channel.isOpen()) {
+      addFailedUpload(fileId, file, options, { code: 'connection-lost', message: 'No active connection' });
+      throw new Error('No active connection');
+    }
+    if (incompatibility) {
+      addFailedUpload(fileId, file, options, { code: 'unsupported', message: incompatibility });
+      throw new Error(incompatibility);
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      addFailedUpload(fileId, file, options, { code: 'too-large', message: 'Files can be at most 1 TiB' });
+      throw new Error(`${file.name} is larger than the 1 TiB limit`);
+    }
+
+    const iv = generateBaseIv();
+    const fingerprint = await computeFileFingerprint(file);
+    let payload: OutgoingPayload;
+
+    if (options.encryption === 'passphrase') {
+      if (!options.passphrase) {
+        addFailedUpload(fileId, file, options, { code: 'key-missing', message: 'No passphrase was entered' });
+        throw new Error('A passphrase is required for passphrase encryption');
+      }
+      const { key, params } = await getPassphraseKey(options.passphrase);
+      payload = { file, fingerprint, options, key, iv, passphrase: params };
+    } else {
+      // Never fall back to anything weaker: without a session key the file is not sent
+      const sessionId = generateSessionId();
+      let key: CryptoKey | undefined;
+      let failure: TransferErrorReason = { code: 'key-missing', message: `Key exchange with ${channel.peerId} failed` };
+      try {
+        key = await initiateKeyExchange(sessionId) ? sessionKeys.get(sessionId) : undefined;
+      } catch (error) {
+        console.error('Error during key exchange:', error);
+        failure = describeFailure(error, 'key-missing');
+      }
+      console.log(`Key exchange ${key ? 'succeeded' : 'failed'} for file ${file.name}`);
+      if (!key) {
+        addFailedUpload(fileId, file, options, incompatibility ? { code: 'unsupported', message: incompatibility } : failure);
+        throw new Error(incompatibility ?? `Key exchange with ${channel.peerId} failed, not sending ${file.name}`);
+      }
+      payload = { file, fingerprint, options, key, iv, sessionId };
+    }
+
+    // Chosen once the peer's hello is in; peers that cannot be told the chunk size get the default one
+    const chunkSize = peerCapabilities.includes('chunk-size')
+      ? options.chunkSize ?? flow.chunkSizeFor(file.size)
+      : DEFAULT_CHUNK_SIZE;
+    payload = { ...payload, options: { ...options, chunkSize } };
+
+    const response = new Promise<MessageOf<'file-accepted' | 'file-rejected'> | null>((resolve) => {
+      pendingResponses.set(fileId, resolve);
+    });
+
+    send({
+      type: 'file-request',
+      fileId,
+      fileName: file.name,
+      fileSize: file.size,
+      fileType: file.type,
+      relativePath: options.relativePath,
+      group: options.group,
+      batch: options.batch,
+      fingerprint,
+      iv: payload.iv,
+      sessionId: payload.sessionId, // Only included for ECDH encryption
+      passphrase: payload.passphrase, // Only included for passphrase encryption
+      encryption: options.encryption,
+      chunkSize
+    });
+    console.log(`Waiting for response to file-request for ${file.name} (${fileId})`);
+
+    const reply = await response;
+    if (!disposed && incompatibility) {
+      // The peer turned out to be incompatible while we waited
+      addFailedUpload(fileId, file, options, { code: 'unsupported', message: incompatibility });
+      throw new Error(incompatibility);
+    }
+    if (disposed || !reply) {
+      return false;
+    }
+    if (reply.type === 'file-accepted') {
+      // The receiver may have taken a while to accept; don't start on an old key
+      if (payload.sessionId && !sessionKeys.isFresh(payload.sessionId)) {
+        const rotated = await rotateSessionKey(payload);
+        if (!rotated) {
+          const reason: TransferErrorReason = { code: 'key-missing', message: 'Could not agree on a fresh session key' };
+          send({
+            type: 'file-cancel',
+            fileId,
+            reason: toWireReason(reason)
+          });
+          addFailedUpload(fileId, file, options, reason);
+          return false;
+        }
+        payload = rotated;
+      }
+      // A resumed download tells us which chunks it already has
+      const totalChunks = getTotalChunks(file.size, chunkSize);
+      startTransfer(fileId, payload, reply.received ? decodeBitmap(reply.received, totalChunks) : undefined);
+      return true;
+    }
+
+    wipeSessionKey(payload.sessionId);
+    // Peers that do not say why simply declined
+    const reason = readErrorReason(reply.reason) ?? { code: 'declined' };
+    console.log(`File ${file.name} (${fileId}) was rejected: ${reason.message ?? reason.code}`);
+    addTransfer({
+      id: fileId,
+      name: file.name,
+      size: file.size,
+      type: file.type,
+      progress: 0,
+      status: 'rejected',
+      direction: 'send',
+      relativePath: options.relativePath,
+      group: options.group,
+      errorReason: reason
+    });
+    return false;
+  };
+
+  // Every failure to offer a file shows up as a failed transfer, not just in the log
+  const sendFile = (file: File, fileId: string, options: SendFileOptions) =>
+    offerFile(file, fileId, options).catch(error => {
+      if (transfers.get(fileId)?.status !== 'error') {
+        addFailedUpload(fileId, file, options, describeFailure(error, 'failed'));
+      }
+      throw error;
+    });
+  const acceptTransfer = (fileId: string, sink?: ChunkSink) => {
+    const request = pendingRequests.get(fileId);
+    if (!request) {
+      sink?.abort('Transfer is no longer pending').catch(() => undefined);
+      return;
+    }
+
+    if (isLocked(request)) {
+      console.warn(`${request.fileName} (${fileId}) needs its passphrase before it can be accepted`);
+      sink?.abort('Transfer is locked').catch(() => undefined);
+      return;
+    }
+
+    const locked = lockedResumes.get(fileId);
+    if (locked) {
+      lockedResumes.delete(fileId);
+      sink?.abort('Resuming into the existing download').catch(() => undefined);
+      resumeDownload(fileId, locked.record, locked.sink);
+      return;
+    }
+
+    // If this is an ECDH transfer, make sure we have the session key
+    if (request.encryption === 'ecdh' && request.sessionId && !sessionKeys.get(request.sessionId)) {
+      console.warn(`No session key found for sessionId: ${request.sessionId}. The sender will have to negotiate a new one.`);
+      console.log('Available session keys:', sessionKeys.list());
+    }
+
+    const resumable = resumableRequests.get(fileId);
+    resumableRequests.delete(fileId);
+    if (resumable?.fileHandle && !sink) {
+      // Reopen the partially written file and only ask for the missing chunks
+      createFileHandleSink(resumable.fileHandle, true)
+        .then(reopened => resumeDownload(fileId, resumable, reopened))
+        .catch(error => {
+          console.warn(`Could not reopen ${resumable.fileName}, downloading it again:`, error);
+          resumeStore.removeDownload(resumable.fileId);
+          acceptTransfer(fileId);
+        });
+      return;
+    }
+    if (resumable) {
+      resumeStore.removeDownload(resumable.fileId);
+    }
+
+    pendingRequests.delete(fileId);
+    acceptedFiles.add(fileId);
+    if (sink) {
+      acceptedSinks.set(fileId, sink);
+    }
+    send({
+      type: 'file-accepted',
+      fileId
+    });
+  };
+
+  const unlockTransfer = async (fileId: string, passphrase: string) => {
+    const request = pendingRequests.get(fileId);
+    if (!request) return false;
+    if (!isLocked(request)) return true;
+
+    const { salt, iterations, check } = request.passphrase!;
+    const key = await deriveKeyFromPassphrase(passphrase, salt, iterations);
+    if (!await verifyPassphraseCheck(key, check)) {
+      console.warn(`Wrong passphrase for ${request.fileName} (${fileId})`);
+      return false;
+    }
+    // Other files sent with the same passphrase share the salt and unlock with it
+    unlockedKeys.set(salt, key);
+    return true;
+  };
+
+  const rejectTransfer = (fileId: string, reason: TransferErrorReason = { code: 'declined' }) => {
+    const resumable = resumableRequests.get(fileId);
+    if (resumable) {
+      resumableRequests.delete(fileId);
+      resumeStore.removeDownload(resumable.fileId);
+    }
+    const locked = lockedResumes.get(fileId);
+    if (locked) {
+      lockedResumes.delete(fileId);
+      resumeStore.removeDownload(locked.record.fileId);
+      locked.sink.abort('Transfer rejected').catch(() => undefined);
+    }
+    const request = pendingRequests.get(fileId);
+    if (!request) return;
+    pendingRequests.delete(fileId);
+    wipeSessionKey(request.sessionId);
+    send({
+      type: 'file-rejected',
+      fileId,
+      reason: toWireReason(reason)
+    });
+  };
+
+  const cancelTransfer = (fileId: string, reason?: TransferErrorReason) => {
+    console.log(`Cancelling file transfer for ${fileId}${reason ? ` (${reason.code})` : ''}`);
+    cancelledTransfers.add(fileId);
+
+    send({
+      type: 'file-cancel',
+      fileId,
+      reason: toWireReason(reason)
+    });
+
+    updateTransfer(fileId, reason ? { status: 'error', errorReason: reason } : { status: 'cancelled' });
+    markEnd(fileId);
+
+    sendingChunks.delete(fileId);
+    releaseUpload(fileId);
+    activeUploads.delete(fileId);
+    chunkResenders.delete(fileId);
+    acceptedFiles.delete(fileId);
+    discardIncomingFile(fileId, 'Cancelled');
+  };
+
+  const pauseTransfer = (fileId: string) => {
+    if (!peerCapabilities.includes('pause')) {
+      console.warn(`${channel.peerId} cannot pause transfers`);
+      return;
+    }
+    setPaused(fileId, true, true);
+  };
+
+  const resumeTransfer = (fileId: string) => {
+    if (!peerCapabilities.includes('pause')) {
+      console.warn(`${channel.peerId} cannot resume paused transfers`);
+      return;
+    }
+    setPaused(fileId, false, true);
+  };
+
+  const resumeInterruptedUploads = () => {
+    resumeStore.takeUploads(channel.peerId).forEach(upload => {
+      console.log(`Offering interrupted upload ${upload.file.name} (${upload.fileId}) again`);
+      sendFile(upload.file, upload.fileId, upload.options)
+        .catch(error => console.error(`Error resuming upload ${upload.file.name}:`, error));
+    });
+  };
+
+  const unsubscribeData = channel.onData(handleIncomingData);
+
+  const dispose = async () => {
+    if (disposed) return;
+
+    if (channel.isOpen()) {
+      // Closing on purpose: let the peer know about any transfers we are still sending
+      sendingChunks.forEach(fileId => {
+        send({
+          type: 'file-cancel',
+          fileId
+        });
+      });
+      if (peerCapabilities.includes('heartbeat')) {
+        send({ type: 'goodbye' });
+      }
+    } else {
+      // The connection dropped: keep unfinished transfers so they can resume on reconnect
+      incomingFiles.forEach((incoming, fileId) => {
+        if (!incoming.record.fingerprint) return;
+        incomingFiles.delete(fileId);
+        resumeStore.suspendDownload(incoming.record, incoming.sink);
+        updateTransfer(fileId, { status: 'interrupted', estimatedTimeRemaining: undefined });
+      });
+      resumedDownloads.forEach(({ record, sink }, fileId) => {
+        resumedDownloads.delete(fileId);
+        resumeStore.suspendDownload(record, sink);
+      });
+      lockedResumes.forEach(({ record, sink }, fileId) => {
+        lockedResumes.delete(fileId);
+        resumeStore.suspendDownload(record, sink);
+      });
+      activeUploads.forEach(upload => {
+        resumeStore.saveUpload(upload);
+        updateTransfer(upload.fileId, { status: 'interrupted', estimatedTimeRemaining: undefined });
+      });
+    }
+
+    disposed = true;
+    unsubscribeData();
+    heartbeat?.stop();
+
+    pendingResponses.forEach(resolve => resolve(null));
+    pendingKeyExchanges.forEach(({ resolve }) => resolve(false));
+    pendingResponses.clear();
+    pendingKeyExchanges.clear();
+    pendingRequests.clear();
+    [...incomingFiles.keys()].forEach(fileId => discardIncomingFile(fileId, 'Connection closed'));
+    acceptedSinks.forEach(sink => sink.abort('Connection closed').catch(() => undefined));
+    acceptedSinks.clear();
+    acceptedFiles.clear();
+    resumableRequests.clear();
+    resumedDownloads.forEach(({ sink }) => sink.abort('Connection closed').catch(() => undefined));
+    resumedDownloads.clear();
+    lockedResumes.forEach(({ sink }) => sink.abort('Connection closed').catch(() => undefined));
+    lockedResumes.clear();
+    passphraseKeys.clear();
+    unlockedKeys.clear();
+    activeUploads.clear();
+    sendingChunks.clear();
+    pausedTransfers.forEach(paused => paused.resume());
+    pausedTransfers.clear();
+    flow.reset();
+    chunkResenders.clear();
+    cancelledTransfers.clear();
+    sessionKeys.clear();
+    emitter.clear();
+
+    lanes.slice(1).forEach(lane => {
+      removeLane(lane);
+      lane.channel.close();
+    });
+    waitingLanes.splice(0).forEach(waiting => waiting.channel.close());
+
+    // Without a channel key nothing queued can ever be sent
+    if (channelReady) {
+      await primary.outgoing;
+    }
+  };
+
+  const removeLane = (lane: Lane) => {
+    const position = lanes.indexOf(lane);
+    if (position < 0) return;
+    lanes.splice(position, 1);
+    lane.unsubscribe();
+    if (disposed) return;
+    console.warn(`Data channel ${lane.index} to ${channel.peerId} closed`);
+    // Whatever it had in flight goes out again on the others
+    lane.chunksInFlight.forEach((chunks, fileId) => chunks.forEach(chunk => resendChunk(fileId, chunk)));
+  };
+
+  const addLane = (laneChannel: TransferChannel, index: number): Lane | undefined => {
+    if (!disposed && !channelReady) {
+      // The peer agreed on lanes when it got our hello, which may be before we have its
+      // hello. Hold the lane, and whatever arrives on it, until the lane count is known
+      console.log(`Holding data channel ${index} from ${laneChannel.peerId} until the session is established`);
+      const buffered: unknown[] = [];
+      const unsubscribeData = laneChannel.onData(data => buffered.push(data));
+      const unsubscribeClose = laneChannel.onClose(() => {
+        const position = waitingLanes.findIndex(waiting => waiting.channel === laneChannel);
+        if (position >= 0) waitingLanes.splice(position, 1);
+      });
+      waitingLanes.push({
+        channel: laneChannel,
+        open: () => {
+          unsubscribeData();
+          unsubscribeClose();
+          const lane = addLane(laneChannel, index);
+          if (lane) buffered.forEach(data => receiveEnvelope(lane, data));
+        }
+      });
+      return undefined;
+    }
+
+    const refusal = disposed ? 'the connection is closed'
+      : laneChannel.peerId !== channel.peerId ? `it leads to ${laneChannel.peerId}`
+      : !Number.isInteger(index) || index < 1 || index >= negotiatedLanes ? `only ${negotiatedLanes} were agreed`
+      : lanes.some(lane => lane.index === index) ? 'it is already open'
+      : undefined;
+    if (refusal) {
+      console.warn(`Refusing data channel ${index} from ${laneChannel.peerId}: ${refusal}`);
+      laneChannel.close();
+      return undefined;
+    }
+
+    const lane = createLane(laneChannel, index);
+    const unsubscribeLaneData = laneChannel.onData(data => {
+      if (disposed || incompatibility) return;
+      receiveEnvelope(lane, data);
+    });
+    const unsubscribeLaneClose = laneChannel.onClose(() => removeLane(lane));
+    lane.unsubscribe = () => {
+      unsubscribeLaneData();
+      unsubscribeLaneClose();
+    };
+    lanes.push(lane);
+    lanes.sort((a, b) => a.index - b.index);
+    console.log(`Opened data channel ${index} to ${channel.peerId}`);
+    return lane;
+  };
+
+  // Announce our identity to the peer
+  sendHello().catch(error => console.error('Error sending key exchange hello:', error));
+
+  return {
+    peerId: channel.peerId,
+    on: emitter.on,
+    off: emitter.off,
+    sendFile,
+    unlockTransfer,
+    acceptTransfer,
+    rejectTransfer,
+    cancelTransfer,
+    pauseTransfer,
+    resumeTransfer,
+    resumeInterruptedUploads,
+    addLane,
+    received: () => primary.incoming,
+    dispose
+  };
+}
@@ -0,0 +1,312 @@
+/**
+ * Streaming ZIP writer for downloading several received files at once.
+ *
+ * Files are stored without compression and read one chunk at a time, so the
+ * archive is produced as a stream and never held in memory as a whole. CRCs
+ * follow each file in a data descriptor, and ZIP64 records are added when a
+ * file, an offset or the number of files exceeds the classic ZIP limits.
+ */
+import { ChunkSink } from './chunkSink';
+import { splitRelativePath } from './folders';
+
+export interface ZipEntry {
+  path: string; // Path inside the archive, folders separated by '/'
+  blob: Blob;
+  lastModified?: number;
+}
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE = 56;
+const ZIP64_LOCATOR_SIZE = 20;
+
+// Bit 3: sizes and CRC follow the data; bit 11: file names are UTF-8
+const FLAGS = 0x0808;
+
+interface PlannedEntry {
+  entry: ZipEntry;
+  name: Uint8Array;
+  offset: number; // Offset of the local header
+  modified: { time: number; date: number };
+  zip64: boolean; // File too large for 32-bit sizes
+  centralExtra: number[]; // 64-bit values for the central directory ZIP64 field
+}
+
+interface ZipPlan {
+  entries: PlannedEntry[];
+  centralDirectoryOffset: number;
+  centralDirectorySize: number;
+  zip64: boolean; // Needs ZIP64 end of central directory records
+  size: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc(crc: number, data: Uint8Array): number {
+  let c = crc ^ MAX_32;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ MAX_32) >>> 0;
+}
+
+// MS-DOS date and time used by ZIP headers
+function toDosDateTime(timestamp: number): { time: number; date: number } {
+  const d = new Date(timestamp);
+  if (d.getFullYear() < 1980) {
+    return { time: 0, date: (1 << 5) | 1 };
+  }
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+  };
+}
+
+// Little-endian writer for header records
+function createRecord(size: number) {
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let position = 0;
+  return {
+    bytes,
+    u16(value: number) {
+      view.setUint16(position, value, true);
+      position += 2;
+    },
+    u32(value: number) {
+      view.setUint32(position, value, true);
+      position += 4;
+    },
+    u64(value: number) {
+      view.setBigUint64(position, BigInt(value), true);
+      position += 8;
+    },
+    raw(data: Uint8Array) {
+      bytes.set(data, position);
+      position += data.length;
+    }
+  };
+}
+
+// Give every entry a safe, unique path inside the archive
+function uniquePaths(entries: ZipEntry[]): string[] {
+  const used = new Set<string>();
+  return entries.map(entry => {
+    const path = splitRelativePath(entry.path).join('/') || 'file';
+    let candidate = path;
+    const dot = path.lastIndexOf('.');
+    const hasExtension = dot > path.lastIndexOf('/') + 1;
+    const base = hasExtension ? path.slice(0, dot) : path;
+    const extension = hasExtension ? path.slice(dot) : '';
+    for (let copy = 1; used.has(candidate.toLowerCase()); copy++) {
+      candidate = `${base} (${copy})${extension}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+// Work out where every record goes; stored entries make the layout known up front
+function planZip(entries: ZipEntry[]): ZipPlan {
+  const encoder = new TextEncoder();
+  const paths = uniquePaths(entries);
+  let offset = 0;
+  let centralDirectorySize = 0;
+
+  const planned = entries.map((entry, index) => {
+    const name = encoder.encode(paths[index]);
+    const size = entry.blob.size;
+    const zip64 = size >= MAX_32;
+    const centralExtra: number[] = [];
+    if (zip64) centralExtra.push(size, size);
+    if (offset >= MAX_32) centralExtra.push(offset);
+
+    const modified = toDosDateTime(entry.lastModified ?? Date.now());
+    const plannedEntry = { entry, name, offset, modified, zip64, centralExtra };
+    offset += LOCAL_HEADER_SIZE + name.length + (zip64 ? 20 : 0) + size + (zip64 ? 24 : 16);
+    centralDirectorySize += CENTRAL_HEADER_SIZE + name.length + (centralExtra.length ? 4 + centralExtra.length * 8 : 0);
+    return plannedEntry;
+  });
+
+  const zip64 = entries.length >= MAX_16 || offset >= MAX_32 || centralDirectorySize >= MAX_32;
+  return {
+    entries: planned,
+    centralDirectoryOffset: offset,
+    centralDirectorySize,
+    zip64,
+    size: offset + centralDirectorySize + END_OF_CENTRAL_DIRECTORY_SIZE +
+      (zip64 ? ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE + ZIP64_LOCATOR_SIZE : 0)
+  };
+}
+
+// Size of the archive in bytes, e.g. for a Content-Length
+export function getZipSize(entries: ZipEntry[]): number {
+  return planZip(entries).size;
+}
+
+function localHeader({ name, modified, zip64 }: PlannedEntry): Uint8Array {
+  const record = createRecord(LOCAL_HEADER_SIZE + name.length + (zip64 ? 20 : 0));
+  record.u32(0x04034b50);
+  record.u16(zip64 ? 45 : 20); // Version needed to extract
+  record.u16(FLAGS);
+  record.u16(0); // Stored
+  record.u16(modified.time);
+  record.u16(modified.date);
+  record.u32(0); // CRC, in the data descriptor
+  record.u32(zip64 ? MAX_32 : 0); // Compressed size, in the data descriptor
+  record.u32(zip64 ? MAX_32 : 0); // Uncompressed size, in the data descriptor
+  record.u16(name.length);
+  record.u16(zip64 ? 20 : 0);
+  record.raw(name);
+  if (zip64) {
+    record.u16(0x0001);
+    record.u16(16);
+    record.u64(0);
+    record.u64(0);
+  }
+  return record.bytes;
+}
+
+function dataDescriptor({ entry, zip64 }: PlannedEntry, crc: number): Uint8Array {
+  const record = createRecord(zip64 ? 24 : 16);
+  record.u32(0x08074b50);
+  record.u32(crc);
+  if (zip64) {
+    record.u64(entry.blob.size);
+    record.u64(entry.blob.size);
+  } else {
+    record.u32(entry.blob.size);
+    record.u32(entry.blob.size);
+  }
+  return record.bytes;
+}
+
+function centralHeader(planned: PlannedEntry, crc: number): Uint8Array {
+  const { entry, name, offset, modified, zip64, centralExtra } = planned;
+  const extraLength = centralExtra.length ? 4 + centralExtra.length * 8 : 0;
+  const needs64 = centralExtra.length > 0;
+  const record = createRecord(CENTRAL_HEADER_SIZE + name.length + extraLength);
+  record.u32(0x02014b50);
+  record.u16(needs64 ? 45 : 20); // Version made by
+  record.u16(needs64 ? 45 : 20); // Version needed to extract
+  record.u16(FLAGS);
+  record.u16(0);
+  record.u16(modified.time);
+  record.u16(modified.date);
+  record.u32(crc);
+  record.u32(zip64 ? MAX_32 : entry.blob.size);
+  record.u32(zip64 ? MAX_32 : entry.blob.size);
+  record.u16(name.length);
+  record.u16(extraLength);
+  record.u16(0); // Comment length
+  record.u16(0); // Disk number
+  record.u16(0); // Internal attributes
+  record.u32(0); // External attributes
+  record.u32(offset >= MAX_32 ? MAX_32 : offset);
+  record.raw(name);
+  if (needs64) {
+    record.u16(0x0001);
+    record.u16(centralExtra.length * 8);
+    centralExtra.forEach(value => record.u64(value));
+  }
+  return record.bytes;
+}
+
+function endOfCentralDirectory(plan: ZipPlan): Uint8Array {
+  const { entries, centralDirectoryOffset, centralDirectorySize, zip64 } = plan;
+  const record = createRecord(END_OF_CENTRAL_DIRECTORY_SIZE +
+    (zip64 ? ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE + ZIP64_LOCATOR_SIZE : 0));
+
+  if (zip64) {
+    const zip64EndOffset = centralDirectoryOffset + centralDirectorySize;
+    record.u32(0x06064b50);
+    record.u64(ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE - 12);
+    record.u16(45);
+    record.u16(45);
+    record.u32(0);
+    record.u32(0);
+    record.u64(entries.length);
+    record.u64(entries.length);
+    record.u64(centralDirectorySize);
+    record.u64(centralDirectoryOffset);
+
+    record.u32(0x07064b50);
+    record.u32(0);
+    record.u64(zip64EndOffset);
+    record.u32(1);
+  }
+
+  record.u32(0x06054b50);
+  record.u16(0);
+  record.u16(0);
+  record.u16(Math.min(entries.length, MAX_16));
+  record.u16(Math.min(entries.length, MAX_16));
+  record.u32(Math.min(centralDirectorySize, MAX_32));
+  record.u32(Math.min(centralDirectoryOffset, MAX_32));
+  record.u16(0); // Comment length
+  return record.bytes;
+}
+
+/**
+ * Produce the archive as a sequence of byte chunks. File contents are read from
+ * each Blob's stream, so only one chunk of one file is in memory at a time.
+ */
+export async function* createZipStream(entries: ZipEntry[]): AsyncGenerator<Uint8Array> {
+  const plan = planZip(entries);
+  const crcs: number[] = [];
+
+  for (const planned of plan.entries) {
+    yield localHeader(planned);
+
+    let crc = 0;
+    const reader = planned.entry.blob.stream().getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      crc = updateCrc(crc, value);
+      yield value;
+    }
+    crcs.push(crc);
+
+    yield dataDescriptor(planned, crc);
+  }
+
+  for (let index = 0; index < plan.entries.length; index++) {
+    yield centralHeader(plan.entries[index], crcs[index]);
+  }
+  yield endOfCentralDirectory(plan);
+}
+
+// Write a whole archive into a sink, e.g. one that streams to disk
+export async function writeZip(entries: ZipEntry[], sink: ChunkSink): Promise<Blob | undefined> {
+  let chunkIndex = 0;
+  let offset = 0;
+  try {
+    for await (const chunk of createZipStream(entries)) {
+      // Streaming sinks transfer the buffer, so hand over one that holds exactly this chunk
+      const data = chunk.byteOffset === 0 && chunk.byteLength === chunk.buffer.byteLength
+        ? chunk.buffer as ArrayBuffer
+        : chunk.slice().buffer;
+      await sink.write(chunkIndex++, offset, data);
+      offset += chunk.byteLength;
+    }
+    return await sink.close();
+  } catch (error) {
+    await sink.abort(error).catch(() => undefined);
+    throw error;
+  }
+}
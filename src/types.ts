@@ -4,59 +4,180 @@ export interface FileTransfer {
   size: number;
   type: string;
   progress: number;
-  status: 'pending' | 'transferring' | 'completed' | 'error' | 'rejected' | 'cancelled';
-  blob?: Blob;
-  key?: string; // For legacy encryption
-  iv?: number[];
+  status: 'pending' | 'transferring' | 'paused' | 'completed' | 'error' | 'rejected' | 'cancelled' | 'interrupted';
+  blob?: Blob; // Decrypted file data once a received transfer completes
+  savedToDisk?: boolean; // Received file was streamed to disk instead of kept in memory
   sessionId?: string; // For secure encryption with key exchange
   estimatedTimeRemaining?: number; // in milliseconds
-  secure?: boolean; // Whether this transfer uses secure key exchange
+  encryption?: EncryptionMode;
+  verified?: boolean; // The receiver's SHA-256 of the whole file matched the sender's
+  confirmed?: boolean; // Sent files: the receiver reported on the whole file, even if it could not check it
+  sha256?: string; // Hex SHA-256 of the whole file, once known
+  peerId?: string; // Peer this file is being sent to or received from
+  direction?: 'send' | 'receive';
+  relativePath?: string; // Path inside the sent folder, e.g. "photos/2024/a.jpg"
+  group?: TransferGroup;
+  errorReason?: TransferErrorReason; // Why the file was rejected, cancelled or failed, if known
 }
 
-export interface PeerConnection {
+// Files sent together from one folder
+export interface TransferGroup {
   id: string;
-  connected: boolean;
+  name: string; // Name of the top-level folder
+  fileCount: number;
+  totalSize: number;
 }
 
-export interface FilePreview {
+// Files sent together in one go, so the receiver can accept them all at once
+export interface TransferBatch {
+  id: string;
+  fileCount: number;
+  totalSize: number;
+}
+
+// Why a transfer was rejected, cancelled by a peer or failed; sent along with file-rejected and file-cancel
+export type TransferErrorCode =
+  | 'declined' // The receiver said no
+  | 'too-large'
+  | 'type-not-allowed'
+  | 'quota-exceeded' // The receiver's per-peer limit
+  | 'unsupported' // Encryption mode or parameters the receiver does not accept
+  | 'key-missing' // No session key or passphrase for the file
+  | 'decrypt-failed' // Chunks kept failing decryption or their digest
+  | 'hash-mismatch' // The whole file did not match the sender's SHA-256
+  | 'disk-full'
+  | 'timeout'
+  | 'connection-lost'
+  | 'failed'; // Anything else, including codes from newer peers
+
+export interface TransferErrorReason {
+  code: TransferErrorCode;
+  message?: string; // Details for the user, e.g. the limit a rule enforces
+}
+
+// How a transfer's key is agreed: ECDH key exchange, or derived from a shared passphrase
+export type EncryptionMode = 'ecdh' | 'passphrase';
+
+// Everything but the passphrase needed to derive a passphrase transfer's key
+export interface PassphraseParams {
+  salt: string; // Base64 PBKDF2 salt
+  iterations: number;
+  check: string; // Encrypted known value, to tell a wrong passphrase before any data flows
+}
+
+export interface TransferTime {
+  start: number;
+  end?: number;
+  pausedMs?: number; // Time spent paused, not counted in the duration
+}
+
+// A finished transfer as remembered in the history, which outlives the page
+export interface HistoryEntry {
+  id: string; // Peer ID and file ID of the transfer, see transferKey
   name: string;
   size: number;
   type: string;
-  file: File;
+  relativePath?: string;
+  peerId: string;
+  peerName?: string; // Contact nickname of the peer at the time
+  direction: 'send' | 'receive';
+  encryption?: EncryptionMode;
+  sha256?: string;
+  verified?: boolean;
+  durationMs?: number; // Not counting time spent paused
+  status: 'completed' | 'error' | 'rejected' | 'cancelled';
+  finishedAt: number;
+  retained?: boolean; // The received file is kept for downloading again
+}
+
+export type ConnectionQuality = 'good' | 'fair' | 'poor';
+
+// Incoming file request waiting for the user to accept or reject it
+export interface PendingTransfer {
+  fileId: string;
+  peerId: string; // Peer offering the file
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  relativePath?: string;
+  group?: TransferGroup;
+  batch?: TransferBatch;
+  fingerprint?: string;
+  resume?: boolean; // Part of this file was received before the connection dropped
+  resumeProgress?: number; // Percentage already received when resuming
+  encryption?: EncryptionMode; // Undefined if the peer used an unsupported scheme
+  passphrase?: PassphraseParams;
+  iv?: number[];
+  sessionId?: string;
 }
 
-// Legacy encryption interface
-export interface FileEncryption {
-  data: Blob;
-  key: string;
-  iv: number[];
+export type PeerStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface PeerConnection {
+  id: string;
+  status: PeerStatus;
+  quality: ConnectionQuality;
+  speed: number; // in bytes per second
+  safetyNumber?: string[]; // Digit groups both sides compare to rule out a man in the middle
+  fingerprint?: string; // Fingerprint of the peer's identity key
+  verified?: boolean; // A contact with this identity key was verified
+  contactName?: string; // Nickname, if the peer is a saved contact
+  keyChanged?: boolean; // This peer ID belonged to a contact with a different identity key
+  keyMismatch?: boolean; // Disconnected because its identity key is not the one its invite named
+  protocol?: PeerProtocol; // Known once the peer's hello has been checked
+  incompatible?: string; // Why we cannot talk to this peer, if its app version does not match ours
+  laneSpeeds?: number[]; // Bytes per second on each open data channel; speed is their sum
+  route?: IceRoute; // Known once ICE has picked a path
+  rtt?: number; // Heartbeat round trip in milliseconds
+  degraded?: boolean; // Nothing has been heard from the peer for a while
+  reconnectAttempt?: number; // Automatic reconnection attempts since the connection was lost
+  reconnectAt?: number; // When the next attempt starts, if one is scheduled
+  timeline: ConnectionEvent[]; // Oldest first, recent events only
 }
 
-// New secure encryption interface using key exchange
-export interface SecureFileEncryption {
-  data: Blob;
-  iv: number[];
-  sessionId: string; // References the session key established during key exchange
+// Whether data flows straight between the peers or through a TURN relay
+export type IceRoute = 'direct' | 'relayed';
+
+// Stages of a connection to a peer, as shown in its timeline
+export type ConnectionPhase =
+  | 'connecting'
+  | 'ice-checking'
+  | 'ice-connected'
+  | 'open'
+  | 'degraded'
+  | 'recovered'
+  | 'lost'
+  | 'reconnecting'
+  | 'disconnected';
+
+export interface ConnectionEvent {
+  at: number;
+  phase: ConnectionPhase;
+  detail?: string;
 }
 
-export interface FileTransferMessage {
-  type: 'file-request' | 'file-start' | 'file-chunk' | 'file-complete' | 'file-accepted' | 'file-rejected' | 'file-cancel' | 'file-cancel-ack';
-  fileId: string;
-  fileName?: string;
-  fileSize?: number;
-  fileType?: string;
-  chunk?: number;
-  total?: number;
-  data?: ArrayBuffer;
-  key?: string; // For legacy encryption
-  iv?: number[];
-  sessionId?: string; // For secure encryption with key exchange
-  secure?: boolean; // Whether this transfer uses secure key exchange
+// Protocol version and optional features agreed with a peer
+export interface PeerProtocol {
+  version: number;
+  capabilities: string[];
+  lanes: number; // Data channels to stripe chunks across
+}
+
+// Saved peer with a pinned identity key
+export interface Contact {
+  fingerprint: string; // Hex SHA-256 of the identity public key
+  publicKey: string; // Base64 SPKI of the identity public key
+  nickname: string;
+  verified: boolean; // Safety number was compared out of band
+  lastPeerId?: string; // Peer ID the contact last connected with
+  addedAt: number;
+  lastSeen?: number;
 }
 
-// Key exchange message types
-export interface KeyExchangeMessage {
-  type: 'key-exchange-init' | 'key-exchange-reply' | 'key-exchange-complete';
-  publicKey: string; // Base64 encoded public key
-  sessionId: string; // Unique ID for this key exchange session
-}
\ No newline at end of file
+export interface FilePreview {
+  name: string;
+  size: number;
+  type: string;
+  file: File;
+  relativePath?: string; // Set when the file was picked as part of a folder
+}
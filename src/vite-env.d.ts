@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+// Build-time defaults for the connection settings, see src/lib/connectionSettings.ts
+interface ImportMetaEnv {
+  readonly VITE_PEER_HOST?: string;
+  readonly VITE_PEER_PORT?: string;
+  readonly VITE_PEER_PATH?: string;
+  readonly VITE_PEER_KEY?: string;
+  readonly VITE_PEER_SECURE?: string; // "false" for plain http/ws
+  readonly VITE_ICE_SERVERS?: string; // JSON array of RTCIceServer entries; [] for none
+}